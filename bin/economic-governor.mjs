@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI source directly through tsx
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../cli/index.ts');
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DEFAULT_TIER1_TSV, HEALTHY_TSV } from '../src/test/fixtures';
+
+const CLI = fileURLToPath(new URL('./index.ts', import.meta.url));
+
+let dir: string;
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'economic-governor-cli-'));
+  writeFileSync(join(dir, 'healthy.tsv'), HEALTHY_TSV);
+  writeFileSync(join(dir, 'default.tsv'), DEFAULT_TIER1_TSV);
+});
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function cli(...args: string[]) {
+  const result = spawnSync(process.execPath, ['--import', 'tsx', CLI, ...args], { encoding: 'utf8', timeout: 30_000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('economic-governor analyze', () => {
+  it('exits 0 when scaling is allowed and prints both modules as JSON', () => {
+    const { status, stdout } = cli('analyze', join(dir, 'healthy.tsv'));
+    expect(status).toBe(0);
+    const { module1, module2 } = JSON.parse(stdout);
+    expect(module1.scalePermission).toBe('allowed');
+    expect(module2.steps.length).toBeGreaterThan(0);
+  });
+
+  it('exits 3 when scale permission is denied', () => {
+    const { status, stdout } = cli('analyze', join(dir, 'default.tsv'), '--format', 'md');
+    expect(status).toBe(3);
+    expect(stdout).toMatch(/^# Weekly Governance Report — default/);
+  });
+
+  it('exits 1 with a message on stderr for bad input', () => {
+    const missing = cli('analyze', join(dir, 'missing.tsv'));
+    expect(missing.status).toBe(1);
+    expect(missing.stderr).toMatch(/^economic-governor: /);
+    expect(cli('analyze', join(dir, 'healthy.tsv'), '--format', 'pdf').stderr).toMatch(/Unknown format "pdf"/);
+  });
+
+  it('exits 1 for a missing or unknown command and 0 for --help', () => {
+    expect(cli().status).toBe(1);
+    expect(cli('report').status).toBe(1);
+    const help = cli('--help');
+    expect(help.status).toBe(0);
+    expect(help.stdout).toMatch(/^Usage: economic-governor analyze/);
+  });
+});
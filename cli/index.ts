@@ -0,0 +1,121 @@
+import { readFileSync } from 'node:fs';
+import { extname, basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { GovernorConfig } from '../src/types';
+import { parsePastedData, applyTier2Map, type Tier2Map } from '../src/sheets';
+import { csvToTsv } from '../src/data/defaultData';
+import { toDelimited } from '../src/csv';
+import { readXlsx } from '../src/xlsx';
+import { DEFAULT_GOVERNOR_CONFIG } from '../src/data/defaultConfig';
+import { runModule1 } from '../src/logic/economicGovernor';
+import { runModule2 } from '../src/logic/funnelDiagnostician';
+import { buildMarkdownReport } from '../src/report';
+
+/** Exit codes — cron and pipelines branch on these */
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_SCALE_DENIED = 3;
+
+const USAGE = `Usage: economic-governor analyze <scorecard.csv|.tsv|.xlsx> [options]
+
+Runs Module 1 (Economic Governor) and Module 2 (Funnel Diagnostician) on a
+Traction Scorecard export and prints the result.
+
+Options:
+  --tier2 <file.json>    Tier 2 values keyed by week label, e.g. {"1 Feb": {"cpm": 12.5}}
+  --config <file.json>   Threshold overrides (any GovernorConfig fields)
+  --market <flag>        Skip rows flagged for other markets, e.g. 🇺🇲
+  --sheet <name>         Worksheet to read from an .xlsx workbook (default: first)
+  --currency <code>      Currency for money formatting (default USD)
+  --format <json|md>     Output format (default json)
+  -h, --help             Show this help
+
+Exit codes: 0 = scaling allowed, 3 = scale permission denied, 1 = error.
+`;
+
+function readJson<T>(path: string, what: string): T {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (err) {
+    throw new Error(`Could not read ${what} file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Scorecard file as TSV — CSV is converted, .xlsx reads one worksheet */
+async function readScorecard(file: string, sheetName: string | undefined): Promise<string> {
+  const ext = extname(file).toLowerCase();
+  if (ext === '.xlsx') {
+    const sheets = await readXlsx(readFileSync(file));
+    const sheet = sheetName ? sheets.find(s => s.name === sheetName) : sheets[0];
+    if (!sheet) throw new Error(`No sheet "${sheetName}" in ${file} — available: ${sheets.map(s => s.name).join(', ')}`);
+    return toDelimited(sheet.rows, '\t');
+  }
+  const raw = readFileSync(file, 'utf8');
+  return ext === '.csv' ? csvToTsv(raw) : raw;
+}
+
+async function analyze(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      tier2: { type: 'string' },
+      config: { type: 'string' },
+      market: { type: 'string' },
+      sheet: { type: 'string' },
+      currency: { type: 'string', default: 'USD' },
+      format: { type: 'string', default: 'json' },
+    },
+  });
+
+  const [file] = positionals;
+  if (!file) throw new Error('Missing scorecard file.');
+  if (values.format !== 'json' && values.format !== 'md') throw new Error(`Unknown format "${values.format}" — use json or md.`);
+
+  const text = await readScorecard(file, values.sheet);
+
+  let weeks = parsePastedData(text, { marketFlag: values.market });
+  if (values.tier2) weeks = applyTier2Map(weeks, readJson<Tier2Map>(values.tier2, 'Tier 2'));
+
+  const config: GovernorConfig = values.config
+    ? { ...DEFAULT_GOVERNOR_CONFIG, ...readJson<Partial<GovernorConfig>>(values.config, 'config') }
+    : DEFAULT_GOVERNOR_CONFIG;
+
+  const module1 = runModule1(weeks, config);
+  const module2 = runModule2(module1, config);
+
+  if (values.format === 'md') {
+    process.stdout.write(buildMarkdownReport({
+      title: basename(file, extname(file)),
+      currency: values.currency!,
+      generatedAt: new Date(),
+      module1,
+      module2,
+    }));
+  } else {
+    process.stdout.write(JSON.stringify({ module1, module2 }, null, 2) + '\n');
+  }
+
+  return module1.scalePermission === 'denied' ? EXIT_SCALE_DENIED : EXIT_OK;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help' || rest.includes('-h') || rest.includes('--help')) {
+    process.stdout.write(USAGE);
+    return command ? EXIT_OK : EXIT_ERROR;
+  }
+  if (command !== 'analyze') {
+    process.stderr.write(`Unknown command "${command}".\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    return await analyze(rest);
+  } catch (err) {
+    process.stderr.write(`economic-governor: ${err instanceof Error ? err.message : String(err)}\n`);
+    return EXIT_ERROR;
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,73 @@
+import { parseArgs } from 'node:util';
+import { createInterface } from 'node:readline/promises';
+import type { UserRole } from '../src/types';
+import { upsertUser, USER_ROLES, USERS_FILE } from './auth';
+
+const USAGE = `Usage: npm run add-user -- <username> [--role viewer|editor]
+
+Adds a user to ${USERS_FILE} (or resets an existing user's password and role).
+The password is typed without echo, read from piped stdin, or taken from ECONOMIC_GOVERNOR_PASSWORD when set.
+`;
+
+const CTRL_C = '\u0003';
+const BACKSPACE = ['\u007f', '\b'];
+
+/** Read a password without echoing it to the terminal (or its scrollback); piped stdin is read up to the first line break */
+async function readPassword(prompt: string): Promise<string | null> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY) {
+    for await (const line of createInterface({ input: stdin })) return line;
+    return '';
+  }
+  stdout.write(prompt);
+  stdin.setRawMode(true);
+  stdin.setEncoding('utf8');
+  let password = '';
+  try {
+    for await (const chunk of stdin) {
+      for (const char of chunk as string) {
+        if (char === '\r' || char === '\n') return password;
+        if (char === CTRL_C) return null;
+        password = BACKSPACE.includes(char) ? password.slice(0, -1) : password + char;
+      }
+    }
+    return password;
+  } finally {
+    stdin.setRawMode(false);
+    stdout.write('\n');
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      role: { type: 'string', default: 'viewer' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [username] = positionals;
+  if (values.help || !username) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 1;
+  }
+  const role = values.role as UserRole;
+  if (!USER_ROLES.includes(role)) {
+    process.stderr.write(`Unknown role "${values.role}" — use ${USER_ROLES.join(' or ')}.\n`);
+    return 1;
+  }
+
+  const password = process.env.ECONOMIC_GOVERNOR_PASSWORD || await readPassword(`Password for ${username}: `);
+  if (password == null) return 130; // Ctrl+C
+  if (password.length < 8) {
+    process.stderr.write('Password must be at least 8 characters.\n');
+    return 1;
+  }
+
+  await upsertUser(username, password, role);
+  process.stdout.write(`Saved ${role} "${username}" to ${USERS_FILE}.\n`);
+  return 0;
+}
+
+process.exitCode = await main();
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { hashPassword, verifyPassword, upsertUser, loadUsers, createSession, sessionFor } from './auth';
+
+describe('password hashing', () => {
+  it('salts every hash and verifies only the right password', async () => {
+    const a = await hashPassword('correct horse');
+    const b = await hashPassword('correct horse');
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.hash).not.toBe(b.hash);
+    expect(await verifyPassword('correct horse', a.salt, a.hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', a.salt, a.hash)).toBe(false);
+  });
+});
+
+describe('user store', () => {
+  it('adds users and resets an existing user in place', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'eg-users-')), 'users.json');
+    await upsertUser('ana', 'password-1', 'viewer', file);
+    await upsertUser('ana', 'password-2', 'editor', file);
+    const users = loadUsers(file);
+    expect(users).toHaveLength(1);
+    expect(users[0]).toMatchObject({ username: 'ana', role: 'editor' });
+    expect(JSON.stringify(users)).not.toContain('password-2');
+    expect(await verifyPassword('password-2', users[0].salt, users[0].hash)).toBe(true);
+  });
+});
+
+describe('sessions', () => {
+  it('expire after the session lifetime', () => {
+    const now = Date.UTC(2026, 0, 4);
+    const { token, expiresAt } = createSession({ username: 'ana', role: 'viewer' }, now);
+    expect(sessionFor(token, now + 1000)?.user.username).toBe('ana');
+    expect(sessionFor(token, expiresAt)).toBeNull();
+    expect(sessionFor(token, now)).toBeNull(); // expired sessions are dropped
+    expect(sessionFor('unknown', now)).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { promisify } from 'node:util';
+import type { AuthUser, UserRole } from '../src/types';
+import { sendJson, readJsonBody, HttpError } from './http';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** Account store — keep it out of version control */
+export const USERS_FILE = process.env.USERS_FILE ?? 'server/data/users.json';
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 3_600_000;
+const KEY_LENGTH = 64;
+
+export const USER_ROLES: UserRole[] = ['viewer', 'editor'];
+
+interface StoredUser extends AuthUser {
+  salt: string; // hex
+  hash: string; // hex scrypt(password, salt)
+}
+
+interface Session {
+  user: AuthUser;
+  expiresAt: number;
+}
+
+export async function hashPassword(password: string, salt = randomBytes(16)): Promise<{ salt: string; hash: string }> {
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return { salt: salt.toString('hex'), hash: hash.toString('hex') };
+}
+
+export async function verifyPassword(password: string, salt: string, hash: string): Promise<boolean> {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function loadUsers(file = USERS_FILE): StoredUser[] {
+  if (!existsSync(file)) return [];
+  return JSON.parse(readFileSync(file, 'utf8')) as StoredUser[];
+}
+
+/** Add a user, or reset the password and role of an existing one */
+export async function upsertUser(username: string, password: string, role: UserRole, file = USERS_FILE) {
+  const users = loadUsers(file).filter(u => u.username !== username);
+  users.push({ username, role, ...await hashPassword(password) });
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(users, null, 2) + '\n', { mode: 0o600 });
+}
+
+/** Sessions live in memory — restarting the server signs everyone out */
+const sessions = new Map<string, Session>();
+
+export function createSession(user: AuthUser, now = Date.now()): { token: string; expiresAt: number } {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = now + SESSION_TTL_MS;
+  sessions.set(token, { user, expiresAt });
+  return { token, expiresAt };
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+export function sessionFor(token: string | null, now = Date.now()): Session | null {
+  if (!token) return null;
+  const session = sessions.get(token);
+  if (!session) return null;
+  if (session.expiresAt <= now) {
+    sessions.delete(token);
+    return null;
+  }
+  return session;
+}
+
+/** The signed-in user, or an HttpError — 401 without a live session, 403 when the role is too low */
+export function requireUser(req: IncomingMessage, role: UserRole = 'viewer'): AuthUser {
+  const session = sessionFor(bearerToken(req));
+  if (!session) throw new HttpError(401, 'Sign in to continue');
+  if (role === 'editor' && session.user.role !== 'editor') throw new HttpError(403, 'Editors only — your account is read-only');
+  return session.user;
+}
+
+/** POST /api/auth/login {username, password} → {token, user, expiresAt} */
+export async function handleLogin(req: IncomingMessage, res: ServerResponse) {
+  const { username, password } = await readJsonBody<{ username?: unknown; password?: unknown }>(req);
+  if (typeof username !== 'string' || typeof password !== 'string') throw new HttpError(400, 'Expected {"username", "password"}');
+
+  const stored = loadUsers().find(u => u.username === username);
+  // Hash even for unknown users so response time does not reveal which usernames exist
+  const valid = stored
+    ? await verifyPassword(password, stored.salt, stored.hash)
+    : (await hashPassword(password), false);
+  if (!stored || !valid) throw new HttpError(401, 'Incorrect username or password');
+
+  const user: AuthUser = { username: stored.username, role: stored.role };
+  sendJson(res, 200, { ...createSession(user), user });
+}
+
+/** POST /api/auth/logout — ends the caller's session */
+export async function handleLogout(req: IncomingMessage, res: ServerResponse) {
+  const token = bearerToken(req);
+  if (token) sessions.delete(token);
+  res.writeHead(204).end();
+}
+
+/** GET /api/auth/session → {user, expiresAt} for a live token */
+export async function handleSession(req: IncomingMessage, res: ServerResponse) {
+  const token = bearerToken(req);
+  const session = sessionFor(token);
+  if (!session) throw new HttpError(401, 'Session expired — sign in again');
+  sendJson(res, 200, { user: session.user, expiresAt: session.expiresAt });
+}
@@ -0,0 +1,129 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+/** SQLite file shared by everyone using this server — keep it out of version control */
+export const DB_FILE = process.env.DB_FILE ?? 'server/data/economic-governor.sqlite';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id TEXT PRIMARY KEY,
+    definition_json TEXT NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS profiles (
+    name TEXT PRIMARY KEY,
+    config_json TEXT NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tier1_sources (
+    workspace_id TEXT PRIMARY KEY,
+    tsv TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tier2_entries (
+    workspace_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    value_json TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (workspace_id, label)
+  );
+  CREATE TABLE IF NOT EXISTS analyses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    result_json TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    week_num INTEGER NOT NULL,
+    field TEXT,
+    kind TEXT NOT NULL,
+    before REAL,
+    after REAL,
+    source TEXT NOT NULL,
+    verdict TEXT,
+    scale_permission TEXT,
+    user TEXT NOT NULL,
+    at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_log_week ON audit_log (workspace_id, label);
+`;
+
+/**
+ * sql.js keeps the database in memory; every write is flushed to `file` (null = memory only, for tests).
+ * The file is replaced atomically so a crash mid-write never leaves a truncated database.
+ */
+export class Store {
+  private readonly db: Database;
+  private readonly file: string | null;
+
+  private constructor(db: Database, file: string | null) {
+    this.db = db;
+    this.file = file;
+    this.db.run(SCHEMA);
+  }
+
+  static async open(file: string | null = DB_FILE): Promise<Store> {
+    const SQL = await initSqlJs();
+    const data = file && existsSync(file) ? readFileSync(file) : undefined;
+    return new Store(new SQL.Database(data), file);
+  }
+
+  /** Rows as objects keyed by column name */
+  all<T>(sql: string, params: SqlValue[] = []): T[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: T[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject() as T);
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  get<T>(sql: string, params: SqlValue[] = []): T | undefined {
+    return this.all<T>(sql, params)[0];
+  }
+
+  /** Run statements in one transaction and persist once */
+  write<T>(fn: () => T): T {
+    this.db.run('BEGIN');
+    try {
+      const result = fn();
+      this.db.run('COMMIT');
+      this.flush();
+      return result;
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    }
+  }
+
+  run(sql: string, params: SqlValue[] = []) {
+    this.db.run(sql, params);
+  }
+
+  lastInsertId(): number {
+    return Number(this.db.exec('SELECT last_insert_rowid()')[0].values[0][0]);
+  }
+
+  private flush() {
+    if (!this.file) return;
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, this.db.export());
+    renameSync(tmp, this.file);
+  }
+}
@@ -0,0 +1,79 @@
+import { createServer } from 'node:http';
+import { sendJson, HttpError, type Handler } from './http';
+import { handleSheetCsv } from './sheetProxy';
+import { handleLogin, handleLogout, handleSession } from './auth';
+import { Store } from './db';
+import { ensureDefaultWorkspace } from './store';
+import { workspaceRoutes } from './workspaceRoutes';
+
+/** Local API for the app — run with `npm run server`; `npm run dev` proxies /api here, reading the same API_PORT */
+const PORT = Number(process.env.API_PORT) || 8787;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  names: string[];
+  handler: Handler;
+}
+
+/** 'GET /api/workspaces/:workspaceId/data' → a matcher capturing workspaceId */
+function compileRoutes(table: Record<string, Handler>): Route[] {
+  return Object.entries(table).map(([key, handler]) => {
+    const [method, path] = key.split(' ');
+    const names: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, name: string) => { names.push(name); return '([^/]+)'; });
+    return { method, pattern: new RegExp(`^${source}$`), names, handler };
+  });
+}
+
+const store = await Store.open();
+ensureDefaultWorkspace(store);
+
+const routes = compileRoutes({
+  'POST /api/auth/login': handleLogin,
+  'POST /api/auth/logout': handleLogout,
+  'GET /api/auth/session': handleSession,
+  'GET /api/sheets/csv': handleSheetCsv,
+  ...workspaceRoutes(store),
+});
+
+/** A :param segment as text — a malformed %-escape is the caller's mistake, not a server error */
+function decodeParam(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed URL path segment "${segment}"`);
+  }
+}
+
+function matchRoute(method: string | undefined, pathname: string): { handler: Handler; params: Record<string, string> } | null {
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const match = route.pattern.exec(pathname);
+    if (!match) continue;
+    const params = Object.fromEntries(route.names.map((name, i) => [name, decodeParam(match[i + 1])]));
+    return { handler: route.handler, params };
+  }
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  try {
+    const matched = matchRoute(req.method, url.pathname);
+    if (!matched) throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+    await matched.handler(req, res, { url, params: matched.params });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message, ...err.details });
+      return;
+    }
+    console.error(err);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`economic-governor server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,38 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { sheetCsvUrl, isValidSheetSource } from '../src/sheetSync';
+import { sendJson, type RequestContext } from './http';
+import { requireUser } from './auth';
+
+const UPSTREAM_TIMEOUT_MS = 15_000;
+
+/**
+ * GET /api/sheets/csv?id=<spreadsheetId>&gid=<gid> — fetch a sheet's CSV export server-side, where CORS does not apply.
+ * Only Google's export URL is ever requested, so the proxy cannot be pointed at arbitrary hosts.
+ */
+export async function handleSheetCsv(req: IncomingMessage, res: ServerResponse, { url }: RequestContext) {
+  requireUser(req);
+  const source = { spreadsheetId: url.searchParams.get('id') ?? '', gid: url.searchParams.get('gid') ?? '' };
+  if (!isValidSheetSource(source)) {
+    sendJson(res, 400, { error: 'Expected ?id=<spreadsheet id>&gid=<numeric tab id>' });
+    return;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(sheetCsvUrl(source), { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+  } catch (err) {
+    sendJson(res, 504, { error: `Google Sheets did not respond: ${err instanceof Error ? err.message : String(err)}` });
+    return;
+  }
+
+  if (!upstream.ok) {
+    sendJson(res, 502, { error: `Google Sheets answered HTTP ${upstream.status}` });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': upstream.headers.get('content-type') ?? 'text/csv; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(await upstream.text());
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { AuthUser, AuditContext } from '../src/types';
+import { HEALTHY_TSV, MIRAGE_TSV } from '../src/test/fixtures';
+import { Store } from './db';
+import { HttpError } from './http';
+import {
+  getWorkspaceData, saveTier1, saveTier2, listAnalyses, saveAnalysis, listAuditLog, ConflictError,
+  ensureDefaultWorkspace, listWorkspaces, createWorkspace, updateWorkspace, deleteWorkspace,
+  listProfiles, profileConfig, saveProfile, deleteProfile,
+} from './store';
+import { DEFAULT_GOVERNOR_CONFIG } from '../src/data/defaultConfig';
+
+const ana: AuthUser = { username: 'ana', role: 'editor' };
+const ben: AuthUser = { username: 'ben', role: 'editor' };
+
+let store: Store;
+beforeEach(async () => {
+  store = await Store.open(null);
+  ensureDefaultWorkspace(store);
+});
+
+describe('workspaces', () => {
+  const definition = { name: 'UK', currency: 'GBP', marketFlag: '🇬🇧', sheetSources: [], profileName: 'Default' };
+
+  it('starts with the built-in workspace and issues ids for new ones', () => {
+    ensureDefaultWorkspace(store);
+    const created = createWorkspace(store, definition, ana);
+    expect(created.id).toMatch(/^ws-[0-9a-f]{12}$/);
+    expect(listWorkspaces(store).map(ws => ws.id)).toEqual(['us', created.id]);
+  });
+
+  it('shares mapping overrides with everyone who lists the workspace', () => {
+    const created = createWorkspace(store, definition, ana);
+    const mappingOverrides = { 'CM (1000s)': { field: 'cmActual' as const, multiply: 1000 } };
+    updateWorkspace(store, { ...created, mappingOverrides }, ben);
+    expect(listWorkspaces(store).find(ws => ws.id === created.id)?.mappingOverrides).toEqual(mappingOverrides);
+  });
+
+  it('refuses saves to unknown workspaces and deleting the last one', () => {
+    expect(() => saveTier1(store, 'ws-gone', HEALTHY_TSV, 0, ana)).toThrow(HttpError);
+    const created = createWorkspace(store, definition, ana);
+    saveTier1(store, created.id, HEALTHY_TSV, 0, ana);
+    deleteWorkspace(store, created.id);
+    expect(getWorkspaceData(store, created.id).tier1).toBeNull();
+    expect(() => deleteWorkspace(store, 'us')).toThrow('last workspace');
+  });
+});
+
+describe('profiles', () => {
+  const strict = { ...DEFAULT_GOVERNOR_CONFIG, volumeProblemPva: 85 };
+
+  it('shares saved profiles with the team, the last save winning', () => {
+    saveProfile(store, { name: 'Strict', config: DEFAULT_GOVERNOR_CONFIG }, ana);
+    saveProfile(store, { name: 'Strict', config: strict }, ben);
+    expect(listProfiles(store)).toEqual([{ name: 'Strict', config: strict }]);
+    expect(profileConfig(store, 'Strict')).toEqual(strict);
+    expect(profileConfig(store, 'Default')).toEqual(DEFAULT_GOVERNOR_CONFIG);
+  });
+
+  it('leaves workspaces on a deleted profile pointing at it, so they show it as missing', () => {
+    saveProfile(store, { name: 'Strict', config: strict }, ana);
+    const created = createWorkspace(store, { name: 'UK', currency: 'GBP', marketFlag: '', sheetSources: [], profileName: 'Strict' }, ana);
+    deleteProfile(store, 'Strict');
+    expect(profileConfig(store, 'Strict')).toBeNull();
+    expect(listWorkspaces(store).find(ws => ws.id === created.id)?.profileName).toBe('Strict');
+  });
+
+  it('keeps the built-in Default out of the store', () => {
+    expect(() => saveProfile(store, { name: 'Default', config: strict }, ana)).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => deleteProfile(store, 'Default')).toThrow(expect.objectContaining({ status: 400 }));
+    expect(() => deleteProfile(store, 'Gone')).toThrow(expect.objectContaining({ status: 404 }));
+  });
+});
+
+describe('Tier 1', () => {
+  it('creates at version 1 and bumps the version on each save', () => {
+    expect(saveTier1(store, 'us', HEALTHY_TSV, 0, ana).version).toBe(1);
+    const updated = saveTier1(store, 'us', MIRAGE_TSV, 1, ben);
+    expect(updated).toMatchObject({ version: 2, updatedBy: 'ben' });
+    expect(getWorkspaceData(store, 'us').tier1?.tsv).toBe(MIRAGE_TSV);
+    expect(getWorkspaceData(store, 'uk').tier1).toBeNull();
+  });
+
+  it('rejects a save based on a stale version and leaves the stored copy alone', () => {
+    saveTier1(store, 'us', HEALTHY_TSV, 0, ana);
+    saveTier1(store, 'us', MIRAGE_TSV, 1, ben);
+    expect(() => saveTier1(store, 'us', HEALTHY_TSV, 1, ana)).toThrow(ConflictError);
+    expect(getWorkspaceData(store, 'us').tier1).toMatchObject({ tsv: MIRAGE_TSV, version: 2 });
+  });
+
+  it('rejects a source that does not parse as a scorecard', () => {
+    expect(() => saveTier1(store, 'us', 'Date\t4 Jan', 0, ana)).toThrow(expect.objectContaining({ status: 400 }));
+    expect(getWorkspaceData(store, 'us').tier1).toBeNull();
+  });
+});
+
+describe('Tier 2', () => {
+  it('versions each week separately so different weeks never conflict', () => {
+    saveTier2(store, 'us', '4 Jan', { cpm: 12 }, 0, ana);
+    saveTier2(store, 'us', '11 Jan', { cpm: 14 }, 0, ben);
+    saveTier2(store, 'us', '4 Jan', { cpm: 12, ctr: 1.5 }, 1, ben);
+    const { tier2 } = getWorkspaceData(store, 'us');
+    expect(tier2).toHaveLength(2);
+    expect(tier2).toEqual(expect.arrayContaining([
+      expect.objectContaining({ label: '4 Jan', values: { cpm: 12, ctr: 1.5 }, version: 2, updatedBy: 'ben' }),
+      expect.objectContaining({ label: '11 Jan', values: { cpm: 14 }, version: 1 }),
+    ]));
+  });
+
+  it('reports the current entry when two people edit the same week', () => {
+    saveTier2(store, 'us', '4 Jan', { cpm: 12 }, 0, ana);
+    try {
+      saveTier2(store, 'us', '4 Jan', { cpm: 99 }, 0, ben);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConflictError);
+      expect((err as ConflictError).status).toBe(409);
+      expect((err as ConflictError).details.current).toMatchObject({ values: { cpm: 12 }, updatedBy: 'ana' });
+    }
+  });
+});
+
+describe('analyses', () => {
+  it('lists saved analyses newest first', () => {
+    const result = { weekLabel: '4 Jan', profileName: 'Default', weeks: [], module1: { verdict: 'neither' } as never, module2: null };
+    saveAnalysis(store, 'us', { name: 'Week 2 review', ...result }, ana);
+    saveAnalysis(store, 'us', { name: 'Week 3 review', ...result }, ben);
+    expect(listAnalyses(store, 'us').map(a => [a.id, a.name, a.createdBy])).toEqual([
+      [2, 'Week 3 review', 'ben'],
+      [1, 'Week 2 review', 'ana'],
+    ]);
+    expect(listAnalyses(store, 'uk')).toEqual([]);
+  });
+});
+
+describe('audit log', () => {
+  const manual: AuditContext = { source: 'manual' };
+
+  it('logs each change with the save that made it, newest first', () => {
+    saveTier1(store, 'us', HEALTHY_TSV, 0, ana);
+    saveTier2(store, 'us', '4 Jan', { cpm: 12 }, 0, ana, manual);
+    saveTier2(store, 'us', '11 Jan', { cpm: 15 }, 0, ben, { source: 'bulk_paste' });
+    saveTier2(store, 'us', '4 Jan', { cpm: 13 }, 1, ben, manual);
+
+    expect(listAuditLog(store, 'us').map(e => [e.label, e.before, e.after, e.source, e.user])).toEqual([
+      ['4 Jan', 12, 13, 'manual', 'ben'],
+      ['11 Jan', null, 15, 'bulk_paste', 'ben'],
+      ['4 Jan', null, 12, 'manual', 'ana'],
+    ]);
+    expect(listAuditLog(store, 'us', '11 Jan')).toEqual([
+      expect.objectContaining({ field: 'cpm', source: 'bulk_paste', weekNum: 2 }),
+    ]);
+  });
+
+  it('records the verdict the server reaches on the stored weeks with the workspace\'s profile', () => {
+    saveTier1(store, 'us', HEALTHY_TSV, 0, ana, { source: 'paste' });
+    expect(listAuditLog(store, 'us')[0]).toMatchObject({ verdict: 'neither', scalePermission: 'allowed' });
+
+    saveProfile(store, { name: 'Strict', config: { ...DEFAULT_GOVERNOR_CONFIG, volumeProblemPva: 120 } }, ana);
+    updateWorkspace(store, { ...listWorkspaces(store)[0], profileName: 'Strict' }, ana);
+    saveTier2(store, 'us', '4 Jan', { cpm: 12 }, 0, ben, manual);
+    expect(listAuditLog(store, 'us')[0]).toMatchObject({ user: 'ben', verdict: 'volume_problem' });
+
+    deleteProfile(store, 'Strict');
+    saveTier2(store, 'us', '4 Jan', { cpm: 13 }, 1, ana, manual);
+    expect(listAuditLog(store, 'us')[0]).toMatchObject({ field: 'cpm', verdict: null, scalePermission: null });
+  });
+
+  it('has no verdict to record before there is Tier 1 data', () => {
+    saveTier2(store, 'us', '4 Jan', { cpm: 12 }, 0, ana, manual);
+    expect(listAuditLog(store, 'us')[0]).toMatchObject({ verdict: null, scalePermission: null });
+  });
+
+  it('works out every changed Tier 2 field from the stored values, without a diff from the client', () => {
+    saveTier2(store, 'us', '4 Jan', { cpm: 12, ctr: 1.5 }, 0, ana, manual);
+    saveTier2(store, 'us', '4 Jan', { cpm: 13, cvr: 2.1 }, 1, ben, manual);
+    expect(listAuditLog(store, 'us').map(e => [e.user, e.field, e.kind, e.before, e.after])).toEqual([
+      ['ben', 'cvr', 'added', null, 2.1],
+      ['ben', 'ctr', 'removed', 1.5, null],
+      ['ben', 'cpm', 'changed', 12, 13],
+      ['ana', 'ctr', 'added', null, 1.5],
+      ['ana', 'cpm', 'added', null, 12],
+    ]);
+  });
+
+  it('diffs a Tier 1 save against the stored source', () => {
+    saveTier1(store, 'us', HEALTHY_TSV, 0, ana, { source: 'paste' });
+    expect(listAuditLog(store, 'us').map(e => [e.label, e.kind, e.field])).toEqual([
+      ['18 Jan', 'added', null],
+      ['11 Jan', 'added', null],
+      ['4 Jan', 'added', null],
+    ]);
+    saveTier1(store, 'us', MIRAGE_TSV, 1, ben, { source: 'sync' });
+    const log = listAuditLog(store, 'us').filter(e => e.user === 'ben');
+    expect(log.every(e => e.source === 'sync')).toBe(true);
+    expect(log).toContainEqual(expect.objectContaining({ label: '4 Jan', weekNum: 1, field: 'countActual', before: 100, after: 40 }));
+  });
+
+  it('logs nothing when the save is rejected', () => {
+    saveTier1(store, 'us', HEALTHY_TSV, 0, ana);
+    const audit: AuditContext = { source: 'paste' };
+    expect(() => saveTier1(store, 'us', MIRAGE_TSV, 0, ben, audit)).toThrow(ConflictError);
+    expect(listAuditLog(store, 'us')).toEqual([]);
+  });
+});
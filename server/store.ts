@@ -0,0 +1,301 @@
+import { randomBytes } from 'node:crypto';
+import {
+  EMPTY_WEEK,
+  type AuthUser, type Tier1Record, type Tier2Entry, type WorkspaceData, type SavedAnalysis, type WeekData, type WeekChange,
+  type AuditContext, type AuditEntry, type Workspace, type ThresholdProfile, type GovernorConfig, type Verdict, type ScalePermission,
+} from '../src/types';
+import { DEFAULT_WORKSPACE } from '../src/data/defaultData';
+import { DEFAULT_GOVERNOR_CONFIG, DEFAULT_PROFILE_NAME } from '../src/data/defaultConfig';
+import { parsePastedData, applyTier2Map, workspaceParseOptions, type Tier2Map } from '../src/sheets';
+import { diffWeeks, diffTier2 } from '../src/logic/weekDiff';
+import { runModule1 } from '../src/logic/economicGovernor';
+import type { Store } from './db';
+import { HttpError } from './http';
+
+/** The caller saved over a version someone else already replaced; `current` is what is stored now */
+export class ConflictError extends HttpError {
+  constructor(message: string, current: Tier1Record | Tier2Entry | null) {
+    super(409, message, { current });
+    this.name = 'ConflictError';
+  }
+}
+
+interface WorkspaceRow { id: string; definition_json: string }
+interface ProfileRow { name: string; config_json: string }
+interface Tier1Row { tsv: string; version: number; updated_by: string; updated_at: string }
+interface Tier2Row { label: string; value_json: string; version: number; updated_by: string; updated_at: string }
+interface AnalysisRow { id: number; name: string; result_json: string; created_by: string; created_at: string }
+interface AuditRow {
+  id: number; label: string; week_num: number; field: string | null; kind: string; before: number | null; after: number | null;
+  source: string; verdict: string | null; scale_permission: string | null; user: string; at: string;
+}
+
+const toWorkspace = (r: WorkspaceRow): Workspace => ({ ...JSON.parse(r.definition_json), id: r.id });
+// Thresholds added since a profile was saved take the default
+const toProfile = (r: ProfileRow): ThresholdProfile => ({ name: r.name, config: { ...DEFAULT_GOVERNOR_CONFIG, ...JSON.parse(r.config_json) } });
+const toTier1 = (r: Tier1Row): Tier1Record => ({ tsv: r.tsv, version: r.version, updatedBy: r.updated_by, updatedAt: r.updated_at });
+const toTier2 = (r: Tier2Row): Tier2Entry => ({
+  label: r.label, values: JSON.parse(r.value_json), version: r.version, updatedBy: r.updated_by, updatedAt: r.updated_at,
+});
+
+/** Workspaces in the order they were created */
+export function listWorkspaces(store: Store): Workspace[] {
+  return store.all<WorkspaceRow>('SELECT id, definition_json FROM workspaces ORDER BY rowid').map(toWorkspace);
+}
+
+export function getWorkspace(store: Store, workspaceId: string): Workspace | null {
+  const row = store.get<WorkspaceRow>('SELECT id, definition_json FROM workspaces WHERE id = ?', [workspaceId]);
+  return row ? toWorkspace(row) : null;
+}
+
+/** The workspace, or a 404 — data can only be saved to workspaces the server knows */
+export function requireWorkspace(store: Store, workspaceId: string): Workspace {
+  const workspace = getWorkspace(store, workspaceId);
+  if (!workspace) throw new HttpError(404, `Workspace "${workspaceId}" does not exist — it may have been deleted`);
+  return workspace;
+}
+
+/** Create the built-in workspace on a fresh database, so Tier 1/Tier 2 saved under its id have a home */
+export function ensureDefaultWorkspace(store: Store, now = new Date()) {
+  if (store.get('SELECT id FROM workspaces LIMIT 1')) return;
+  const { id, ...definition } = DEFAULT_WORKSPACE;
+  store.write(() => store.run(
+    'INSERT INTO workspaces (id, definition_json, updated_by, updated_at) VALUES (?, ?, ?, ?)',
+    [id, JSON.stringify(definition), '', now.toISOString()],
+  ));
+}
+
+/** Add a workspace under a server-issued id */
+export function createWorkspace(store: Store, definition: Omit<Workspace, 'id'>, user: AuthUser, now = new Date()): Workspace {
+  const id = `ws-${randomBytes(6).toString('hex')}`;
+  return store.write(() => {
+    store.run(
+      'INSERT INTO workspaces (id, definition_json, updated_by, updated_at) VALUES (?, ?, ?, ?)',
+      [id, JSON.stringify(definition), user.username, now.toISOString()],
+    );
+    return { ...definition, id };
+  });
+}
+
+/** Replace a workspace's settings, mapping rules and overrides — the last save wins */
+export function updateWorkspace(store: Store, workspace: Workspace, user: AuthUser, now = new Date()): Workspace {
+  const { id, ...definition } = workspace;
+  return store.write(() => {
+    requireWorkspace(store, id);
+    store.run(
+      'UPDATE workspaces SET definition_json = ?, updated_by = ?, updated_at = ? WHERE id = ?',
+      [JSON.stringify(definition), user.username, now.toISOString(), id],
+    );
+    return workspace;
+  });
+}
+
+/** Delete a workspace with its Tier 1/Tier 2 data and saved analyses. Its change log is kept. */
+export function deleteWorkspace(store: Store, workspaceId: string) {
+  store.write(() => {
+    requireWorkspace(store, workspaceId);
+    if (listWorkspaces(store).length === 1) throw new HttpError(400, 'The last workspace cannot be deleted');
+    store.run('DELETE FROM workspaces WHERE id = ?', [workspaceId]);
+    for (const table of ['tier1_sources', 'tier2_entries', 'analyses']) {
+      store.run(`DELETE FROM ${table} WHERE workspace_id = ?`, [workspaceId]);
+    }
+  });
+}
+
+/** The team's threshold profiles in the order they were created — the built-in Default is not stored */
+export function listProfiles(store: Store): ThresholdProfile[] {
+  return store.all<ProfileRow>('SELECT name, config_json FROM profiles ORDER BY rowid').map(toProfile);
+}
+
+/** The thresholds a workspace's profile name stands for, or null when no such profile exists (any more) */
+export function profileConfig(store: Store, name: string): GovernorConfig | null {
+  if (name === DEFAULT_PROFILE_NAME) return DEFAULT_GOVERNOR_CONFIG;
+  const row = store.get<ProfileRow>('SELECT name, config_json FROM profiles WHERE name = ?', [name]);
+  return row ? toProfile(row).config : null;
+}
+
+/** Create or replace a team profile — the last save wins */
+export function saveProfile(store: Store, profile: ThresholdProfile, user: AuthUser, now = new Date()): ThresholdProfile {
+  if (profile.name === DEFAULT_PROFILE_NAME) throw new HttpError(400, `The built-in ${DEFAULT_PROFILE_NAME} profile cannot be changed`);
+  return store.write(() => {
+    store.run(
+      `INSERT INTO profiles (name, config_json, updated_by, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET config_json = excluded.config_json, updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+      [profile.name, JSON.stringify(profile.config), user.username, now.toISOString()],
+    );
+    return profile;
+  });
+}
+
+/** Delete a team profile. Workspaces that use it are left as they are — they show the profile as missing. */
+export function deleteProfile(store: Store, name: string) {
+  if (name === DEFAULT_PROFILE_NAME) throw new HttpError(400, `The built-in ${DEFAULT_PROFILE_NAME} profile cannot be deleted`);
+  store.write(() => {
+    if (!store.get('SELECT name FROM profiles WHERE name = ?', [name])) throw new HttpError(404, `Profile "${name}" does not exist`);
+    store.run('DELETE FROM profiles WHERE name = ?', [name]);
+  });
+}
+
+function getTier1(store: Store, workspaceId: string): Tier1Record | null {
+  const row = store.get<Tier1Row>('SELECT tsv, version, updated_by, updated_at FROM tier1_sources WHERE workspace_id = ?', [workspaceId]);
+  return row ? toTier1(row) : null;
+}
+
+function getTier2(store: Store, workspaceId: string, label: string): Tier2Entry | null {
+  const row = store.get<Tier2Row>(
+    'SELECT label, value_json, version, updated_by, updated_at FROM tier2_entries WHERE workspace_id = ? AND label = ?',
+    [workspaceId, label],
+  );
+  return row ? toTier2(row) : null;
+}
+
+export function getWorkspaceData(store: Store, workspaceId: string): WorkspaceData {
+  const tier2 = store.all<Tier2Row>(
+    'SELECT label, value_json, version, updated_by, updated_at FROM tier2_entries WHERE workspace_id = ?',
+    [workspaceId],
+  );
+  return { tier1: getTier1(store, workspaceId), tier2: tier2.map(toTier2) };
+}
+
+/** Stored Tier 1 weeks, parsed with the workspace's current rules; a source that no longer parses has none */
+function storedTier1Weeks(current: Tier1Record | null, workspace: Workspace): WeekData[] {
+  if (!current) return [];
+  try {
+    return parsePastedData(current.tsv, workspaceParseOptions(workspace));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The governor's call on the stored weeks, on the workspace's own profile — the same for every client.
+ * Null without Tier 1 data to judge, or when the workspace's profile was deleted.
+ */
+function storedVerdict(store: Store, workspace: Workspace): { verdict: Verdict | null; scalePermission: ScalePermission | null } {
+  const config = profileConfig(store, workspace.profileName);
+  const tier1 = storedTier1Weeks(getTier1(store, workspace.id), workspace);
+  if (!config || !tier1.some(w => w.adSpend != null || w.cmActual != null || w.countActual != null)) {
+    return { verdict: null, scalePermission: null };
+  }
+  const tier2: Tier2Map = Object.fromEntries(getWorkspaceData(store, workspace.id).tier2.map(e => [e.label, e.values]));
+  const { verdict, scalePermission } = runModule1(applyTier2Map(tier1, tier2), config);
+  return { verdict, scalePermission };
+}
+
+/** Log what a save changed, once it is stored. Rows are only ever inserted — nothing updates or deletes them. */
+function appendAudit(store: Store, workspace: Workspace, changes: WeekChange[], audit: AuditContext, user: AuthUser, at: string) {
+  if (changes.length === 0) return;
+  const { verdict, scalePermission } = storedVerdict(store, workspace);
+  for (const c of changes) {
+    store.run(
+      `INSERT INTO audit_log (workspace_id, label, week_num, field, kind, before, after, source, verdict, scale_permission, user, at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [workspace.id, c.label, c.weekNum, c.field, c.kind, c.before, c.after, audit.source, verdict, scalePermission, user.username, at],
+    );
+  }
+}
+
+/**
+ * Replace the Tier 1 source if `baseVersion` is still the stored version (0 when creating).
+ * Every Tier 1 value that differs from the stored source is logged with `audit` and the verdict after the save.
+ */
+export function saveTier1(
+  store: Store, workspaceId: string, tsv: string, baseVersion: number, user: AuthUser, audit: AuditContext | null = null, now = new Date(),
+): Tier1Record {
+  return store.write(() => {
+    const workspace = requireWorkspace(store, workspaceId);
+    const current = getTier1(store, workspaceId);
+    if ((current?.version ?? 0) !== baseVersion) {
+      throw new ConflictError(`Tier 1 was updated by ${current?.updatedBy ?? 'someone else'} — reload before saving`, current);
+    }
+    let weeks: WeekData[];
+    try {
+      weeks = parsePastedData(tsv, workspaceParseOptions(workspace));
+    } catch (err) {
+      throw new HttpError(400, `Tier 1 could not be read: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const record: Tier1Record = { tsv, version: baseVersion + 1, updatedBy: user.username, updatedAt: now.toISOString() };
+    store.run(
+      `INSERT INTO tier1_sources (workspace_id, tsv, version, updated_by, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (workspace_id) DO UPDATE SET tsv = excluded.tsv, version = excluded.version,
+         updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+      [workspaceId, tsv, record.version, record.updatedBy, record.updatedAt],
+    );
+    if (audit) appendAudit(store, workspace, diffWeeks(storedTier1Weeks(current, workspace), weeks), audit, user, record.updatedAt);
+    return record;
+  });
+}
+
+/**
+ * Replace one week's Tier 2 values if `baseVersion` is still the stored version (0 when creating).
+ * Every field that differs from the stored values is logged with `audit`.
+ */
+export function saveTier2(
+  store: Store, workspaceId: string, label: string, values: Partial<WeekData>, baseVersion: number, user: AuthUser,
+  audit: AuditContext | null = null, now = new Date(),
+): Tier2Entry {
+  return store.write(() => {
+    const workspace = requireWorkspace(store, workspaceId);
+    const current = getTier2(store, workspaceId, label);
+    if ((current?.version ?? 0) !== baseVersion) {
+      throw new ConflictError(`${label} Tier 2 was changed by ${current?.updatedBy ?? 'someone else'} while you were editing`, current);
+    }
+    const entry: Tier2Entry = { label, values, version: baseVersion + 1, updatedBy: user.username, updatedAt: now.toISOString() };
+    store.run(
+      `INSERT INTO tier2_entries (workspace_id, label, value_json, version, updated_by, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (workspace_id, label) DO UPDATE SET value_json = excluded.value_json, version = excluded.version,
+         updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+      [workspaceId, label, JSON.stringify(values), entry.version, entry.updatedBy, entry.updatedAt],
+    );
+    if (audit) {
+      // Tier 2 is stored by label; the week number comes from the Tier 1 source
+      const weekNum = storedTier1Weeks(getTier1(store, workspaceId), workspace).find(w => w.label === label)?.weekNum ?? 0;
+      const changes = diffTier2(current?.values ?? {}, { ...EMPTY_WEEK, label, weekNum, ...values });
+      appendAudit(store, workspace, changes, audit, user, entry.updatedAt);
+    }
+    return entry;
+  });
+}
+
+/** Saved analyses newest first; ones saved before weeks were frozen with them have none */
+export function listAnalyses(store: Store, workspaceId: string): SavedAnalysis[] {
+  return store.all<AnalysisRow>(
+    'SELECT id, name, result_json, created_by, created_at FROM analyses WHERE workspace_id = ? ORDER BY id DESC',
+    [workspaceId],
+  ).map(r => ({ weeks: [], ...JSON.parse(r.result_json), id: r.id, name: r.name, createdBy: r.created_by, createdAt: r.created_at }));
+}
+
+type AnalysisInput = Omit<SavedAnalysis, 'id' | 'createdBy' | 'createdAt'>;
+
+export function saveAnalysis(store: Store, workspaceId: string, analysis: AnalysisInput, user: AuthUser, now = new Date()): SavedAnalysis {
+  const { name, ...result } = analysis;
+  return store.write(() => {
+    requireWorkspace(store, workspaceId);
+    store.run(
+      'INSERT INTO analyses (workspace_id, name, result_json, created_by, created_at) VALUES (?, ?, ?, ?, ?)',
+      [workspaceId, name, JSON.stringify(result), user.username, now.toISOString()],
+    );
+    return { ...analysis, id: store.lastInsertId(), createdBy: user.username, createdAt: now.toISOString() };
+  });
+}
+
+/** Change log newest first, optionally for one week */
+export function listAuditLog(store: Store, workspaceId: string, label: string | null = null, limit = 500): AuditEntry[] {
+  const rows = label == null
+    ? store.all<AuditRow>('SELECT * FROM audit_log WHERE workspace_id = ? ORDER BY id DESC LIMIT ?', [workspaceId, limit])
+    : store.all<AuditRow>('SELECT * FROM audit_log WHERE workspace_id = ? AND label = ? ORDER BY id DESC LIMIT ?', [workspaceId, label, limit]);
+  return rows.map(r => ({
+    id: r.id,
+    label: r.label,
+    weekNum: r.week_num,
+    field: r.field as AuditEntry['field'],
+    kind: r.kind as AuditEntry['kind'],
+    before: r.before,
+    after: r.after,
+    source: r.source as AuditEntry['source'],
+    verdict: r.verdict as AuditEntry['verdict'],
+    scalePermission: r.scale_permission as AuditEntry['scalePermission'],
+    user: r.user,
+    at: r.at,
+  }));
+}
@@ -0,0 +1,244 @@
+import {
+  CHANGE_SOURCE_LABELS, EMPTY_WEEK,
+  type WeekData, type AuditContext, type ChangeSource, type Verdict, type ScalePermission,
+  type Workspace, type MappingRule, type MappingMetric, type Module1Result, type Module2Result, type GovernorConfig,
+} from '../src/types';
+import { DEFAULT_GOVERNOR_CONFIG } from '../src/data/defaultConfig';
+import { TIER2_FIELDS, METRIC_FIELDS } from '../src/sheets';
+import { RCA_FIELDS } from '../src/logic/snapshotCompare';
+import type { Store } from './db';
+import { sendJson, readJsonBody, HttpError, type Handler } from './http';
+import { requireUser } from './auth';
+import {
+  getWorkspaceData, saveTier1, saveTier2, listAnalyses, saveAnalysis, listAuditLog,
+  listWorkspaces, createWorkspace, updateWorkspace, deleteWorkspace, listProfiles, saveProfile, deleteProfile,
+} from './store';
+
+const CHANGE_SOURCES = Object.keys(CHANGE_SOURCE_LABELS) as ChangeSource[];
+const VERDICTS: Verdict[] = ['cm_problem', 'volume_problem', 'both', 'neither'];
+const SCALE_PERMISSIONS: ScalePermission[] = ['denied', 'leak_hunt_only', 'allowed'];
+const MAX_AUDIT_ROWS = 2000;
+const MAPPING_METRICS = Object.keys(METRIC_FIELDS) as MappingMetric[];
+const RULE_SERIES: MappingRule['series'][] = ['forecast', 'actual', 'detect'];
+const WEEK_FIELDS = Object.keys(EMPTY_WEEK) as (keyof WeekData)[];
+const CONFIG_FIELDS = Object.keys(DEFAULT_GOVERNOR_CONFIG) as (keyof GovernorConfig)[];
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v != null && !Array.isArray(v);
+
+const isSheetSource = (v: unknown) => isRecord(v) && [v.id, v.label, v.spreadsheetId, v.gid].every(isString);
+
+/** Patterns are not compiled here — the rules editor saves half-typed ones, which simply never match */
+const isMappingRule = (v: unknown) => isRecord(v) && isString(v.pattern) && MAPPING_METRICS.includes(v.metric as MappingMetric)
+  && RULE_SERIES.includes(v.series as MappingRule['series']) && isFiniteNumber(v.scale) && isString(v.currency);
+
+const isMappingOverride = (v: unknown) =>
+  v === null || (isRecord(v) && WEEK_FIELDS.includes(v.field as keyof WeekData) && isFiniteNumber(v.multiply));
+
+/** A workspace's settings, mapping rules and overrides — everything but the id, which the server issues */
+function workspaceDefinition(value: unknown): Omit<Workspace, 'id'> {
+  if (!isRecord(value)) throw new HttpError(400, 'Expected the workspace settings');
+  const {
+    name, currency, marketFlag, sheetSources, activeSheetSourceId, syncViaProxy, autoSyncMinutes, profileName, mappingRules, mappingOverrides,
+  } = value;
+  if (!isString(name) || !name.trim()) throw new HttpError(400, 'Expected "name"');
+  if (!isString(currency) || !/^[A-Z]{3}$/.test(currency)) throw new HttpError(400, '"currency" must be an ISO 4217 code, e.g. "USD"');
+  if (!isString(marketFlag)) throw new HttpError(400, '"marketFlag" must be a string (empty accepts all rows)');
+  if (!isString(profileName)) throw new HttpError(400, 'Expected "profileName"');
+  if (!Array.isArray(sheetSources) || !sheetSources.every(isSheetSource)) {
+    throw new HttpError(400, '"sheetSources" must be {id, label, spreadsheetId, gid} entries');
+  }
+  if (activeSheetSourceId !== undefined && !isString(activeSheetSourceId)) throw new HttpError(400, '"activeSheetSourceId" must be a string');
+  if (syncViaProxy !== undefined && typeof syncViaProxy !== 'boolean') throw new HttpError(400, '"syncViaProxy" must be true or false');
+  if (autoSyncMinutes !== undefined && (!isFiniteNumber(autoSyncMinutes) || autoSyncMinutes < 0)) {
+    throw new HttpError(400, '"autoSyncMinutes" must be 0 or more');
+  }
+  if (mappingRules !== undefined && (!Array.isArray(mappingRules) || !mappingRules.every(isMappingRule))) {
+    throw new HttpError(400, '"mappingRules" must be {pattern, metric, series, scale, currency} entries');
+  }
+  if (mappingOverrides !== undefined && (!isRecord(mappingOverrides) || !Object.values(mappingOverrides).every(isMappingOverride))) {
+    throw new HttpError(400, '"mappingOverrides" must map row labels to {field, multiply} or null');
+  }
+  return {
+    name: name.trim(),
+    currency,
+    marketFlag,
+    sheetSources: sheetSources.map(({ id, label, spreadsheetId, gid }) => ({ id, label, spreadsheetId, gid })),
+    profileName,
+    ...(activeSheetSourceId !== undefined && { activeSheetSourceId }),
+    ...(syncViaProxy !== undefined && { syncViaProxy }),
+    ...(autoSyncMinutes !== undefined && { autoSyncMinutes }),
+    ...(mappingRules !== undefined && { mappingRules: mappingRules as MappingRule[] }),
+    ...(mappingOverrides !== undefined && { mappingOverrides: mappingOverrides as Workspace['mappingOverrides'] }),
+  };
+}
+
+/** A profile's thresholds, all numbers; ones left out take the default */
+function governorConfig(value: unknown): GovernorConfig {
+  if (!isRecord(value)) throw new HttpError(400, 'Expected "config": {threshold: number}');
+  for (const [key, v] of Object.entries(value)) {
+    if (!CONFIG_FIELDS.includes(key as keyof GovernorConfig)) throw new HttpError(400, `"${key}" is not a threshold`);
+    if (!isFiniteNumber(v)) throw new HttpError(400, `"config.${key}" must be a number`);
+  }
+  return { ...DEFAULT_GOVERNOR_CONFIG, ...value };
+}
+
+function baseVersion(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, 'Expected "baseVersion": the version you last loaded (0 for new)');
+  }
+  return value;
+}
+
+/** Only Tier 2 fields, as numbers or null */
+function tier2Values(value: unknown): Partial<WeekData> {
+  if (typeof value !== 'object' || value == null) throw new HttpError(400, 'Expected "values": {field: number | null}');
+  const values: Partial<WeekData> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (!TIER2_FIELDS.includes(key as keyof WeekData)) throw new HttpError(400, `"${key}" is not a Tier 2 field`);
+    if (v !== null && (typeof v !== 'number' || !Number.isFinite(v))) throw new HttpError(400, `"${key}" must be a number or null`);
+    (values as Record<string, number | null>)[key] = v;
+  }
+  return values;
+}
+
+/** How every Tier 1/Tier 2 save is logged — the changes and the verdict after them are worked out by the store */
+function auditContext(value: unknown): AuditContext {
+  if (!isRecord(value)) throw new HttpError(400, 'Expected "audit": {source}');
+  if (!CHANGE_SOURCES.includes(value.source as ChangeSource)) {
+    throw new HttpError(400, `"audit.source" must be one of ${CHANGE_SOURCES.join(', ')}`);
+  }
+  return { source: value.source as ChangeSource };
+}
+
+/** A frozen week — label, week number and every other WeekData field as a number or null (missing = null) */
+function weekData(value: unknown): WeekData | null {
+  if (!isRecord(value) || !isString(value.label) || !Number.isInteger(value.weekNum)) return null;
+  const week: WeekData = { ...EMPTY_WEEK, label: value.label, weekNum: value.weekNum as number };
+  for (const field of WEEK_FIELDS) {
+    if (field === 'label' || field === 'weekNum' || value[field] === undefined) continue;
+    if (value[field] !== null && !isFiniteNumber(value[field])) return null;
+    (week as unknown as Record<string, number | null>)[field] = value[field] as number | null;
+  }
+  return week;
+}
+
+/** The governor result, checked for the fields the snapshot list and compare view read */
+function module1Result(value: unknown): Module1Result {
+  if (!isRecord(value)) throw new HttpError(400, 'Expected "module1": the governor result');
+  if (!VERDICTS.includes(value.verdict as Verdict)) throw new HttpError(400, `"module1.verdict" must be one of ${VERDICTS.join(', ')}`);
+  if (!SCALE_PERMISSIONS.includes(value.scalePermission as ScalePermission)) {
+    throw new HttpError(400, `"module1.scalePermission" must be one of ${SCALE_PERMISSIONS.join(', ')}`);
+  }
+  for (const key of ['biggestLeak', 'verdictExplanation', 'scaleReason']) {
+    if (!isString(value[key])) throw new HttpError(400, `"module1.${key}" must be a string`);
+  }
+  if (!isFiniteNumber(value.biggestLeakDollars)) throw new HttpError(400, '"module1.biggestLeakDollars" must be a number');
+  return value as unknown as Module1Result;
+}
+
+/** The funnel result or null; its RCA summary is compared field by field */
+function module2Result(value: unknown): Module2Result | null {
+  if (value == null) return null;
+  const rca = isRecord(value) ? value.rcaSummary : undefined;
+  if (!isRecord(value) || !(rca === null || (isRecord(rca) && RCA_FIELDS.every(field => isString(rca[field]))))) {
+    throw new HttpError(400, '"module2" must be the funnel result, with an RCA summary of strings or null');
+  }
+  return value as unknown as Module2Result;
+}
+
+/** Workspaces, threshold profiles and their team state — reads for any signed-in user, writes for editors */
+export function workspaceRoutes(store: Store): Record<string, Handler> {
+  return {
+    'GET /api/profiles': async (req, res) => {
+      requireUser(req);
+      sendJson(res, 200, listProfiles(store));
+    },
+
+    'PUT /api/profiles/:name': async (req, res, { params }) => {
+      const user = requireUser(req, 'editor');
+      const name = params.name.trim();
+      if (!name || name !== params.name) throw new HttpError(400, 'Profile names cannot be blank or start or end with spaces');
+      const body = await readJsonBody<{ config?: unknown }>(req);
+      sendJson(res, 200, saveProfile(store, { name, config: governorConfig(body.config) }, user));
+    },
+
+    'DELETE /api/profiles/:name': async (req, res, { params }) => {
+      requireUser(req, 'editor');
+      deleteProfile(store, params.name);
+      res.writeHead(204).end();
+    },
+
+    'GET /api/workspaces': async (req, res) => {
+      requireUser(req);
+      sendJson(res, 200, listWorkspaces(store));
+    },
+
+    'POST /api/workspaces': async (req, res) => {
+      const user = requireUser(req, 'editor');
+      sendJson(res, 201, createWorkspace(store, workspaceDefinition(await readJsonBody(req)), user));
+    },
+
+    'PUT /api/workspaces/:workspaceId': async (req, res, { params }) => {
+      const user = requireUser(req, 'editor');
+      const definition = workspaceDefinition(await readJsonBody(req));
+      sendJson(res, 200, updateWorkspace(store, { ...definition, id: params.workspaceId }, user));
+    },
+
+    'DELETE /api/workspaces/:workspaceId': async (req, res, { params }) => {
+      requireUser(req, 'editor');
+      deleteWorkspace(store, params.workspaceId);
+      res.writeHead(204).end();
+    },
+
+    'GET /api/workspaces/:workspaceId/data': async (req, res, { params }) => {
+      requireUser(req);
+      sendJson(res, 200, getWorkspaceData(store, params.workspaceId));
+    },
+
+    'PUT /api/workspaces/:workspaceId/tier1': async (req, res, { params }) => {
+      const user = requireUser(req, 'editor');
+      const body = await readJsonBody<{ tsv?: unknown; baseVersion?: unknown; audit?: unknown }>(req);
+      if (typeof body.tsv !== 'string' || !body.tsv.trim()) throw new HttpError(400, 'Expected "tsv": the scorecard as tab-separated text');
+      sendJson(res, 200, saveTier1(store, params.workspaceId, body.tsv, baseVersion(body.baseVersion), user, auditContext(body.audit)));
+    },
+
+    'PUT /api/workspaces/:workspaceId/tier2/:label': async (req, res, { params }) => {
+      const user = requireUser(req, 'editor');
+      const body = await readJsonBody<{ values?: unknown; baseVersion?: unknown; audit?: unknown }>(req);
+      sendJson(res, 200, saveTier2(
+        store, params.workspaceId, params.label, tier2Values(body.values), baseVersion(body.baseVersion), user, auditContext(body.audit),
+      ));
+    },
+
+    /** ?week=<label> narrows the log to one week */
+    'GET /api/workspaces/:workspaceId/audit': async (req, res, { params, url }) => {
+      requireUser(req);
+      sendJson(res, 200, listAuditLog(store, params.workspaceId, url.searchParams.get('week'), MAX_AUDIT_ROWS));
+    },
+
+    'GET /api/workspaces/:workspaceId/analyses': async (req, res, { params }) => {
+      requireUser(req);
+      sendJson(res, 200, listAnalyses(store, params.workspaceId));
+    },
+
+    'POST /api/workspaces/:workspaceId/analyses': async (req, res, { params }) => {
+      const user = requireUser(req, 'editor');
+      const body = await readJsonBody<Record<string, unknown>>(req);
+      if (typeof body.name !== 'string' || !body.name.trim()) throw new HttpError(400, 'Expected "name"');
+      const weeks = Array.isArray(body.weeks) ? body.weeks.map(weekData) : null;
+      if (!weeks || weeks.some(w => w == null)) {
+        throw new HttpError(400, 'Expected "weeks": the weeks the result was computed from, as {label, weekNum, ...fields} entries');
+      }
+      sendJson(res, 201, saveAnalysis(store, params.workspaceId, {
+        name: body.name.trim(),
+        weekLabel: String(body.weekLabel ?? ''),
+        profileName: String(body.profileName ?? ''),
+        module1: module1Result(body.module1),
+        module2: module2Result(body.module2),
+        weeks: weeks as WeekData[],
+      }, user));
+    },
+  };
+}
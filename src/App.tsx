@@ -1,131 +1,623 @@
-import { useState, useMemo, useEffect } from 'react';
-import type { WeekData } from './types';
-import { parsePastedData } from './sheets';
-import { runModule1 } from './logic/economicGovernor';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import {
+  CHANGE_SOURCE_LABELS,
+  type WeekData, type ThresholdProfile, type Workspace, type MappingOverrides, type MappingTemplate, type SyncLogEntry,
+  type Tier1Record, type Tier2Entry, type ChangeSource, type AuditContext,
+} from './types';
+import { runModule1, runVerdictHistory } from './logic/economicGovernor';
 import { runModule2 } from './logic/funnelDiagnostician';
-import { DEFAULT_TIER1_TSV, SHEET_CSV_URL, csvToTsv } from './data/defaultData';
-import PasswordGate from './components/PasswordGate';
+import { diffWeeks, diffTier2, diffTier2Weeks } from './logic/weekDiff';
+import { startHistory, record, replacePresent, undo, redo, type UndoHistory } from './logic/undoHistory';
+import { notify } from './notify';
+import { parsePastedData, tier2Values, workspaceParseOptions } from './sheets';
+import { syncSheet, SheetSyncError } from './sheetSync';
+import { loadProfiles, saveProfiles, withDefaultProfile, profilesUploaded, markProfilesUploaded } from './profiles';
+import { loadMappingTemplates, saveMappingTemplates } from './mappingTemplates';
+import { DEFAULT_PROFILE_NAME } from './data/defaultConfig';
+import {
+  loadWorkspaces, saveWorkspaces, loadActiveWorkspaceId, saveActiveWorkspaceId, workspacesUploaded, markWorkspacesUploaded,
+  moveWorkspaceData, loadWorkspaceWeeks, loadTier1Source, saveTier1Source, saveTier2, deleteWorkspaceData,
+  activeSheetSource, loadSavedTier1Weeks,
+} from './workspaces';
+import {
+  ApiError, conflictRecord, fetchWorkspaces, postWorkspace, putWorkspace, deleteWorkspace, fetchWorkspaceData, putTier1, putTier2Week,
+  fetchProfiles, putProfile, deleteProfile,
+} from './api';
+import {
+  emptyServerState, toServerState, serverWeeks, withKnownTier2, changedTier2Labels, replaceTier2, conflictKey,
+  type ServerState, type DataConflict,
+} from './teamSync';
+import { loadSession, verifySession, watchSession, logout, canEdit, type AuthSession } from './auth';
+import LoginScreen from './components/LoginScreen';
 import DataInput from './components/DataInput';
 import Module1 from './components/Module1';
 import Module2 from './components/Module2';
+import ConfigEditor from './components/ConfigEditor';
+import WorkspaceEditor from './components/WorkspaceEditor';
+import WorkspaceOverview from './components/WorkspaceOverview';
+import ScenarioPanel from './components/ScenarioPanel';
+import ReportMenu from './components/ReportMenu';
+import ParsePreview from './components/ParsePreview';
+import FileDrop from './components/FileDrop';
+import SyncChangelog from './components/SyncChangelog';
+import ConflictBanner from './components/ConflictBanner';
+import SavedAnalyses from './components/SavedAnalyses';
+import HistoryDrawer from './components/HistoryDrawer';
 
-const TIER1_STORAGE_KEY = 'economic-governor-tier1-paste';
-const TIER2_STORAGE_KEY = 'economic-governor-tier2';
-
-/** Tier 2 field keys — everything NOT sourced from the spreadsheet */
-const TIER2_FIELDS: (keyof WeekData)[] = [
-  'cpm', 'ctr', 'cpc', 'frequency', 'metaClicks', 'shopifySessions', 'cvr',
-];
-
-/** Merge saved Tier 2 data onto pasted weeks (match by label) */
-function mergeTier2(pastedWeeks: WeekData[]): WeekData[] {
-  try {
-    const saved = localStorage.getItem(TIER2_STORAGE_KEY);
-    if (!saved) return pastedWeeks;
-    const tier2Map: Record<string, Partial<WeekData>> = JSON.parse(saved);
-
-    return pastedWeeks.map(w => {
-      const t2 = tier2Map[w.label];
-      if (!t2) return w;
-      const merged = { ...w };
-      for (const key of TIER2_FIELDS) {
-        if (t2[key] != null) (merged as Record<string, unknown>)[key] = t2[key];
-      }
-      return merged;
-    });
-  } catch { return pastedWeeks; }
-}
+const SYNC_LOG_LENGTH = 10;
+/** Typing in a Tier 2 cell is saved once the week has been quiet this long */
+const TIER2_SAVE_DELAY_MS = 800;
+/** Workspace settings are saved once editing them pauses — the name field changes on every keystroke */
+const WORKSPACE_SAVE_DELAY_MS = 800;
+/** setTimeout fires at once for delays past 2^31−1 ms (~24.8 days) — longer waits are made in steps */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
-/** Save only Tier 2 data to localStorage (keyed by week label) */
-function saveTier2(weeks: WeekData[]) {
-  const tier2Map: Record<string, Partial<WeekData>> = {};
-  for (const w of weeks) {
-    const entry: Partial<WeekData> = {};
-    let hasData = false;
-    for (const key of TIER2_FIELDS) {
-      if (w[key] != null) {
-        (entry as Record<string, unknown>)[key] = w[key];
-        hasData = true;
-      }
-    }
-    if (hasData) tier2Map[w.label] = entry;
-  }
-  localStorage.setItem(TIER2_STORAGE_KEY, JSON.stringify(tier2Map));
+/** The weeks on screen, the Tier 1 source text they were parsed from and the edit that produced them — one undo step */
+interface WeeksSnapshot {
+  weeks: WeekData[];
+  tsv: string;
+  source: ChangeSource | null; // null for a fresh load
 }
 
+/** A 401 has already signed the user out (see watchSession) — the failed save is not an error to show */
+const signedOut = (err: unknown) => err instanceof ApiError && err.status === 401;
+
+const hasTier1Data = (weeks: WeekData[]) =>
+  weeks.some(w => w.adSpend != null || w.cmActual != null || w.countActual != null);
+
 export default function App() {
-  const [authed, setAuthed] = useState(() => sessionStorage.getItem('auth') === 'true');
-  const [weeks, setWeeks] = useState<WeekData[]>([]);
+  const [session, setSession] = useState<AuthSession | null>(loadSession);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(loadWorkspaces);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState(loadActiveWorkspaceId);
+  const [workspacesLoaded, setWorkspacesLoaded] = useState(false); // the server's workspace list replaced this browser's copy
+  const [history, setHistory] = useState<UndoHistory<WeeksSnapshot>>(() => startHistory({ weeks: [], tsv: '', source: null }));
+  const weeks = history.present.weeks;
   const [pasteText, setPasteText] = useState('');
   const [showPaste, setShowPaste] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const [mappingTemplates, setMappingTemplates] = useState<MappingTemplate[]>(loadMappingTemplates);
   const [error, setError] = useState<string | null>(null);
   const [syncing, setSyncing] = useState(false);
+  const [syncLog, setSyncLog] = useState<SyncLogEntry[]>([]);
+  const syncingRef = useRef(false);
+  const [profiles, setProfiles] = useState<ThresholdProfile[]>(loadProfiles);
+  const [showConfig, setShowConfig] = useState(false);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  const [showOverview, setShowOverview] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showAnalyses, setShowAnalyses] = useState(false);
+  const [conflicts, setConflicts] = useState<DataConflict[]>([]);
+  const [offline, setOffline] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [auditRevision, setAuditRevision] = useState(0); // bumped after each logged save so the history drawer refetches
+  const serverRef = useRef<ServerState>(emptyServerState(activeWorkspaceId));
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const pendingTier2 = useRef(new Map<string, { timer: ReturnType<typeof setTimeout>; save: () => void }>());
+  const pendingWorkspaces = useRef(new Map<string, { timer: ReturnType<typeof setTimeout>; save: () => void }>());
+
+  const workspace = workspaces.find(ws => ws.id === activeWorkspaceId) ?? workspaces[0];
+  const editable = canEdit(session?.user);
+  const sheetSource = activeSheetSource(workspace);
+  // A workspace whose profile was deleted (or never shared) gets no verdict rather than one on other thresholds
+  const activeProfile = profiles.find(p => p.name === workspace.profileName) ?? null;
+  const config = activeProfile?.config ?? null;
+
+  /** Show fresh weeks — loads start a new undo history */
+  const loadWeeks = (next: WeekData[], tsv: string) => setHistory(startHistory({ weeks: next, tsv, source: null }));
+
+  /** Show a workspace's weeks from this browser's copy */
+  const loadLocalWeeks = (ws: Workspace) => {
+    const local = loadWorkspaceWeeks(ws);
+    loadWeeks(local, loadTier1Source(ws.id) ?? '');
+  };
+
+  /** Correct the weeks on screen without an undo step — rollbacks and the server's copy */
+  const patchWeeks = (fn: (ws: WeekData[]) => WeekData[], tsv?: string) =>
+    setHistory(h => replacePresent(h, { ...h.present, weeks: fn(h.present.weeks), tsv: tsv ?? h.present.tsv }));
+
+  /** An undoable edit; Tier 1 reloads also pass the source text they were parsed from */
+  const recordWeeks = (next: WeekData[], source: ChangeSource, tsv?: string, mergeKey: string | null = null) =>
+    setHistory(h => record(h, { weeks: next, tsv: tsv ?? h.present.tsv, source }, mergeKey));
+
+  // Load the active workspace's saved paste on mount
+  useEffect(() => {
+    loadLocalWeeks(workspace);
+  }, []);
+
+  // A stored session may have been revoked or expired server-side
+  useEffect(() => {
+    if (!session) return;
+    verifySession().then(valid => { if (!valid) setSession(null); });
+  }, []);
 
-  // Load saved paste from localStorage on mount, fall back to synced default
+  // Any request the server turns away with a 401 — e.g. after a restart dropped every session — signs out
+  useEffect(() => watchSession(() => setSession(null)), []);
+
+  // Sign out when the session runs out while the app is open
   useEffect(() => {
-    const saved = localStorage.getItem(TIER1_STORAGE_KEY);
-    const source = saved || DEFAULT_TIER1_TSV;
+    if (!session) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const check = () => {
+      const remaining = session.expiresAt - Date.now();
+      if (remaining <= 0) setSession(null);
+      else timer = setTimeout(check, Math.min(remaining, MAX_TIMER_DELAY_MS));
+    };
+    check();
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const handleLogout = async () => {
+    flushTier2Saves();
+    flushWorkspaceSaves();
+    await saveQueue.current;
     try {
-      const parsed = parsePastedData(source);
-      setWeeks(mergeTier2(parsed));
-      if (!saved) localStorage.setItem(TIER1_STORAGE_KEY, DEFAULT_TIER1_TSV);
-    } catch {
-      // stale data, ignore
+      await logout();
+    } finally {
+      setSession(null);
     }
-  }, []);
+  };
 
-  // Save Tier 2 data to localStorage when weeks change
+  // Keep this browser's copy of Tier 2 current — it is what shows when the server can't be reached
   useEffect(() => {
-    if (weeks.length > 0) saveTier2(weeks);
+    if (weeks.length > 0) saveTier2(weeks, workspace.id);
   }, [weeks]);
 
-  const handlePaste = () => {
-    if (!pasteText.trim()) return;
+  // Load the team's profiles and workspaces, replacing this browser's lists. The first time, an editor uploads the browser-only ones.
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    setWorkspacesLoaded(false);
+    Promise.all([fetchProfiles(), fetchWorkspaces()])
+      .then(async ([sharedProfiles, sharedWorkspaces]) => {
+        // Profiles first — the uploaded workspaces name them
+        const teamProfiles = editable && !profilesUploaded() ? await uploadBrowserProfiles(sharedProfiles) : sharedProfiles;
+        const list = editable && !workspacesUploaded() ? await uploadBrowserWorkspaces(sharedWorkspaces) : sharedWorkspaces;
+        return { teamProfiles, list };
+      })
+      .then(({ teamProfiles, list }) => {
+        if (cancelled) return;
+        updateProfiles(withDefaultProfile(teamProfiles));
+        updateWorkspaces(list);
+        // The active workspace may have been deleted by a teammate, or re-keyed by the upload
+        const active = list.find(ws => ws.id === loadActiveWorkspaceId()) ?? list[0];
+        setActiveWorkspaceId(active.id);
+        saveActiveWorkspaceId(active.id);
+        if (active.id !== activeWorkspaceId) loadLocalWeeks(active);
+        setWorkspacesLoaded(true);
+      })
+      .catch(err => { if (!cancelled && !signedOut(err)) setOffline(true); });
+    return () => { cancelled = true; };
+  }, [session?.token]);
+
+  /** Profiles saved before the team store only exist in this browser — share the ones the team doesn't have by that name */
+  const uploadBrowserProfiles = async (shared: ThresholdProfile[]): Promise<ThresholdProfile[]> => {
+    const list = [...shared];
+    for (const profile of profiles.filter(p => p.name !== DEFAULT_PROFILE_NAME)) {
+      if (list.some(p => p.name === profile.name)) continue;
+      try {
+        list.push(await putProfile(profile));
+      } catch (err) {
+        if (!(err instanceof ApiError) || err.status === 0 || signedOut(err)) throw err;
+        setError(`Profile "${profile.name}" not shared: ${err.message}`);
+      }
+    }
+    markProfilesUploaded();
+    return list;
+  };
+
+  /**
+   * Workspaces created before the team store only exist in this browser. Upload them under server-issued ids, moving
+   * their data along, and keep this browser's row fixes for the built-in workspace unless a teammate already saved some.
+   */
+  const uploadBrowserWorkspaces = async (shared: Workspace[]): Promise<Workspace[]> => {
+    const list = [...shared];
+    let local = workspaces;
+    for (const ws of workspaces) {
+      const { id, ...definition } = ws;
+      const existing = list.findIndex(s => s.id === id);
+      try {
+        if (existing >= 0) {
+          const server = list[existing];
+          if (server.mappingRules || server.mappingOverrides || !(ws.mappingRules || ws.mappingOverrides)) continue;
+          list[existing] = await putWorkspace({ ...server, mappingRules: ws.mappingRules, mappingOverrides: ws.mappingOverrides });
+          continue;
+        }
+        const created = await postWorkspace(definition);
+        moveWorkspaceData(id, created.id);
+        if (loadActiveWorkspaceId() === id) saveActiveWorkspaceId(created.id);
+        list.push(created);
+        // Saved as we go, so a retry after a dropped connection skips what already made it
+        local = local.map(l => l.id === id ? created : l);
+        saveWorkspaces(local);
+      } catch (err) {
+        if (!(err instanceof ApiError) || err.status === 0 || signedOut(err)) throw err;
+        setError(`Workspace "${ws.name}" not shared: ${err.message}`);
+      }
+    }
+    markWorkspacesUploaded();
+    return list;
+  };
+
+  // Load the team's copy of the workspace from the server, replacing the browser copy shown meanwhile
+  useEffect(() => {
+    if (!session || !workspacesLoaded) return;
+    const state = emptyServerState(workspace.id);
+    serverRef.current = state;
+    setConflicts([]);
+    setOffline(false);
+    fetchWorkspaceData(workspace.id)
+      .then(data => {
+        if (serverRef.current !== state) return;
+        Object.assign(state, toServerState(data, workspace.id));
+        const loaded = serverWeeks(state, workspace);
+        if (loaded) {
+          loadWeeks(loaded, state.tier1!.tsv);
+          saveTier1Source(workspace.id, state.tier1!.tsv);
+        } else if (editable) {
+          uploadBrowserCopy(state);
+        }
+      })
+      .catch(err => { if (serverRef.current === state && !signedOut(err)) setOffline(true); });
+    return flushTier2Saves;
+  }, [session?.token, workspace.id, workspacesLoaded]);
+
+  /** The server has no Tier 1 for this workspace yet — the first editor to open it uploads what this browser has */
+  const uploadBrowserCopy = (state: ServerState) => {
+    const tsv = loadTier1Source(state.workspaceId);
+    if (!tsv) return;
+    const local = loadWorkspaceWeeks(workspace);
+    saveTier1(state, tsv, { source: 'paste' });
+    for (const week of local) {
+      if (!state.tier2[week.label]) saveTier2Week(state, week, { source: 'manual' });
+    }
+  };
+
+  /** Run server saves one at a time so each one sends the version the previous one got back */
+  const enqueueSave = (save: () => Promise<void>) => {
+    saveQueue.current = saveQueue.current.then(save);
+  };
+
+  const addConflict = (conflict: DataConflict) =>
+    setConflicts(list => [...list.filter(c => conflictKey(c) !== conflictKey(conflict)), conflict]);
+
+  /** Save the Tier 1 source against the version last seen; someone else's newer save becomes a conflict */
+  const saveTier1 = (state: ServerState, tsv: string, context: AuditContext) => enqueueSave(async () => {
+    if (state.tier1?.tsv === tsv) return;
+    try {
+      state.tier1 = await putTier1(state.workspaceId, tsv, state.tier1?.version ?? 0, context);
+      setAuditRevision(n => n + 1);
+    } catch (err) {
+      if (serverRef.current !== state) return;
+      const theirs = conflictRecord<Tier1Record>(err);
+      if (theirs !== undefined) addConflict({ kind: 'tier1', source: context.source, mine: tsv, theirs });
+      else if (signedOut(err)) return;
+      else if (err instanceof ApiError && err.status > 0) setError(`Tier 1 not saved to the server: ${err.message}`);
+      else setOffline(true);
+    }
+  });
+
+  /** Save one week's Tier 2 like saveTier1; a save the server refuses outright is rolled back on screen */
+  const saveTier2Week = (state: ServerState, week: WeekData, context: AuditContext) => enqueueSave(async () => {
+    const { label } = week;
+    const values = tier2Values(week);
+    if (diffTier2(state.tier2[label]?.values ?? {}, week).length === 0) return;
     try {
-      const parsed = parsePastedData(pasteText);
-      const merged = mergeTier2(parsed);
-      setWeeks(merged);
-      localStorage.setItem(TIER1_STORAGE_KEY, pasteText);
-      setError(null);
-      setShowPaste(false);
-      setPasteText('');
+      state.tier2[label] = await putTier2Week(state.workspaceId, label, values, state.tier2[label]?.version ?? 0, context);
+      setAuditRevision(n => n + 1);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse pasted data');
+      if (serverRef.current !== state) return;
+      const theirs = conflictRecord<Tier2Entry>(err);
+      if (theirs !== undefined) {
+        addConflict({ kind: 'tier2', source: context.source, label, mine: values, theirs });
+      } else if (signedOut(err)) {
+        // The edit stays in this browser's copy rather than being rolled back
+      } else if (err instanceof ApiError && err.status > 0) {
+        patchWeeks(ws => replaceTier2(ws, label, state.tier2[label]?.values ?? {}));
+        setError(`${label} not saved: ${err.message}`);
+      } else {
+        setOffline(true);
+      }
+    }
+  });
+
+  const flushTier2Saves = () => {
+    for (const { timer, save } of [...pendingTier2.current.values()]) {
+      clearTimeout(timer);
+      save();
+    }
+  };
+
+  /** Save the listed weeks of `next` to the server, each once typing in it pauses */
+  const scheduleTier2Saves = (labels: string[], next: WeekData[], context: AuditContext) => {
+    if (!editable) return;
+    const state = serverRef.current;
+    for (const label of labels) {
+      const week = next.find(w => w.label === label);
+      if (!week) continue;
+      clearTimeout(pendingTier2.current.get(label)?.timer);
+      const save = () => {
+        pendingTier2.current.delete(label);
+        saveTier2Week(state, week, context);
+      };
+      pendingTier2.current.set(label, { timer: setTimeout(save, TIER2_SAVE_DELAY_MS), save });
+    }
+  };
+
+  /** Grid edits show at once (optimistic) and reach the server week by week. Typing into one cell is one undo step. */
+  const handleTier2Change = (next: WeekData[], source: ChangeSource = 'manual') => {
+    const changes = diffTier2Weeks(weeks, next);
+    const mergeKey = source === 'manual' && changes.length === 1 ? `${changes[0].label}:${changes[0].field}` : null;
+    recordWeeks(next, source, undefined, mergeKey);
+    scheduleTier2Saves(changedTier2Labels(weeks, next), next, { source });
+  };
+
+  /** Step through the undo history, saving whatever the step changes like any other edit */
+  const handleUndoRedo = (direction: 'undo' | 'redo') => {
+    const next = direction === 'undo' ? undo(history) : redo(history);
+    if (next === history) return;
+    const from = history.present;
+    const to = next.present;
+    setHistory(next);
+    const context: AuditContext = { source: direction };
+    if (to.tsv && to.tsv !== from.tsv) {
+      saveTier1Source(workspace.id, to.tsv);
+      if (editable) saveTier1(serverRef.current, to.tsv, context);
+    }
+    scheduleTier2Saves(changedTier2Labels(from.weeks, to.weeks), to.weeks, context);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (⌘ on Mac). In the data grids this replaces the browser's own field undo; other fields keep theirs.
+  const undoRef = useRef(handleUndoRedo);
+  undoRef.current = handleUndoRedo;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+      const target = e.target instanceof Element ? e.target : null;
+      if (target?.closest('input, textarea, select, [contenteditable]') && !target.closest('[data-undo-grid]')) return;
+      e.preventDefault();
+      undoRef.current(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  /** Keep mine re-saves over the version that won; use theirs puts it on screen */
+  const resolveConflict = (conflict: DataConflict, keepMine: boolean) => {
+    const state = serverRef.current;
+    setConflicts(list => list.filter(c => conflictKey(c) !== conflictKey(conflict)));
+    if (conflict.kind === 'tier1') {
+      state.tier1 = conflict.theirs;
+      if (keepMine) {
+        saveTier1(state, conflict.mine, { source: conflict.source });
+      } else if (conflict.theirs) {
+        const theirs = conflict.theirs.tsv;
+        saveTier1Source(workspace.id, theirs);
+        patchWeeks(ws => withKnownTier2(parsePastedData(theirs, workspaceParseOptions(workspace)), ws, state), theirs);
+      }
+      return;
     }
+    if (conflict.theirs) state.tier2[conflict.label] = conflict.theirs;
+    else delete state.tier2[conflict.label];
+    if (keepMine) {
+      const mine = replaceTier2(weeks, conflict.label, conflict.mine);
+      const week = mine.find(w => w.label === conflict.label);
+      if (week) saveTier2Week(state, week, { source: conflict.source });
+    } else {
+      patchWeeks(ws => replaceTier2(ws, conflict.label, conflict.theirs?.values ?? {}));
+    }
+  };
+
+  /** Load reviewed paste data and remember the hand-fixed mappings for this workspace's next paste/sync, team-wide */
+  const handlePaste = (parsed: WeekData[], mappingOverrides: MappingOverrides) => {
+    const merged = withKnownTier2(parsed, weeks, serverRef.current);
+    const updated = { ...workspace, mappingOverrides };
+    recordWeeks(merged, 'paste', pasteText);
+    saveTier1Source(workspace.id, pasteText);
+    updateWorkspaces(workspaces.map(ws => ws.id === workspace.id ? updated : ws));
+    saveWorkspace(updated);
+    saveTier1(serverRef.current, pasteText, { source: 'paste' });
+    setError(null);
+    setReviewing(false);
+    setShowPaste(false);
+    setPasteText('');
+  };
+
+  const handleSaveMappingTemplate = (template: MappingTemplate) => {
+    const updated = [...mappingTemplates.filter(t => t.name !== template.name), template];
+    setMappingTemplates(updated);
+    saveMappingTemplates(updated);
   };
 
-  const handleSync = async () => {
+  /**
+   * Fetch the active sheet source and diff it against the saved Tier 1 data.
+   * Weeks (and so the verdict) only update when something changed; a scale-permission flip sends a notification.
+   */
+  const handleSync = async (auto: boolean) => {
+    if (!sheetSource || !editable || syncingRef.current) return;
+    syncingRef.current = true;
     setSyncing(true);
     setError(null);
     try {
-      const res = await fetch(SHEET_CSV_URL);
-      if (!res.ok) throw new Error(`Fetch failed (${res.status})`);
-      const csv = await res.text();
-      const tsv = csvToTsv(csv);
-      const parsed = parsePastedData(tsv);
-      const merged = mergeTier2(parsed);
-      setWeeks(merged);
-      localStorage.setItem(TIER1_STORAGE_KEY, tsv);
-    } catch {
-      setError('Sync blocked by CORS — use "Paste from Sheet" instead');
+      const { tsv, weeks: parsed } = await syncSheet(sheetSource, workspaceParseOptions(workspace), workspace.syncViaProxy ?? false);
+      const changes = diffWeeks(loadSavedTier1Weeks(workspace), parsed);
+      const entry: SyncLogEntry = { at: new Date().toISOString(), sourceLabel: sheetSource.label, auto, changes, permissionChange: null };
+
+      if (changes.length > 0 || weeks.length === 0) {
+        const merged = withKnownTier2(parsed, weeks, serverRef.current);
+        const from = module1Result?.scalePermission;
+        const to = config && hasTier1Data(merged) ? runModule1(merged, config).scalePermission : null;
+        if (from && to && from !== to) {
+          entry.permissionChange = { from, to };
+          notify(`${workspace.name}: scale permission ${to.replace(/_/g, ' ')}`, `Was ${from.replace(/_/g, ' ')} before the latest sheet sync.`);
+        }
+        recordWeeks(merged, 'sync', tsv);
+        saveTier1Source(workspace.id, tsv);
+        saveTier1(serverRef.current, tsv, { source: 'sync' });
+      }
+      setSyncLog(log => [entry, ...log].slice(0, SYNC_LOG_LENGTH));
+    } catch (err) {
+      setError(err instanceof SheetSyncError ? err.message : `Sync failed: ${err instanceof Error ? err.message : String(err)}`);
     } finally {
+      syncingRef.current = false;
       setSyncing(false);
     }
   };
 
+  // Opt-in periodic sync while the app is open — the ref keeps the interval on the latest handler
+  const syncRef = useRef(handleSync);
+  syncRef.current = handleSync;
+  useEffect(() => {
+    const minutes = workspace.autoSyncMinutes ?? 0;
+    if (minutes <= 0 || !sheetSource || !editable) return;
+    const timer = setInterval(() => syncRef.current(true), minutes * 60_000);
+    return () => clearInterval(timer);
+  }, [workspace.id, workspace.autoSyncMinutes, sheetSource?.id, editable]);
+
+  /** Show profile changes and keep this browser's copy of the list */
+  const updateProfiles = (updated: ThresholdProfile[]) => {
+    setProfiles(updated);
+    saveProfiles(updated);
+  };
+
+  /** Show workspace changes and keep this browser's copy of the list */
+  const updateWorkspaces = (updated: Workspace[]) => {
+    setWorkspaces(updated);
+    saveWorkspaces(updated);
+  };
+
+  /** Save a workspace's settings for the team, after any saves already queued — the last save wins */
+  const saveWorkspace = (ws: Workspace) => {
+    if (!editable) return;
+    clearTimeout(pendingWorkspaces.current.get(ws.id)?.timer);
+    pendingWorkspaces.current.delete(ws.id);
+    enqueueSave(async () => {
+      try {
+        await putWorkspace(ws);
+      } catch (err) {
+        if (signedOut(err)) return;
+        if (err instanceof ApiError && err.status > 0) setError(`Workspace settings not saved: ${err.message}`);
+        else setOffline(true);
+      }
+    });
+  };
+
+  /** saveWorkspace once editing the workspace pauses */
+  const scheduleWorkspaceSave = (ws: Workspace) => {
+    if (!editable) return;
+    clearTimeout(pendingWorkspaces.current.get(ws.id)?.timer);
+    const save = () => saveWorkspace(ws);
+    pendingWorkspaces.current.set(ws.id, { timer: setTimeout(save, WORKSPACE_SAVE_DELAY_MS), save });
+  };
+
+  const flushWorkspaceSaves = () => {
+    for (const { save } of [...pendingWorkspaces.current.values()]) save();
+  };
+
+  /** Switch workspace — weeks are swapped in the same update so Tier 2 is saved to the right place */
+  const handleSelectWorkspace = (id: string) => {
+    const next = workspaces.find(ws => ws.id === id);
+    if (!next) return;
+    setActiveWorkspaceId(id);
+    saveActiveWorkspaceId(id);
+    loadLocalWeeks(next);
+    setSyncLog([]);
+    setError(null);
+  };
+
+  /** New workspaces are created on the server, which issues the id, so they exist for the whole team */
+  const handleCreateWorkspace = async () => {
+    let created: Workspace;
+    try {
+      created = await postWorkspace({
+        name: `Workspace ${workspaces.length + 1}`,
+        currency: workspace.currency,
+        marketFlag: '',
+        sheetSources: [],
+        profileName: workspace.profileName,
+      });
+    } catch (err) {
+      setError(`Workspace not created: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    updateWorkspaces([...workspaces, created]);
+    setActiveWorkspaceId(created.id);
+    saveActiveWorkspaceId(created.id);
+    loadWeeks([], '');
+    setShowWorkspace(true);
+  };
+
+  const handleUpdateWorkspace = (updated: Workspace) => {
+    updateWorkspaces(workspaces.map(ws => ws.id === updated.id ? updated : ws));
+    scheduleWorkspaceSave(updated);
+    // Re-parse if the market filter or row rules changed
+    if (updated.marketFlag !== workspace.marketFlag || updated.mappingRules !== workspace.mappingRules) {
+      loadLocalWeeks(updated);
+    }
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const updated = workspaces.filter(ws => ws.id !== id);
+    if (updated.length === 0) return;
+    clearTimeout(pendingWorkspaces.current.get(id)?.timer);
+    pendingWorkspaces.current.delete(id);
+    try {
+      await deleteWorkspace(id);
+    } catch (err) {
+      setError(`Workspace not deleted: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    updateWorkspaces(updated);
+    deleteWorkspaceData(id);
+    setActiveWorkspaceId(updated[0].id);
+    saveActiveWorkspaceId(updated[0].id);
+    loadLocalWeeks(updated[0]);
+  };
+
+  const handleSelectProfile = (name: string) => {
+    handleUpdateWorkspace({ ...workspace, profileName: name });
+  };
+
+  /** Profiles are the team's — saved to the server like workspace settings, the last save winning */
+  const handleSaveProfile = (profile: ThresholdProfile) => {
+    const exists = profiles.some(p => p.name === profile.name);
+    updateProfiles(exists ? profiles.map(p => p.name === profile.name ? profile : p) : [...profiles, profile]);
+    enqueueSave(async () => {
+      try {
+        await putProfile(profile);
+      } catch (err) {
+        if (signedOut(err)) return;
+        if (err instanceof ApiError && err.status > 0) setError(`Profile "${profile.name}" not saved: ${err.message}`);
+        else setOffline(true);
+      }
+    });
+  };
+
+  /** Workspaces still using a deleted profile keep its name and show it as missing until someone picks another */
+  const handleDeleteProfile = async (name: string) => {
+    try {
+      await deleteProfile(name);
+    } catch (err) {
+      setError(`Profile not deleted: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    updateProfiles(profiles.filter(p => p.name !== name));
+  };
+
   const module1Result = useMemo(() => {
-    const hasData = weeks.some(w => w.adSpend != null || w.cmActual != null || w.countActual != null);
-    if (!hasData) return null;
-    return runModule1(weeks);
-  }, [weeks]);
+    if (!config || !hasTier1Data(weeks)) return null;
+    return runModule1(weeks, config);
+  }, [weeks, config]);
+
+  const verdictHistory = useMemo(() => config ? runVerdictHistory(weeks, config) : [], [weeks, config]);
 
   const module2Result = useMemo(() => {
-    if (!module1Result) return null;
-    return runModule2(module1Result);
-  }, [module1Result]);
+    if (!module1Result || !config) return null;
+    return runModule2(module1Result, config);
+  }, [module1Result, config]);
 
-  if (!authed) {
-    return <PasswordGate onAuth={() => setAuthed(true)} />;
+  if (!session) {
+    // Messages from before a sign-out don't carry over to the next session
+    return <LoginScreen onLogin={next => { setError(null); setSession(next); }} />;
   }
 
   return (
@@ -139,27 +631,188 @@ export default function App() {
             {error && (
               <span className="text-xs text-red-400 mr-2">{error}</span>
             )}
+            {offline && (
+              <span className="text-xs text-yellow-500 mr-2" title="Changes are kept in this browser until the server is back">
+                Server unreachable — showing this browser's copy
+              </span>
+            )}
+            {weeks.length > 0 && (
+              <div className="flex">
+                <button
+                  onClick={() => handleUndoRedo('undo')}
+                  disabled={history.past.length === 0}
+                  title={history.present.source ? `Undo ${CHANGE_SOURCE_LABELS[history.present.source].toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+                  className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-2 py-1.5 rounded-l transition-colors disabled:opacity-40"
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={() => handleUndoRedo('redo')}
+                  disabled={history.future.length === 0}
+                  title={history.future[0]?.source ? `Redo ${CHANGE_SOURCE_LABELS[history.future[0].source].toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-2 py-1.5 rounded-r border-l border-gray-700 transition-colors disabled:opacity-40"
+                >
+                  Redo ↷
+                </button>
+              </div>
+            )}
+            <select
+              value={workspace.id}
+              onChange={e => e.target.value === '__new' ? handleCreateWorkspace() : handleSelectWorkspace(e.target.value)}
+              className="text-xs bg-gray-800 border border-gray-700 text-gray-300 px-2 py-1.5 rounded focus:outline-none focus:border-red-500"
+            >
+              {workspaces.map(ws => (
+                <option key={ws.id} value={ws.id}>{ws.marketFlag} {ws.name} ({ws.currency})</option>
+              ))}
+              {editable && <option value="__new">+ New workspace…</option>}
+            </select>
+            {editable && (
+              <button
+                onClick={() => setShowWorkspace(!showWorkspace)}
+                className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+              >
+                {showWorkspace ? 'Close Workspace' : 'Workspace'}
+              </button>
+            )}
+            <button
+              onClick={() => setShowOverview(!showOverview)}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+            >
+              {showOverview ? 'Close Overview' : 'Overview'}
+            </button>
+            {editable && (
+              <button
+                onClick={() => handleSync(false)}
+                disabled={syncing || !sheetSource}
+                title={sheetSource ? `Sync ${sheetSource.label}` : 'Add a sheet source in Workspace settings'}
+                className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-50"
+              >
+                {syncing ? 'Syncing…' : 'Sync from Sheet'}
+                {!syncing && (workspace.autoSyncMinutes ?? 0) > 0 && <span className="ml-1 text-red-200">· auto {workspace.autoSyncMinutes}m</span>}
+              </button>
+            )}
+            {module1Result && (
+              <ReportMenu title={workspace.name} currency={workspace.currency} module1={module1Result} module2={module2Result} />
+            )}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+            >
+              History
+            </button>
+            <button
+              onClick={() => setShowAnalyses(!showAnalyses)}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+            >
+              {showAnalyses ? 'Close Snapshots' : 'Snapshots'}
+            </button>
             <button
-              onClick={handleSync}
-              disabled={syncing}
-              className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-50"
+              onClick={() => setShowScenarios(!showScenarios)}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
             >
-              {syncing ? 'Syncing…' : 'Sync from Sheet'}
+              {showScenarios ? 'Close What-If' : 'What-If'}
             </button>
             <button
-              onClick={() => setShowPaste(!showPaste)}
+              onClick={() => setShowConfig(!showConfig)}
               className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
             >
-              {showPaste ? 'Cancel' : 'Paste from Sheet'}
+              {showConfig ? 'Close Thresholds' : `Thresholds: ${workspace.profileName}${activeProfile ? '' : ' (missing)'}`}
+            </button>
+            {editable && (
+              <button
+                onClick={() => { setShowPaste(!showPaste); setReviewing(false); }}
+                className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+              >
+                {showPaste ? 'Cancel' : 'Paste / Upload'}
+              </button>
+            )}
+            <span className="text-xs text-gray-500 ml-2" title={`Signed in as ${session.user.role}`}>
+              {session.user.username}{!editable && <span className="ml-1 text-yellow-600">(view only)</span>}
+            </span>
+            <button
+              onClick={handleLogout}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+            >
+              Log Out
             </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-[1800px] mx-auto px-4 py-6 space-y-6">
-        {showPaste && (
+        <ConflictBanner
+          conflicts={conflicts}
+          onKeepMine={c => resolveConflict(c, true)}
+          onUseTheirs={c => resolveConflict(c, false)}
+        />
+
+        {!activeProfile && (
+          <div className="p-3 bg-yellow-900/20 border border-yellow-800 rounded text-xs text-yellow-300/80">
+            <span className="font-bold text-yellow-400">Threshold profile "{workspace.profileName}" is missing.</span>{' '}
+            It was deleted, or not shared with the team. No verdict is shown rather than one on other thresholds —{' '}
+            {editable ? 'pick a profile for this workspace under Thresholds.' : 'ask an editor to pick a profile for this workspace.'}
+          </div>
+        )}
+
+        {syncLog.length > 0 && <SyncChangelog entries={syncLog} onDismiss={() => setSyncLog([])} />}
+
+        {showAnalyses && (
+          <SavedAnalyses
+            workspaceId={workspace.id}
+            profileName={workspace.profileName}
+            currency={workspace.currency}
+            weeks={weeks}
+            module1={module1Result}
+            module2={module2Result}
+            canSave={editable}
+          />
+        )}
+
+        {showOverview && (
+          <WorkspaceOverview
+            workspaces={workspaces}
+            profiles={profiles}
+            activeId={workspace.id}
+            onOpen={id => { handleSelectWorkspace(id); setShowOverview(false); }}
+          />
+        )}
+
+        {showWorkspace && editable && (
+          <WorkspaceEditor
+            workspace={workspace}
+            profiles={profiles}
+            canDelete={workspaces.length > 1}
+            onChange={handleUpdateWorkspace}
+            onDelete={handleDeleteWorkspace}
+          />
+        )}
+
+        {showConfig && (
+          <ConfigEditor
+            profiles={profiles}
+            activeName={workspace.profileName}
+            readOnly={!editable}
+            onSelect={handleSelectProfile}
+            onSave={handleSaveProfile}
+            onDelete={handleDeleteProfile}
+          />
+        )}
+
+        {showPaste && editable && reviewing && (
+          <ParsePreview
+            text={pasteText}
+            options={workspaceParseOptions(workspace)}
+            templates={mappingTemplates}
+            onCommit={handlePaste}
+            onSaveTemplate={handleSaveMappingTemplate}
+            onCancel={() => setReviewing(false)}
+          />
+        )}
+
+        {showPaste && editable && !reviewing && (
           <div className="bg-gray-900 rounded-lg border border-gray-800 p-4 space-y-3">
-            <p className="text-xs text-gray-400">Select the full table in Google Sheets (including headers), copy, and paste below.</p>
+            <FileDrop onLoad={tsv => { setPasteText(tsv); setReviewing(true); }} />
+            <p className="text-xs text-gray-400">Or select the full table in Google Sheets (including headers), copy, and paste below.</p>
             <textarea
               value={pasteText}
               onChange={e => setPasteText(e.target.value)}
@@ -167,35 +820,68 @@ export default function App() {
               className="w-full h-48 bg-gray-800 border border-gray-700 rounded p-3 text-xs text-gray-300 font-mono focus:outline-none focus:border-red-500 resize-y"
             />
             <button
-              onClick={handlePaste}
+              onClick={() => setReviewing(true)}
               disabled={!pasteText.trim()}
               className="text-xs bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded transition-colors disabled:opacity-50"
             >
-              Load Data
+              Review Mapping
             </button>
           </div>
         )}
 
         {weeks.length > 0 ? (
           <>
-            <DataInput weeks={weeks} onChange={setWeeks} />
+            <DataInput weeks={weeks} currency={workspace.currency} issues={module1Result?.dataIssues ?? []} onChange={handleTier2Change} />
 
-            {module1Result && (
+            {module1Result && config && (
               <>
-                <Module1 result={module1Result} />
-                {module2Result && <Module2 result={module2Result} weeks={weeks} onChange={setWeeks} />}
+                <Module1 result={module1Result} config={config} currency={workspace.currency} history={verdictHistory} />
+                {showScenarios && (
+                  <ScenarioPanel
+                    key={workspace.id}
+                    weeks={weeks}
+                    config={config}
+                    currency={workspace.currency}
+                    workspaceId={workspace.id}
+                    baseline={module1Result}
+                    baselineFunnel={module2Result}
+                  />
+                )}
+                {module2Result && (
+                  <Module2
+                    result={module2Result}
+                    weeks={weeks}
+                    calculatedWeeks={module1Result.weeks}
+                    config={config}
+                    currency={workspace.currency}
+                    issues={module1Result.dataIssues}
+                    readOnly={!editable}
+                    onChange={handleTier2Change}
+                  />
+                )}
               </>
             )}
           </>
         ) : (
           !showPaste && (
             <div className="bg-gray-900 rounded-lg border border-gray-800 p-8 text-center">
-              <p className="text-gray-500 text-sm">No data loaded. Click "Paste from Sheet" to import your Traction Scorecard.</p>
+              <p className="text-gray-500 text-sm">
+                {editable ? 'No data loaded. Click "Paste / Upload" to import your Traction Scorecard.' : 'No data loaded yet — ask an editor to import the Traction Scorecard.'}
+              </p>
             </div>
           )
         )}
       </main>
 
+      {showHistory && (
+        <HistoryDrawer
+          workspaceId={workspace.id}
+          weekLabels={weeks.map(w => w.label)}
+          revision={auditRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       <footer className="border-t border-gray-800 mt-12">
         <div className="max-w-7xl mx-auto px-4 py-4">
           <p className="text-[10px] text-gray-600">Math-first. Skeptical. Anti-attribution. No storytelling. No scaling broken economics.</p>
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { apiFetch, setApiToken, onSessionRejected, ApiError } from './api';
+
+function stubFetch(status: number, body: unknown) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  onSessionRejected(null);
+  setApiToken(null);
+});
+
+describe('onSessionRejected', () => {
+  it('is told when the server answers a signed-in request with 401', async () => {
+    const rejected = vi.fn();
+    onSessionRejected(rejected);
+    setApiToken('stale');
+    stubFetch(401, { error: 'Sign in to continue' });
+
+    await expect(apiFetch('/workspaces')).rejects.toMatchObject({ status: 401, message: 'Sign in to continue' });
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('is not told about a failed sign-in or other errors', async () => {
+    const rejected = vi.fn();
+    onSessionRejected(rejected);
+    stubFetch(401, { error: 'Incorrect username or password' });
+    await expect(apiFetch('/auth/login', { method: 'POST', body: {} })).rejects.toBeInstanceOf(ApiError);
+
+    setApiToken('live');
+    stubFetch(403, { error: 'Editors only' });
+    await expect(apiFetch('/workspaces', { method: 'POST', body: {} })).rejects.toMatchObject({ status: 403 });
+    expect(rejected).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import type { WeekData, Workspace, ThresholdProfile, WorkspaceData, Tier1Record, Tier2Entry, SavedAnalysis, AuditContext, AuditEntry } from './types';
+
+/** Local API (server/) — `npm run dev` proxies /api to it */
+export const API_BASE = '/api';
+
+/** Non-2xx API response; the server's {"error": "..."} text is the message, other body fields are details */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly details: Record<string, unknown>;
+
+  constructor(status: number, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/** 409 from a versioned save — `current` is the record someone else saved first */
+export function conflictRecord<T>(err: unknown): T | null | undefined {
+  if (!(err instanceof ApiError) || err.status !== 409) return undefined;
+  return (err.details.current ?? null) as T | null;
+}
+
+let sessionToken: string | null = null;
+
+/** Bearer token sent with every API request — set by sign-in, cleared by sign-out */
+export function setApiToken(token: string | null) {
+  sessionToken = token;
+}
+
+let sessionRejected: (() => void) | null = null;
+
+/** Called when the server turns down the session token — revoked, expired, or lost in a server restart */
+export function onSessionRejected(handler: (() => void) | null) {
+  sessionRejected = handler;
+}
+
+export function authHeaders(): Record<string, string> {
+  return sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {};
+}
+
+/** Call the local API with the session token; JSON in, JSON out (undefined for 204) */
+export async function apiFetch<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}${path}`, {
+      method: init.method ?? 'GET',
+      headers: {
+        ...authHeaders(),
+        ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+  } catch {
+    throw new ApiError(0, 'Could not reach the server — is `npm run server` running?');
+  }
+
+  if (res.status === 401 && sessionToken) sessionRejected?.();
+  if (res.status === 204) return undefined as T;
+  const body = await res.json().catch(() => null) as ({ error?: unknown } & T) | null;
+  if (!res.ok) {
+    const { error, ...details } = body ?? {};
+    throw new ApiError(res.status, typeof error === 'string' ? error : `Request failed with HTTP ${res.status}`, details);
+  }
+  return body as T;
+}
+
+const workspacePath = (workspaceId: string) => `/workspaces/${encodeURIComponent(workspaceId)}`;
+
+export function fetchWorkspaces(): Promise<Workspace[]> {
+  return apiFetch('/workspaces');
+}
+
+/** Create a workspace; the server issues its id */
+export function postWorkspace(definition: Omit<Workspace, 'id'>): Promise<Workspace> {
+  return apiFetch('/workspaces', { method: 'POST', body: definition });
+}
+
+/** Save a workspace's settings, mapping rules and overrides for the whole team */
+export function putWorkspace(workspace: Workspace): Promise<Workspace> {
+  const { id, ...definition } = workspace;
+  return apiFetch(workspacePath(id), { method: 'PUT', body: definition });
+}
+
+/** Delete a workspace and its team data */
+export function deleteWorkspace(workspaceId: string): Promise<void> {
+  return apiFetch(workspacePath(workspaceId), { method: 'DELETE' });
+}
+
+/** The team's threshold profiles — the built-in Default is not among them */
+export function fetchProfiles(): Promise<ThresholdProfile[]> {
+  return apiFetch('/profiles');
+}
+
+/** Create or replace a threshold profile for the whole team */
+export function putProfile(profile: ThresholdProfile): Promise<ThresholdProfile> {
+  return apiFetch(`/profiles/${encodeURIComponent(profile.name)}`, { method: 'PUT', body: { config: profile.config } });
+}
+
+/** Delete a team profile; workspaces that use it show it as missing until they pick another */
+export function deleteProfile(name: string): Promise<void> {
+  return apiFetch(`/profiles/${encodeURIComponent(name)}`, { method: 'DELETE' });
+}
+
+export function fetchWorkspaceData(workspaceId: string): Promise<WorkspaceData> {
+  return apiFetch(`${workspacePath(workspaceId)}/data`);
+}
+
+/** Save the Tier 1 source; the server logs what changed, with `audit` and its own verdict after the save. 409 (see conflictRecord) if it changed since `baseVersion`. */
+export function putTier1(workspaceId: string, tsv: string, baseVersion: number, audit: AuditContext): Promise<Tier1Record> {
+  return apiFetch(`${workspacePath(workspaceId)}/tier1`, { method: 'PUT', body: { tsv, baseVersion, audit } });
+}
+
+/** Save one week's Tier 2 values, logged like putTier1; 409 (see conflictRecord) if the week changed since `baseVersion` */
+export function putTier2Week(
+  workspaceId: string, label: string, values: Partial<WeekData>, baseVersion: number, audit: AuditContext,
+): Promise<Tier2Entry> {
+  return apiFetch(`${workspacePath(workspaceId)}/tier2/${encodeURIComponent(label)}`, { method: 'PUT', body: { values, baseVersion, audit } });
+}
+
+/** The workspace's change log, newest first — all weeks, or one */
+export function fetchAuditLog(workspaceId: string, weekLabel: string | null = null): Promise<AuditEntry[]> {
+  const query = weekLabel == null ? '' : `?week=${encodeURIComponent(weekLabel)}`;
+  return apiFetch(`${workspacePath(workspaceId)}/audit${query}`);
+}
+
+export function fetchAnalyses(workspaceId: string): Promise<SavedAnalysis[]> {
+  return apiFetch(`${workspacePath(workspaceId)}/analyses`);
+}
+
+export function postAnalysis(workspaceId: string, analysis: Omit<SavedAnalysis, 'id' | 'createdBy' | 'createdAt'>): Promise<SavedAnalysis> {
+  return apiFetch(`${workspacePath(workspaceId)}/analyses`, { method: 'POST', body: analysis });
+}
@@ -0,0 +1,70 @@
+import type { AuthUser } from './types';
+import { apiFetch, setApiToken, onSessionRejected, ApiError } from './api';
+
+const SESSION_STORAGE_KEY = 'economic-governor-session';
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+  expiresAt: number; // ms epoch
+}
+
+function saveSession(session: AuthSession | null) {
+  setApiToken(session?.token ?? null);
+  if (session) localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+/** The stored session if it has not expired — the server still has the final say (see verifySession) */
+export function loadSession(): AuthSession | null {
+  try {
+    const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session: AuthSession | null = saved ? JSON.parse(saved) : null;
+    if (session && session.expiresAt > Date.now()) {
+      setApiToken(session.token);
+      return session;
+    }
+  } catch { /* corrupt storage */ }
+  saveSession(null);
+  return null;
+}
+
+export async function login(username: string, password: string): Promise<AuthSession> {
+  const session = await apiFetch<AuthSession>('/auth/login', { method: 'POST', body: { username, password } });
+  saveSession(session);
+  return session;
+}
+
+export async function logout() {
+  try {
+    await apiFetch<void>('/auth/logout', { method: 'POST' });
+  } finally {
+    saveSession(null);
+  }
+}
+
+/**
+ * Confirm the stored session with the server; false (and signed out) if it was revoked or expired.
+ * An unreachable server keeps the local session until it expires.
+ */
+export async function verifySession(): Promise<boolean> {
+  try {
+    await apiFetch<{ user: AuthUser }>('/auth/session');
+    return true;
+  } catch (err) {
+    if (!(err instanceof ApiError) || err.status !== 401) return true;
+    saveSession(null);
+    return false;
+  }
+}
+
+/** Sign out as soon as any API call gets a 401 for the session token; returns the unsubscribe */
+export function watchSession(onSignedOut: () => void): () => void {
+  onSessionRejected(() => {
+    saveSession(null);
+    onSignedOut();
+  });
+  return () => onSessionRejected(null);
+}
+
+export const canEdit = (user: AuthUser | undefined) => user?.role === 'editor';
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import type { CmBridge, CmBridgeEffects } from '../types';
+import { formatMoney } from '../currency';
+
+interface Props {
+  bridge: CmBridge;
+  currency: string;
+}
+
+interface Bar {
+  label: string;
+  from: number;
+  to: number;
+  kind: 'total' | 'effect';
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 24, right: 12, bottom: 28, left: 12 };
+
+function toBars(e: CmBridgeEffects): Bar[] {
+  const bars: Bar[] = [{ label: 'Forecast CM', from: 0, to: e.forecastCm, kind: 'total' }];
+  let running = e.forecastCm;
+  for (const [label, value] of [['Volume', e.volume], ['AOV', e.aov], ['CAC', e.cac], ['Residual', e.residual]] as const) {
+    bars.push({ label, from: running, to: running + value, kind: 'effect' });
+    running += value;
+  }
+  bars.push({ label: 'Actual CM', from: 0, to: e.actualCm, kind: 'total' });
+  return bars;
+}
+
+export default function CmWaterfall({ bridge, currency }: Props) {
+  const [selected, setSelected] = useState<'cumulative' | number>('cumulative');
+  const effects = selected === 'cumulative'
+    ? bridge.cumulative
+    : bridge.weeks.find(w => w.weekNum === selected) ?? bridge.cumulative;
+
+  const bars = toBars(effects);
+  const values = bars.flatMap(b => [b.from, b.to]);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const y = (v: number) => PAD.top + ((max - v) / range) * plotH;
+  const slot = (WIDTH - PAD.left - PAD.right) / bars.length;
+  const barW = slot * 0.6;
+
+  return (
+    <div className="mx-4 mb-4 p-3 bg-gray-800/50 rounded">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-xs text-gray-500">CM Variance Bridge — Forecast → Actual</div>
+        <select
+          value={selected}
+          onChange={e => setSelected(e.target.value === 'cumulative' ? 'cumulative' : Number(e.target.value))}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+        >
+          <option value="cumulative">Cumulative ({bridge.weeks.length} weeks)</option>
+          {bridge.weeks.map(w => (
+            <option key={w.weekNum} value={w.weekNum}>{w.label || `WK ${w.weekNum}`}</option>
+          ))}
+        </select>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-3xl" role="img" aria-label="CM variance waterfall">
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#4b5563" strokeDasharray="3 3" />
+        {bars.map((b, i) => {
+          const x = PAD.left + i * slot + (slot - barW) / 2;
+          const top = y(Math.max(b.from, b.to));
+          const h = Math.max(1, Math.abs(y(b.from) - y(b.to)));
+          const delta = b.to - b.from;
+          const fill = b.kind === 'total' ? '#6b7280' : delta >= 0 ? '#16a34a' : '#dc2626';
+          const shown = b.kind === 'total' ? b.to : delta;
+          return (
+            <g key={b.label}>
+              <rect x={x} y={top} width={barW} height={h} fill={fill} rx={2} />
+              {i < bars.length - 1 && (
+                <line x1={x + barW} x2={x + slot} y1={y(b.to)} y2={y(b.to)} stroke="#6b7280" strokeWidth={1} />
+              )}
+              <text x={x + barW / 2} y={top - 6} textAnchor="middle" fontSize={11} fill="#d1d5db">
+                {b.kind === 'effect' && shown > 0 ? '+' : ''}{formatMoney(shown, currency)}
+              </text>
+              <text x={x + barW / 2} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill="#9ca3af">{b.label}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import type { GovernorConfig, ThresholdProfile } from '../types';
+import { DEFAULT_PROFILE_NAME } from '../data/defaultConfig';
+
+interface Props {
+  profiles: ThresholdProfile[];
+  activeName: string; // the workspace's profile — may name one that was deleted
+  readOnly: boolean;
+  onSelect: (name: string) => void;
+  onSave: (profile: ThresholdProfile) => void;
+  onDelete: (name: string) => void;
+}
+
+interface FieldDef {
+  key: keyof GovernorConfig;
+  label: string;
+  prefix?: string;
+  suffix?: string;
+  section?: string;
+}
+
+const CONFIG_FIELDS: FieldDef[] = [
+  { key: 'volumeProblemPva', label: 'Volume problem below count PvA', suffix: '%', section: 'Module 1 — Economic Governor' },
+  { key: 'volumeLookbackWeeks', label: 'Volume lookback (weeks)' },
+  { key: 'cmProblemMultiple', label: 'CM problem at unit CM worse than plan ×', suffix: 'x' },
+  { key: 'mirageCmPva', label: 'CM Mirage — CM PvA above', suffix: '%' },
+  { key: 'mirageCountPva', label: 'CM Mirage — count PvA below', suffix: '%' },
+  { key: 'spendOrderTolerance', label: 'Spend vs orders tolerance', suffix: 'pp', section: 'Module 2 — Funnel Diagnostician' },
+  { key: 'cpmCeiling', label: 'CPM ceiling', prefix: '$' },
+  { key: 'ctrFail', label: 'CTR fail below', suffix: '%' },
+  { key: 'ctrWarn', label: 'CTR warning below', suffix: '%' },
+  { key: 'frequencyWarn', label: 'Frequency warning above' },
+  { key: 'frequencyFail', label: 'Frequency fail above' },
+  { key: 'clickSessionWarn', label: 'Click/session warning above' },
+  { key: 'clickSessionFail', label: 'Click/session fail above' },
+  { key: 'cvrFail', label: 'CVR fail below', suffix: '%' },
+  { key: 'cvrWarn', label: 'CVR warning below', suffix: '%' },
+  { key: 'ncCountPass', label: 'NC count pass at PvA', suffix: '%' },
+  { key: 'ncCountWarn', label: 'NC count warning at PvA', suffix: '%' },
+  { key: 'unitCmFail', label: 'Unit CM fail at or below', prefix: '$' },
+  { key: 'pvaGreen', label: 'PvA green at', suffix: '%', section: 'PvA Colour Bands' },
+  { key: 'pvaYellow', label: 'PvA yellow at', suffix: '%' },
+  { key: 'cacPvaGreen', label: 'CAC PvA green up to', suffix: '%' },
+  { key: 'cacPvaYellow', label: 'CAC PvA yellow up to', suffix: '%' },
+  { key: 'pvaCrossCheckTolerance', label: 'Sheet PvA may differ from computed by', suffix: 'pp', section: 'Data Checks' },
+  { key: 'cacSpendTolerance', label: 'CAC × count may differ from ad spend by', suffix: '%' },
+  { key: 'aovJumpMultiple', label: 'Flag week-over-week AOV change beyond ×', suffix: 'x' },
+];
+
+/** A threshold as typed — blank or non-numeric text is null */
+function parseThreshold(raw: string): number | null {
+  const val = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(val) ? val : null;
+}
+
+export default function ConfigEditor({ profiles, activeName, readOnly, onSelect, onSave, onDelete }: Props) {
+  const missing = !profiles.some(p => p.name === activeName);
+  // A missing profile's thresholds are gone — start from the first profile's to pick or save a replacement
+  const active = profiles.find(p => p.name === activeName) ?? profiles[0];
+  const [draft, setDraft] = useState<GovernorConfig>(active.config);
+  // Text of fields being edited, so a value can be cleared and retyped; checked when the field loses focus
+  const [typed, setTyped] = useState<Partial<Record<keyof GovernorConfig, string>>>({});
+  const [invalid, setInvalid] = useState<Set<keyof GovernorConfig>>(new Set());
+  const [saveName, setSaveName] = useState('');
+  const isDefault = active.name === DEFAULT_PROFILE_NAME;
+
+  const resetDraft = () => {
+    setDraft(active.config);
+    setTyped({});
+    setInvalid(new Set());
+  };
+
+  // Reset the draft whenever a different profile is selected
+  useEffect(resetDraft, [active]);
+
+  const updateField = (key: keyof GovernorConfig, raw: string) => {
+    setTyped({ ...typed, [key]: raw });
+    setInvalid(keys => new Set([...keys].filter(k => k !== key)));
+    const val = parseThreshold(raw);
+    if (val != null) setDraft({ ...draft, [key]: val });
+  };
+
+  const validateField = (key: keyof GovernorConfig) => {
+    const raw = typed[key];
+    if (raw == null) return;
+    if (parseThreshold(raw) == null) {
+      setInvalid(keys => new Set(keys).add(key));
+      return;
+    }
+    const { [key]: _, ...rest } = typed;
+    setTyped(rest);
+  };
+
+  const dirty = CONFIG_FIELDS.some(f => draft[f.key] !== active.config[f.key]);
+  const hasErrors = CONFIG_FIELDS.some(f => typed[f.key] != null && parseThreshold(typed[f.key]!) == null);
+  const newName = saveName.trim();
+  const overwrites = newName !== active.name && profiles.some(p => p.name === newName);
+
+  const handleSaveAs = () => {
+    const name = saveName.trim();
+    if (!name || name === DEFAULT_PROFILE_NAME || hasErrors) return;
+    onSave({ name, config: draft });
+    onSelect(name);
+    setSaveName('');
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <div>
+          <h2 className="text-lg font-bold text-white">Threshold Profiles</h2>
+          <p className="text-xs text-gray-500 mt-0.5">Decision lines used by both engines. One brand's economics should not set another's limits.</p>
+        </div>
+        <select
+          value={activeName}
+          disabled={readOnly}
+          onChange={e => onSelect(e.target.value)}
+          className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+        >
+          {missing && <option value={activeName} disabled>{activeName} (missing)</option>}
+          {profiles.map(p => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-x-6 gap-y-2">
+        {CONFIG_FIELDS.map(field => (
+          <div key={field.key} className={field.section ? 'col-span-full pt-2' : ''}>
+            {field.section && (
+              <div className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2">{field.section}</div>
+            )}
+            <label className="flex items-center justify-between gap-3 text-xs text-gray-400 md:max-w-md">
+              <span>{field.label}</span>
+              <span className="flex items-center gap-1">
+                {field.prefix && <span className="text-gray-600">{field.prefix}</span>}
+                <input
+                  type="number"
+                  step="any"
+                  value={typed[field.key] ?? draft[field.key]}
+                  onChange={e => updateField(field.key, e.target.value)}
+                  onBlur={() => validateField(field.key)}
+                  readOnly={readOnly}
+                  title={invalid.has(field.key) ? 'Enter a number' : undefined}
+                  className={`w-24 bg-gray-800 border rounded px-2 py-1 text-xs text-right text-white focus:outline-none focus:border-red-500 ${
+                    invalid.has(field.key) ? 'border-red-500' : 'border-gray-700'
+                  }`}
+                />
+                {field.suffix && <span className="text-gray-600 w-4">{field.suffix}</span>}
+              </span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2 px-4 pb-4">
+          {!isDefault && (
+            <button
+              onClick={() => onSave({ name: active.name, config: draft })}
+              disabled={!dirty || hasErrors}
+              className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-50"
+            >
+              Save "{active.name}"
+            </button>
+          )}
+          <input
+            type="text"
+            value={saveName}
+            onChange={e => setSaveName(e.target.value)}
+            placeholder="New profile name"
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+          />
+          <button
+            onClick={handleSaveAs}
+            disabled={!newName || newName === DEFAULT_PROFILE_NAME || hasErrors}
+            className={`text-xs px-3 py-1.5 rounded transition-colors disabled:opacity-50 ${
+              overwrites ? 'bg-yellow-700 hover:bg-yellow-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-400'
+            }`}
+          >
+            {overwrites ? `Overwrite "${newName}"` : 'Save as New'}
+          </button>
+          {overwrites && <span className="text-xs text-yellow-500">A profile with this name exists</span>}
+          {hasErrors && <span className="text-xs text-red-400">Fix the highlighted thresholds to save</span>}
+          {(dirty || Object.keys(typed).length > 0) && (
+            <button
+              onClick={resetDraft}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+            >
+              Discard Changes
+            </button>
+          )}
+          {!isDefault && (
+            <button
+              onClick={() => onDelete(active.name)}
+              className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-red-400 px-3 py-1.5 rounded transition-colors ml-auto"
+            >
+              Delete Profile
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import type { WeekData } from '../types';
+import { conflictKey, type DataConflict } from '../teamSync';
+
+interface Props {
+  conflicts: DataConflict[];
+  onKeepMine: (conflict: DataConflict) => void;
+  onUseTheirs: (conflict: DataConflict) => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof WeekData, string>> = {
+  cpm: 'CPM',
+  ctr: 'CTR',
+  cpc: 'CPC',
+  frequency: 'Frequency',
+  metaClicks: 'Meta Clicks',
+  shopifySessions: 'Sessions',
+  cvr: 'CVR',
+};
+
+function describeValues(values: Partial<WeekData> | undefined): string {
+  const parts = Object.entries(values ?? {})
+    .filter(([, v]) => v != null)
+    .map(([key, v]) => `${FIELD_LABELS[key as keyof WeekData] ?? key} ${v}`);
+  return parts.length > 0 ? parts.join(', ') : 'empty';
+}
+
+const time = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Saves the server rejected because a teammate saved the same data first */
+export default function ConflictBanner({ conflicts, onKeepMine, onUseTheirs }: Props) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-4 space-y-3">
+      <div className="text-sm font-bold text-yellow-300">Edit conflicts — someone else saved first</div>
+      {conflicts.map(c => {
+        const who = c.theirs ? `${c.theirs.updatedBy} at ${time(c.theirs.updatedAt)}` : 'someone else';
+        return (
+          <div key={conflictKey(c)} className="flex flex-wrap items-center gap-3 text-xs">
+            <div className="flex-1 min-w-[300px] text-gray-300">
+              {c.kind === 'tier1' ? (
+                <>Tier 1 data was replaced by {who}. Keeping yours overwrites their paste/sync.</>
+              ) : (
+                <>
+                  <span className="font-medium text-white">{c.label}</span> Tier 2 was changed by {who}.{' '}
+                  <span className="text-gray-500">Theirs:</span> {describeValues(c.theirs?.values)} ·{' '}
+                  <span className="text-gray-500">Yours:</span> {describeValues(c.mine)}
+                </>
+              )}
+            </div>
+            <button
+              onClick={() => onUseTheirs(c)}
+              className="bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1.5 rounded transition-colors"
+            >
+              Use Theirs
+            </button>
+            <button
+              onClick={() => onKeepMine(c)}
+              className="bg-yellow-700 hover:bg-yellow-600 text-white px-3 py-1.5 rounded transition-colors"
+            >
+              Keep Mine
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
-import type { WeekData } from '../types';
+import type { WeekData, DataIssue, IssueSeverity } from '../types';
+import { currencySymbol } from '../currency';
+import { issuesByCell, cellKey, worstSeverity } from '../logic/dataValidator';
 
 interface Props {
   weeks: WeekData[];
+  currency: string;
+  issues: DataIssue[];
   onChange: (weeks: WeekData[]) => void;
 }
 
@@ -15,6 +19,8 @@ interface RowDef {
 }
 
 const TIER1_ROWS: RowDef[] = [
+  { key: 'netSalesForecast', label: 'Net Sales Forecast', prefix: '$', tier: 1, section: 'Net Sales' },
+  { key: 'netSalesActual', label: 'Net Sales Actuals', prefix: '$', tier: 1 },
   { key: 'adSpend', label: 'Ad Spend Meta USD', prefix: '$', tier: 1, section: 'Ad Spend' },
   { key: 'cmForecast', label: '1st Order CM Forecast', prefix: '$', tier: 1, section: '1st Order CM' },
   { key: 'cmActual', label: '1st Order CM Actuals', prefix: '$', tier: 1 },
@@ -26,11 +32,21 @@ const TIER1_ROWS: RowDef[] = [
   { key: 'cacActual', label: 'CAC Actuals', prefix: '$', tier: 1 },
 ];
 
-export default function DataInput({ weeks, onChange }: Props) {
+const issueStyles: Record<IssueSeverity, string> = {
+  critical: 'border-red-600 bg-red-900/30',
+  warning: 'border-yellow-600 bg-yellow-900/20',
+  info: 'border-blue-800',
+};
+
+export default function DataInput({ weeks, currency, issues, onChange }: Props) {
+  const symbol = currencySymbol(currency);
+
+  const cellIssues = issuesByCell(issues);
+  const counts = (severity: IssueSeverity) => issues.filter(i => i.severity === severity).length;
 
   const updateCell = (weekIdx: number, key: keyof WeekData, raw: string) => {
     const updated = [...weeks];
-    const val = raw === '' ? null : parseFloat(raw.replace(/[$,%]/g, ''));
+    const val = raw === '' ? null : parseFloat(raw.replace(/[^\d.-]/g, ''));
     updated[weekIdx] = { ...updated[weekIdx], [key]: isNaN(val as number) ? null : val };
     onChange(updated);
   };
@@ -39,7 +55,8 @@ export default function DataInput({ weeks, onChange }: Props) {
     if (val == null) return '';
     const num = prefix === '$' ? Math.abs(val).toFixed(0) : val.toString();
     const sign = val < 0 ? '-' : '';
-    return `${sign}${prefix ?? ''}${num}${suffix ?? ''}`;
+    const shown = prefix === '$' ? symbol : prefix;
+    return `${sign}${shown ?? ''}${num}${suffix ?? ''}`;
   };
 
   const renderRows = (rows: RowDef[]) => {
@@ -60,23 +77,27 @@ export default function DataInput({ weeks, onChange }: Props) {
             {row.label}
             {row.tier === 2 && <span className="ml-1 text-yellow-600 text-[10px]">T2</span>}
           </td>
-          {weeks.map((week, i) => (
-            <td key={i} className="py-1 px-1">
-              {isReadOnly ? (
-                <div className={`w-full bg-gray-900/50 border border-gray-800 rounded px-2 py-1 text-xs text-right ${rowColor} min-w-[80px]`}>
-                  {formatVal(week[row.key] as number | null, row.prefix, row.suffix) || '-'}
-                </div>
-              ) : (
-                <input
-                  type="text"
-                  value={formatVal(week[row.key] as number | null, row.prefix, row.suffix)}
-                  onChange={e => updateCell(i, row.key, e.target.value)}
-                  className={`w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-right ${rowColor} focus:outline-none focus:border-red-500 min-w-[80px]`}
-                  placeholder="-"
-                />
-              )}
-            </td>
-          ))}
+          {weeks.map((week, i) => {
+            const found = cellIssues.get(cellKey(week.weekNum, row.key));
+            const issueClass = found ? issueStyles[worstSeverity(found)] : 'border-gray-800 bg-gray-900/50';
+            return (
+              <td key={i} className="py-1 px-1" title={found?.map(f => f.message).join('\n')}>
+                {isReadOnly ? (
+                  <div className={`w-full border rounded px-2 py-1 text-xs text-right ${issueClass} ${rowColor} min-w-[80px]`}>
+                    {formatVal(week[row.key] as number | null, row.prefix, row.suffix) || '-'}
+                  </div>
+                ) : (
+                  <input
+                    type="text"
+                    value={formatVal(week[row.key] as number | null, row.prefix, row.suffix)}
+                    onChange={e => updateCell(i, row.key, e.target.value)}
+                    className={`w-full border rounded px-2 py-1 text-xs text-right ${found ? issueStyles[worstSeverity(found)] : 'bg-gray-800 border-gray-700'} ${rowColor} focus:outline-none focus:border-red-500 min-w-[80px]`}
+                    placeholder="-"
+                  />
+                )}
+              </td>
+            );
+          })}
         </tr>
       );
     });
@@ -89,9 +110,17 @@ export default function DataInput({ weeks, onChange }: Props) {
           <h2 className="text-lg font-bold text-white">Data Input</h2>
           <p className="text-xs text-gray-500 mt-0.5">Tier 1 — Source of Truth (from spreadsheet)</p>
         </div>
+        {issues.length > 0 && (
+          <div className="flex gap-3 text-xs">
+            {counts('critical') > 0 && <span className="text-red-400">{counts('critical')} critical</span>}
+            {counts('warning') > 0 && <span className="text-yellow-400">{counts('warning')} warnings</span>}
+            {counts('info') > 0 && <span className="text-blue-400">{counts('info')} notes</span>}
+            <span className="text-gray-600">— hover a highlighted cell for details</span>
+          </div>
+        )}
       </div>
       <div className="overflow-x-auto">
-        <table className="w-full">
+        <table className="w-full" data-undo-grid>
           <thead>
             <tr className="border-b border-gray-700">
               <th className="py-2 px-3 text-left text-xs text-gray-500 sticky left-0 bg-gray-900 z-10 min-w-[180px]">Metric</th>
@@ -0,0 +1,52 @@
+import type { WeekChange } from '../types';
+import { describeChange } from '../logic/weekDiff';
+
+interface Props {
+  title: string;
+  changes: WeekChange[];
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED_CHANGES = 40;
+
+/** What a destructive edit is about to change, shown before it is applied */
+export default function DiffPreview({ title, changes, confirmLabel, onConfirm, onCancel }: Props) {
+  const removed = changes.filter(c => c.kind === 'removed').length;
+
+  return (
+    <div className="px-5 py-4 space-y-3 bg-gray-800/30 border-b border-yellow-800/30">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-bold text-yellow-400">{title}</span>
+        <span className="text-xs text-gray-500">
+          {changes.length} value{changes.length === 1 ? '' : 's'} change{changes.length === 1 ? 's' : ''}
+          {removed > 0 && <span className="text-red-400"> · {removed} cleared</span>}
+        </span>
+      </div>
+      {changes.length === 0 ? (
+        <p className="text-xs text-gray-500">Nothing would change.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto text-xs text-gray-300 font-mono space-y-0.5">
+          {changes.slice(0, MAX_LISTED_CHANGES).map(c => (
+            <li key={`${c.label}:${c.field}`} className={c.kind === 'removed' ? 'text-red-400' : ''}>{describeChange(c)}</li>
+          ))}
+          {changes.length > MAX_LISTED_CHANGES && <li className="text-gray-500">…and {changes.length - MAX_LISTED_CHANGES} more</li>}
+        </ul>
+      )}
+      <div className="flex gap-3 items-center">
+        <button
+          onClick={onConfirm}
+          disabled={changes.length === 0}
+          className="text-sm bg-yellow-700 hover:bg-yellow-600 text-white px-5 py-2 rounded-lg font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {confirmLabel}
+        </button>
+        <button onClick={onCancel} className="text-sm bg-gray-800 hover:bg-gray-700 text-gray-400 px-5 py-2 rounded-lg transition-colors">
+          Cancel
+        </button>
+        <span className="text-xs text-gray-500">Ctrl+Z undoes it afterwards.</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState, useRef } from 'react';
+import { readScorecardFile, ACCEPTED_EXTENSIONS, type ImportedSheet } from '../fileImport';
+import SheetPicker from './SheetPicker';
+
+interface Props {
+  onLoad: (tsv: string) => void;
+}
+
+/** Drag-and-drop or browse for a CSV/TSV/XLSX export — parsed in the browser, nothing is uploaded */
+export default function FileDrop({ onLoad }: Props) {
+  const [dragging, setDragging] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<ImportedSheet[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    setError(null);
+    setSheets([]);
+    setFileName(file.name);
+    try {
+      const imported = await readScorecardFile(file);
+      if (imported.length === 1) {
+        onLoad(imported[0].tsv);
+      } else {
+        setSheets(imported);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not read ${file.name}`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={e => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`border-2 border-dashed rounded p-4 text-center cursor-pointer transition-colors ${
+          dragging ? 'border-red-500 bg-red-900/10' : 'border-gray-700 hover:border-gray-600'
+        }`}
+      >
+        <p className="text-xs text-gray-400">
+          {reading ? `Reading ${fileName}…` : <>Drop a <span className="font-mono">.csv</span>, <span className="font-mono">.tsv</span> or <span className="font-mono">.xlsx</span> export here, or click to browse</>}
+        </p>
+        <p className="text-[10px] text-gray-600 mt-0.5">Read in your browser — works offline, nothing is uploaded.</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {sheets.length > 1 && <SheetPicker key={fileName} fileName={fileName} sheets={sheets} onPick={sheet => onLoad(sheet.tsv)} />}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { CHANGE_SOURCE_LABELS, type AuditEntry, type ScalePermission, type Verdict } from '../types';
+import { fetchAuditLog } from '../api';
+import { describeChange } from '../logic/weekDiff';
+
+interface Props {
+  workspaceId: string;
+  weekLabels: string[];
+  revision: number; // changes whenever a save was logged
+  onClose: () => void;
+}
+
+const VERDICT_LABELS: Record<Verdict, string> = {
+  cm_problem: 'CM Problem',
+  volume_problem: 'Volume Problem',
+  both: 'Both Broken',
+  neither: 'Healthy',
+};
+
+const SCALE_COLORS: Record<ScalePermission, string> = {
+  denied: 'text-red-400',
+  leak_hunt_only: 'text-yellow-400',
+  allowed: 'text-green-400',
+};
+
+const time = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Append-only change log for the workspace — who changed which value, how, and the verdict right after */
+export default function HistoryDrawer({ workspaceId, weekLabels, revision, onClose }: Props) {
+  const [week, setWeek] = useState<string | null>(null);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    fetchAuditLog(workspaceId, week)
+      .then(list => { if (!cancelled) setEntries(list); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [workspaceId, week, revision]);
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[480px] max-w-full bg-gray-900 border-l border-gray-800 shadow-2xl z-30 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <h2 className="text-lg font-bold text-white">History</h2>
+        <div className="flex gap-2 items-center">
+          <select
+            value={week ?? ''}
+            onChange={e => setWeek(e.target.value || null)}
+            className="text-xs bg-gray-800 border border-gray-700 text-gray-300 px-2 py-1.5 rounded focus:outline-none focus:border-red-500"
+          >
+            <option value="">All weeks</option>
+            {weekLabels.map(label => <option key={label} value={label}>{label}</option>)}
+          </select>
+          <button onClick={onClose} className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {entries?.length === 0 && <p className="text-xs text-gray-500">No changes recorded{week ? ` for ${week}` : ''} yet.</p>}
+        {entries?.map(e => (
+          <div key={e.id} className="border-b border-gray-800 pb-2 text-xs">
+            <div className="text-gray-300">{describeChange(e)}</div>
+            <div className="flex flex-wrap gap-x-3 text-gray-500 mt-0.5">
+              <span>{e.user}</span>
+              <span>{CHANGE_SOURCE_LABELS[e.source]}</span>
+              <span>{time(e.at)}</span>
+              {e.verdict && e.scalePermission && (
+                <span>
+                  → {VERDICT_LABELS[e.verdict]},{' '}
+                  <span className={SCALE_COLORS[e.scalePermission]}>{e.scalePermission.replace(/_/g, ' ')}</span>
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
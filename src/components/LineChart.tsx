@@ -0,0 +1,118 @@
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: (number | null)[];
+  dashed?: boolean;
+}
+
+export interface ChartThreshold {
+  label: string;
+  value: number;
+  color: string;
+}
+
+interface Props {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  thresholds?: ChartThreshold[];
+  format: (v: number) => string;
+}
+
+const WIDTH = 420;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 12, bottom: 22, left: 48 };
+
+/** Minimal SVG line chart — nulls break the line rather than dropping to zero */
+export default function LineChart({ title, labels, series, thresholds = [], format }: Props) {
+  const values = [
+    ...series.flatMap(s => s.values.filter((v): v is number => v != null)),
+    ...thresholds.map(t => t.value),
+  ];
+
+  if (series.every(s => s.values.every(v => v == null))) {
+    return (
+      <div className="p-3 bg-gray-800/50 rounded">
+        <div className="text-xs text-gray-500 mb-1">{title}</div>
+        <div className="text-xs text-gray-600 py-8 text-center">No data</div>
+      </div>
+    );
+  }
+
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) { min -= 1; max += 1; }
+  const margin = (max - min) * 0.08;
+  min -= margin;
+  max += margin;
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (labels.length > 1 ? (i / (labels.length - 1)) * plotW : plotW / 2);
+  const y = (v: number) => PAD.top + ((max - v) / (max - min)) * plotH;
+
+  const segments = (vals: (number | null)[]) => {
+    const paths: string[] = [];
+    let current = '';
+    vals.forEach((v, i) => {
+      if (v == null) {
+        if (current) paths.push(current);
+        current = '';
+        return;
+      }
+      current += `${current ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)}`;
+    });
+    if (current) paths.push(current);
+    return paths;
+  };
+
+  const labelEvery = Math.ceil(labels.length / 7);
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <div className="text-xs text-gray-500">{title}</div>
+        <div className="flex flex-wrap gap-3 text-[10px]">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1 text-gray-400">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={title}>
+        {[max - margin, (max + min) / 2, min + margin].map((v, i) => (
+          <g key={i}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="#1f2937" />
+            <text x={PAD.left - 4} y={y(v) + 3} textAnchor="end" fontSize={9} fill="#6b7280">{format(v)}</text>
+          </g>
+        ))}
+        {min < 0 && max > 0 && (
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#4b5563" />
+        )}
+        {thresholds.map(t => (
+          <g key={t.label}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t.value)} y2={y(t.value)} stroke={t.color} strokeDasharray="4 3" />
+            <text x={WIDTH - PAD.right} y={y(t.value) - 3} textAnchor="end" fontSize={9} fill={t.color}>{t.label} {format(t.value)}</text>
+          </g>
+        ))}
+        {series.map(s => (
+          <g key={s.label}>
+            {segments(s.values).map((d, i) => (
+              <path key={i} d={d} fill="none" stroke={s.color} strokeWidth={1.75} strokeDasharray={s.dashed ? '5 3' : undefined} />
+            ))}
+            {s.values.map((v, i) => v != null && (
+              <circle key={i} cx={x(i)} cy={y(v)} r={2.25} fill={s.color}>
+                <title>{`${labels[i]} — ${s.label}: ${format(v)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+        {labels.map((l, i) => i % labelEvery === 0 && (
+          <text key={i} x={x(i)} y={HEIGHT - 6} textAnchor="middle" fontSize={9} fill="#6b7280">{l}</text>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { login, type AuthSession } from '../auth';
+
+interface Props {
+  onLogin: (session: AuthSession) => void;
+}
+
+export default function LoginScreen({ onLogin }: Props) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await login(username.trim(), password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      setPassword('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950 flex items-center justify-center">
+      <form onSubmit={handleSubmit} className="bg-gray-900 border border-gray-800 rounded-lg p-8 w-80">
+        <h1 className="text-lg font-bold text-white mb-1">Economic Governor</h1>
+        <p className="text-xs text-gray-500 mb-6">Sign in to continue.</p>
+        <input
+          type="text"
+          value={username}
+          onChange={e => { setUsername(e.target.value); setError(null); }}
+          className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-red-500 mb-3"
+          placeholder="Username"
+          autoComplete="username"
+          autoFocus
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={e => { setPassword(e.target.value); setError(null); }}
+          className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-red-500 mb-3"
+          placeholder="Password"
+          autoComplete="current-password"
+        />
+        {error && <p className="text-red-500 text-xs mb-3">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting || !username.trim() || !password}
+          className="w-full bg-red-600 hover:bg-red-700 text-white text-sm font-medium py-2 rounded transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Signing in…' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+}
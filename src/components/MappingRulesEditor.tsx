@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import type { MappingRule, MappingMetric } from '../types';
+import { rulePattern, METRIC_FIELDS } from '../sheets';
+import { CURRENCIES } from '../currency';
+
+interface Props {
+  rules: MappingRule[];
+  isDefault: boolean;
+  onChange: (rules: MappingRule[]) => void;
+  onReset: () => void;
+}
+
+const METRIC_LABELS: Record<MappingMetric, string> = {
+  netSales: 'Net Sales',
+  cm: '1st Order CM',
+  count: '1st Order Count',
+  aov: 'NC AOV',
+  cac: 'CAC',
+  adSpend: 'Ad Spend',
+};
+
+const SERIES_LABELS: Record<MappingRule['series'], string> = {
+  detect: 'Detect (Fcast in label)',
+  forecast: 'Forecast',
+  actual: 'Actual',
+};
+
+const cellClass = 'w-full bg-gray-800 border rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-red-500';
+
+const NEW_RULE: MappingRule = { pattern: '', metric: 'cm', series: 'detect', scale: 1, currency: '' };
+
+/** Ordered row rules for paste and sync — the first matching rule wins */
+export default function MappingRulesEditor({ rules, isDefault, onChange, onReset }: Props) {
+  const [testLabel, setTestLabel] = useState('');
+
+  const updateRule = (index: number, patch: Partial<MappingRule>) => {
+    onChange(rules.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const moveRule = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const updated = [...rules];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const testMatch = testLabel.trim()
+    ? rules.findIndex(r => rulePattern(r)?.test(testLabel))
+    : -1;
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <div className="text-xs text-gray-400 font-medium">Row Mapping Rules</div>
+          <div className="text-[10px] text-gray-600">Checked top to bottom against each row label (case-insensitive regex). Applied on every paste and sync.</div>
+        </div>
+        {!isDefault && (
+          <button
+            onClick={onReset}
+            className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+          >
+            Reset to Built-in
+          </button>
+        )}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-700">
+            <th className="py-2 px-2 text-left text-gray-500">Label pattern</th>
+            <th className="py-2 px-2 text-left text-gray-500 w-[150px]">Metric</th>
+            <th className="py-2 px-2 text-left text-gray-500 w-[180px]">Forecast / Actual</th>
+            <th className="py-2 px-2 text-left text-gray-500 w-[90px]">Unit scale</th>
+            <th className="py-2 px-2 text-left text-gray-500 w-[110px]">Currency</th>
+            <th className="py-2 px-2 w-[90px]" />
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule, i) => {
+            const valid = rulePattern(rule) != null;
+            return (
+              <tr key={i} className={`border-b border-gray-800 ${i === testMatch ? 'bg-green-900/20' : ''}`}>
+                <td className="py-1.5 px-2">
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={e => updateRule(i, { pattern: e.target.value })}
+                    placeholder="e.g. 1st Order CM"
+                    title={valid ? undefined : 'Not a valid regular expression — this rule is skipped'}
+                    className={`${cellClass} font-mono ${valid ? 'border-gray-700' : 'border-red-600'}`}
+                  />
+                </td>
+                <td className="py-1.5 px-2">
+                  <select value={rule.metric} onChange={e => updateRule(i, { metric: e.target.value as MappingMetric })} className={`${cellClass} border-gray-700`}>
+                    {Object.entries(METRIC_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                  </select>
+                </td>
+                <td className="py-1.5 px-2">
+                  <select
+                    value={rule.series}
+                    onChange={e => updateRule(i, { series: e.target.value as MappingRule['series'] })}
+                    disabled={METRIC_FIELDS[rule.metric].forecast == null}
+                    className={`${cellClass} border-gray-700 disabled:opacity-50`}
+                  >
+                    {Object.entries(SERIES_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                  </select>
+                </td>
+                <td className="py-1.5 px-2">
+                  <input
+                    type="number"
+                    value={rule.scale}
+                    onChange={e => updateRule(i, { scale: Number(e.target.value) || 1 })}
+                    className={`${cellClass} border-gray-700 text-right`}
+                  />
+                </td>
+                <td className="py-1.5 px-2">
+                  <select value={rule.currency} onChange={e => updateRule(i, { currency: e.target.value })} className={`${cellClass} border-gray-700`}>
+                    <option value="">Workspace</option>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </td>
+                <td className="py-1.5 px-2 whitespace-nowrap text-right">
+                  <button onClick={() => moveRule(i, -1)} disabled={i === 0} className="text-gray-500 hover:text-gray-300 px-1 disabled:opacity-30" title="Move up">↑</button>
+                  <button onClick={() => moveRule(i, 1)} disabled={i === rules.length - 1} className="text-gray-500 hover:text-gray-300 px-1 disabled:opacity-30" title="Move down">↓</button>
+                  <button onClick={() => onChange(rules.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-400 px-1" title="Delete rule">✕</button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-2 mt-3">
+        <button
+          onClick={() => onChange([...rules, NEW_RULE])}
+          className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+        >
+          + Add Rule
+        </button>
+        <input
+          type="text"
+          value={testLabel}
+          onChange={e => setTestLabel(e.target.value)}
+          placeholder="Test a row label…"
+          className="ml-auto w-64 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+        />
+        {testLabel.trim() && (
+          <span className={`text-xs ${testMatch >= 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+            {testMatch >= 0 ? `Rule ${testMatch + 1} — ${METRIC_LABELS[rules[testMatch].metric]}` : 'No rule matches'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
-import type { Module1Result } from '../types';
+import type { Module1Result, GovernorConfig, VerdictHistoryEntry, CmProjection, PvaMismatch, CalculatedWeek, CacReconciliation } from '../types';
+import { PVA_METRIC_LABELS } from '../logic/pvaCrossCheck';
+import { formatMoney } from '../currency';
+import CmWaterfall from './CmWaterfall';
+import TrendCharts from './TrendCharts';
 
 interface Props {
   result: Module1Result;
+  config: GovernorConfig;
+  currency: string;
+  history: VerdictHistoryEntry[];
 }
 
 const verdictColors: Record<string, string> = {
@@ -17,8 +24,8 @@ const scaleColors: Record<string, string> = {
   allowed: 'text-green-400',
 };
 
-export default function Module1({ result }: Props) {
-  const { verdict, scalePermission, scaleReason, verdictExplanation, warnings, cmMirage, cmMirageExplanation, biggestLeak, biggestLeakDollars, latestWeek, weeks } = result;
+export default function Module1({ result, config, currency, history }: Props) {
+  const { verdict, scalePermission, scaleReason, verdictExplanation, warnings, cmMirage, cmMirageExplanation, biggestLeak, biggestLeakDollars, projection, cmBridge, pvaMismatches, cacReconciliation, dataCaveat, latestWeek, weeks } = result;
 
   return (
     <div className="space-y-4">
@@ -34,6 +41,14 @@ export default function Module1({ result }: Props) {
           <div className="text-sm font-medium">{verdictExplanation}</div>
         </div>
 
+        {/* Data Quality Caveat */}
+        {dataCaveat && (
+          <div className="mx-4 mb-4 p-3 bg-red-900/30 border border-red-700 rounded">
+            <div className="text-xs font-bold text-red-400 uppercase tracking-wider mb-1">Verdict Caveat — Inconsistent Inputs</div>
+            <div className="text-xs text-red-300">{dataCaveat}</div>
+          </div>
+        )}
+
         {/* Scale Permission */}
         <div className="mx-4 mb-4 p-3 bg-gray-800/50 rounded">
           <div className="text-xs text-gray-500 mb-1">Scale Permission</div>
@@ -43,6 +58,9 @@ export default function Module1({ result }: Props) {
           <div className="text-xs text-gray-400 mt-1">{scaleReason}</div>
         </div>
 
+        {/* Verdict Timeline */}
+        {history.length > 1 && <VerdictTimeline history={history} />}
+
         {/* CM Mirage Warning */}
         {cmMirage && (
           <div className="mx-4 mb-4 p-3 bg-orange-900/30 border border-orange-700 rounded">
@@ -51,15 +69,29 @@ export default function Module1({ result }: Props) {
           </div>
         )}
 
-        {/* Biggest Leak */}
-        {biggestLeak && (
-          <div className="mx-4 mb-4 p-3 bg-gray-800/50 rounded">
-            <div className="text-xs text-gray-500 mb-1">Biggest Dollar Leak</div>
-            <div className="text-sm text-white">{biggestLeak}</div>
-            <div className="text-xs text-red-400 mt-1">= ${biggestLeakDollars.toLocaleString()}/week at current volume</div>
+        {/* Biggest Leak + Forward Projection */}
+        {(biggestLeak || projection) && (
+          <div className="mx-4 mb-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {biggestLeak && (
+              <div className="p-3 bg-gray-800/50 rounded">
+                <div className="text-xs text-gray-500 mb-1">Biggest Dollar Leak</div>
+                <div className="text-sm text-white">{biggestLeak}</div>
+                <div className="text-xs text-red-400 mt-1">= {formatMoney(biggestLeakDollars, currency)}/week at current volume</div>
+              </div>
+            )}
+            {projection && <ProjectionPanel projection={projection} currency={currency} />}
           </div>
         )}
 
+        {/* CAC Reconciliation */}
+        {cacReconciliation.length > 0 && <CacReconciliationPanel rows={cacReconciliation} currency={currency} />}
+
+        {/* CM Variance Bridge */}
+        {cmBridge && <CmWaterfall bridge={cmBridge} currency={currency} />}
+
+        {/* Trend Charts */}
+        {latestWeek && <TrendCharts weeks={weeks} currency={currency} />}
+
         {/* PvA Table */}
         {latestWeek && (
           <div className="mx-4 mb-4 overflow-x-auto">
@@ -73,15 +105,20 @@ export default function Module1({ result }: Props) {
                 </tr>
               </thead>
               <tbody>
-                <PvaRow label="CM PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="cmPva" invert />
-                <PvaRow label="Count PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="countPva" />
-                <PvaRow label="AOV PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="aovPva" />
-                <PvaRow label="CAC PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="cacPva" invert />
+                <PvaRow label="Net Sales PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="netSalesPva" config={config} />
+                <PvaRow label="CM PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="cmPva" config={config} invert />
+                <PvaRow label="Count PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="countPva" config={config} />
+                <PvaRow label="AOV PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="aovPva" config={config} />
+                <PvaRow label="CAC PvA" weeks={weeks as unknown as Record<string, unknown>[]} field="cacPva" config={config} invert />
+                <ShareRow label="NC Share of Net Sales" weeks={weeks} />
               </tbody>
             </table>
           </div>
         )}
 
+        {/* Sheet PvA Cross-Check */}
+        {pvaMismatches.length > 0 && <PvaCrossCheck mismatches={pvaMismatches} tolerance={config.pvaCrossCheckTolerance} />}
+
         {/* Warnings */}
         <div className="mx-4 mb-4 space-y-1">
           {warnings.map((w, i) => (
@@ -95,10 +132,93 @@ export default function Module1({ result }: Props) {
   );
 }
 
-function PvaRow({ label, weeks, field, invert }: {
+function ProjectionPanel({ projection, currency }: { projection: CmProjection; currency: string }) {
+  const { weeks, totalProjectedCm, totalPlanCm, totalForecastCount, unitCm, breakEven, planTarget } = projection;
+  const first = weeks[0];
+  const last = weeks[weeks.length - 1];
+  const money = (v: number | null) => v != null ? formatMoney(v, currency) : '?';
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded">
+      <div className="text-xs text-gray-500 mb-1">
+        Forward CM Projection — {first.label || `WK ${first.weekNum}`} to {last.label || `WK ${last.weekNum}`} ({weeks.length} weeks)
+      </div>
+      <div className="text-sm text-white">
+        {money(totalProjectedCm)} projected vs {money(totalPlanCm)} plan
+        {totalPlanCm != null && (
+          <span className={totalProjectedCm >= totalPlanCm ? 'text-green-400' : 'text-red-400'}>
+            {' '}({totalProjectedCm >= totalPlanCm ? '+' : ''}{money(totalProjectedCm - totalPlanCm)})
+          </span>
+        )}
+      </div>
+      <div className="text-xs text-gray-400 mt-1">
+        {totalForecastCount.toLocaleString()} forecast customers × {money(unitCm)}/customer ({projection.basisLabel} unit economics).
+      </div>
+      <div className="mt-2 space-y-0.5 text-xs">
+        <div className="text-gray-300">
+          <span className="text-gray-500">Break even: </span>
+          CAC ≤ {money(breakEven.cac)}{breakEven.aov != null && <> or AOV ≥ {money(breakEven.aov)}</>}
+        </div>
+        {planTarget && (
+          <div className="text-gray-300">
+            <span className="text-gray-500">Hit plan ({money(planTarget.unitCm)}/customer): </span>
+            CAC ≤ {money(planTarget.cac)}{planTarget.aov != null && <> or AOV ≥ {money(planTarget.aov)}</>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const verdictShort: Record<string, string> = {
+  cm_problem: 'CM',
+  volume_problem: 'Volume',
+  both: 'Both',
+  neither: 'OK',
+};
+
+function VerdictTimeline({ history }: { history: VerdictHistoryEntry[] }) {
+  const flips = history.filter(h => h.permissionFlipped);
+
+  return (
+    <div className="mx-4 mb-4 p-3 bg-gray-800/50 rounded">
+      <div className="text-xs text-gray-500 mb-2">Verdict Timeline</div>
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        {history.map(h => (
+          <div
+            key={h.weekNum}
+            title={h.scaleReason}
+            className={`min-w-[72px] px-2 py-1.5 rounded border text-center ${verdictColors[h.verdict]} ${h.permissionFlipped ? 'ring-2 ring-white/60' : ''}`}
+          >
+            <div className="text-[10px] text-gray-400">{h.label || `WK ${h.weekNum}`}</div>
+            <div className="text-xs font-bold">{verdictShort[h.verdict]}</div>
+            <div className={`text-[10px] font-bold ${scaleColors[h.scalePermission]}`}>
+              {h.scalePermission === 'denied' ? 'DENIED' : h.scalePermission === 'leak_hunt_only' ? 'LEAK HUNT' : 'ALLOWED'}
+            </div>
+            {h.cmMirage && <div className="text-[10px] text-orange-400 font-bold">MIRAGE</div>}
+          </div>
+        ))}
+      </div>
+      {flips.length > 0 ? (
+        <div className="mt-2 space-y-1">
+          {flips.map(h => (
+            <div key={h.weekNum} className="text-xs text-gray-300">
+              <span className="font-bold text-white">{h.label || `WK ${h.weekNum}`}:</span> {h.flipReason}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-2 text-xs text-gray-500">Scale permission has not changed across {history.length} weeks.</div>
+      )}
+    </div>
+  );
+}
+
+function PvaRow({ label, weeks, field, config, invert }: {
   label: string;
   weeks: Record<string, unknown>[];
   field: string;
+  config: GovernorConfig;
   invert?: boolean;
 }) {
   return (
@@ -110,14 +230,14 @@ function PvaRow({ label, weeks, field, invert }: {
 
         let color = 'text-gray-400';
         const threshold = invert ? val : val;
-        if (threshold >= 95) color = 'text-green-400';
-        else if (threshold >= 85) color = 'text-yellow-400';
+        if (threshold >= config.pvaGreen) color = 'text-green-400';
+        else if (threshold >= config.pvaYellow) color = 'text-yellow-400';
         else color = 'text-red-400';
 
         // For CAC, higher PvA is worse (inverted)
         if (invert && field === 'cacPva') {
-          if (val <= 105) color = 'text-green-400';
-          else if (val <= 120) color = 'text-yellow-400';
+          if (val <= config.cacPvaGreen) color = 'text-green-400';
+          else if (val <= config.cacPvaYellow) color = 'text-yellow-400';
           else color = 'text-red-400';
         }
 
@@ -126,3 +246,65 @@ function PvaRow({ label, weeks, field, invert }: {
     </tr>
   );
 }
+
+function ShareRow({ label, weeks }: { label: string; weeks: CalculatedWeek[] }) {
+  return (
+    <tr className="border-b border-gray-800">
+      <td className="py-1.5 px-2 text-gray-400 whitespace-nowrap">{label}</td>
+      {weeks.map((w, i) => (
+        <td key={i} className={`py-1.5 px-2 text-center font-mono ${w.ncShareOfSales != null ? 'text-gray-300' : 'text-gray-600'}`}>
+          {w.ncShareOfSales != null ? `${w.ncShareOfSales.toFixed(0)}%` : '-'}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+function PvaCrossCheck({ mismatches, tolerance }: { mismatches: PvaMismatch[]; tolerance: number }) {
+  return (
+    <div className="mx-4 mb-4 p-3 bg-yellow-900/20 border border-yellow-800 rounded">
+      <div className="text-xs font-bold text-yellow-400 uppercase tracking-wider mb-1">Sheet PvA Cross-Check</div>
+      <div className="text-xs text-yellow-300/80 mb-2">
+        The sheet's own Plan vs Actual rows differ from Actual ÷ Plan by more than {tolerance}pp in these weeks.
+      </div>
+      <div className="space-y-0.5">
+        {mismatches.map((m, i) => (
+          <div key={i} className="text-xs text-gray-300 font-mono">
+            {m.label || `WK ${m.weekNum}`} · {PVA_METRIC_LABELS[m.metric]}: sheet {m.sheetPva.toFixed(0)}% vs computed {m.computedPva.toFixed(0)}%
+            {m.inverted && <span className="text-yellow-400"> — sheet appears to use Plan ÷ Actual</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CacReconciliationPanel({ rows, currency }: { rows: CacReconciliation[]; currency: string }) {
+  const latest = rows[rows.length - 1];
+  const money = (v: number) => formatMoney(v, currency);
+
+  return (
+    <div className="mx-4 mb-4 p-3 bg-gray-800/50 rounded">
+      <div className="text-xs text-gray-500 mb-1">CAC Reconciliation — Reported vs Ad Spend ÷ First Orders</div>
+      <div className="text-sm text-white">
+        {latest.label || `WK ${latest.weekNum}`}:{' '}
+        {latest.derived
+          ? <>implied CAC {money(latest.impliedCac)} <span className="text-yellow-400">(derived — no reported CAC)</span></>
+          : <>reported {money(latest.reportedCac!)} vs implied {money(latest.impliedCac)}{' '}
+              <span className={latest.mismatch ? 'text-red-400' : 'text-green-400'}>
+                ({latest.gap! >= 0 ? '+' : ''}{money(latest.gap!)}, {latest.gapPct!.toFixed(0)}%)
+              </span>
+            </>}
+      </div>
+      {rows.length > 1 && (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-0.5 text-xs font-mono">
+          {rows.map(r => (
+            <span key={r.weekNum} className={r.derived ? 'text-yellow-400' : r.mismatch ? 'text-red-400' : 'text-gray-400'}>
+              {r.label || `WK ${r.weekNum}`}: {r.derived ? `${money(r.impliedCac)} derived` : `${r.gapPct! >= 0 ? '+' : ''}${r.gapPct!.toFixed(0)}%`}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
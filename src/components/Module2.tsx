@@ -1,10 +1,23 @@
 import { useState, useCallback, type ClipboardEvent } from 'react';
-import type { Module2Result, WeekData } from '../types';
+import type { Module2Result, WeekData, CalculatedWeek, GovernorConfig, ChangeSource, DataIssue, IssueSeverity } from '../types';
+import { currencySymbol } from '../currency';
+import { parseDelimited } from '../csv';
+import { applyTier2Map, type Tier2Map } from '../sheets';
+import Tier2Charts from './Tier2Charts';
+import Tier2Import from './Tier2Import';
+import DiffPreview from './DiffPreview';
+import { diffTier2Weeks } from '../logic/weekDiff';
+import { issuesByCell, cellKey, worstSeverity } from '../logic/dataValidator';
 
 interface Props {
   result: Module2Result;
   weeks: WeekData[];
-  onChange: (weeks: WeekData[]) => void;
+  calculatedWeeks: CalculatedWeek[];
+  config: GovernorConfig;
+  currency: string;
+  issues: DataIssue[]; // the validator's findings — Tier 2 ones are highlighted in the grid
+  onChange: (weeks: WeekData[], source: ChangeSource) => void;
+  readOnly: boolean; // viewers see Tier 2 but cannot edit it
 }
 
 interface RowDef {
@@ -27,7 +40,7 @@ const TIER2_ROWS: RowDef[] = [
 
 /** Parse a raw clipboard cell value into a number or null */
 function parseCell(raw: string): number | null {
-  const cleaned = raw.trim().replace(/[$,%\s]/g, '');
+  const cleaned = raw.trim().replace(/[^\d.-]/g, '');
   if (cleaned === '' || cleaned === '-') return null;
   const num = parseFloat(cleaned);
   return isNaN(num) ? null : num;
@@ -35,14 +48,57 @@ function parseCell(raw: string): number | null {
 
 /** Parse tab-separated, newline-separated clipboard data into a 2D grid */
 function parseClipboard(text: string): string[][] {
-  return text
-    .replace(/\r\n/g, '\n')
-    .replace(/\r/g, '\n')
-    .split('\n')
-    .filter(line => line.trim() !== '')
-    .map(line => line.split('\t'));
+  let rows: string[][];
+  try {
+    rows = parseDelimited(text, '\t');
+  } catch {
+    // Unbalanced quotes — treat the text as plain tab/newline-separated cells
+    rows = text.split(/\r\n|\r|\n/).map(line => line.split('\t'));
+  }
+  return rows.filter(row => row.some(cell => cell.trim() !== ''));
 }
 
+/** Weeks with a 2D grid of pasted data applied from a given row/col position */
+function applyGrid(weeks: WeekData[], grid: string[][], startRow: number, startCol: number): WeekData[] {
+  const updated = weeks.map(w => ({ ...w }));
+  for (let r = 0; r < grid.length; r++) {
+    const rowIdx = startRow + r;
+    if (rowIdx >= TIER2_ROWS.length) break;
+    const key = TIER2_ROWS[rowIdx].key;
+    for (let c = 0; c < grid[r].length; c++) {
+      const colIdx = startCol + c;
+      if (colIdx >= weeks.length) break;
+      updated[colIdx] = { ...updated[colIdx], [key]: parseCell(grid[r][c]) };
+    }
+  }
+  return updated;
+}
+
+/** All Tier 2 data back to null */
+function clearTier2(weeks: WeekData[]): WeekData[] {
+  return weeks.map(w => {
+    const cleared = { ...w };
+    for (const row of TIER2_ROWS) {
+      (cleared as Record<string, unknown>)[row.key] = null;
+    }
+    return cleared;
+  });
+}
+
+/** A grid-wide edit waiting for confirmation — applied to the weeks as they are when confirmed */
+interface PendingEdit {
+  title: string;
+  confirmLabel: string;
+  apply: (weeks: WeekData[]) => WeekData[];
+  source: ChangeSource;
+}
+
+const issueStyles: Record<IssueSeverity, string> = {
+  critical: 'border-red-600 bg-red-900/30',
+  warning: 'border-yellow-600 bg-yellow-900/20',
+  info: 'border-blue-800 bg-gray-800',
+};
+
 const statusColors = {
   pass: 'border-green-700 bg-green-900/20',
   fail: 'border-red-700 bg-red-900/20',
@@ -73,42 +129,31 @@ const STEP_CHECKS: Record<number, string> = {
   6: 'Unit CM per customer, AOV gap, CAC gap — biggest dollar leak?',
 };
 
-export default function Module2({ result, weeks, onChange }: Props) {
+export default function Module2({ result, weeks, calculatedWeeks, config, currency, issues, onChange, readOnly }: Props) {
   const { allowedScope, steps, tier2Diagnosis, rcaSummary } = result;
+  const symbol = currencySymbol(currency);
   const [showTier2, setShowTier2] = useState(true);
   const [showBulkPaste, setShowBulkPaste] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [bulkText, setBulkText] = useState('');
+  const [pending, setPending] = useState<PendingEdit | null>(null);
+  const cellIssues = issuesByCell(issues);
 
   const updateCell = (weekIdx: number, key: keyof WeekData, raw: string) => {
     const updated = [...weeks];
-    const val = raw === '' ? null : parseFloat(raw.replace(/[$,%]/g, ''));
+    const val = raw === '' ? null : parseFloat(raw.replace(/[^\d.-]/g, ''));
     updated[weekIdx] = { ...updated[weekIdx], [key]: isNaN(val as number) ? null : val };
-    onChange(updated);
+    onChange(updated, 'manual');
   };
 
   const formatVal = (val: number | null, prefix?: string, suffix?: string) => {
     if (val == null) return '';
     const num = prefix === '$' ? Math.abs(val).toFixed(0) : val.toString();
     const sign = val < 0 ? '-' : '';
-    return `${sign}${prefix ?? ''}${num}${suffix ?? ''}`;
+    const shown = prefix === '$' ? symbol : prefix;
+    return `${sign}${shown ?? ''}${num}${suffix ?? ''}`;
   };
 
-  /** Apply a 2D grid of pasted data starting from a given row/col position */
-  const applyGrid = useCallback((grid: string[][], startRow: number, startCol: number) => {
-    const updated = weeks.map(w => ({ ...w }));
-    for (let r = 0; r < grid.length; r++) {
-      const rowIdx = startRow + r;
-      if (rowIdx >= TIER2_ROWS.length) break;
-      const key = TIER2_ROWS[rowIdx].key;
-      for (let c = 0; c < grid[r].length; c++) {
-        const colIdx = startCol + c;
-        if (colIdx >= weeks.length) break;
-        updated[colIdx] = { ...updated[colIdx], [key]: parseCell(grid[r][c]) };
-      }
-    }
-    onChange(updated);
-  }, [weeks, onChange]);
-
   /** Handle paste on any individual cell — fills grid from that position */
   const handleCellPaste = useCallback((e: ClipboardEvent<HTMLInputElement>, rowIdx: number, colIdx: number) => {
     const text = e.clipboardData.getData('text/plain');
@@ -116,30 +161,37 @@ export default function Module2({ result, weeks, onChange }: Props) {
     // Only intercept if multi-cell paste (has tabs or multiple lines)
     if (grid.length > 1 || (grid.length === 1 && grid[0].length > 1)) {
       e.preventDefault();
-      applyGrid(grid, rowIdx, colIdx);
+      onChange(applyGrid(weeks, grid, rowIdx, colIdx), 'bulk_paste');
     }
-  }, [applyGrid]);
+  }, [weeks, onChange]);
 
-  /** Handle bulk paste from the textarea */
+  /** Bulk paste from the textarea replaces the whole grid — preview it first */
   const handleBulkApply = useCallback(() => {
     const grid = parseClipboard(bulkText);
     if (grid.length === 0) return;
-    applyGrid(grid, 0, 0);
-    setBulkText('');
-    setShowBulkPaste(false);
-  }, [bulkText, applyGrid]);
+    setPending({ title: 'Apply bulk paste', confirmLabel: 'Apply Data', apply: ws => applyGrid(ws, grid, 0, 0), source: 'bulk_paste' });
+  }, [bulkText]);
 
-  /** Clear all Tier 2 data back to null */
-  const handleClearTier2 = useCallback(() => {
-    const updated = weeks.map(w => {
-      const cleared = { ...w };
-      for (const row of TIER2_ROWS) {
-        (cleared as Record<string, unknown>)[row.key] = null;
-      }
-      return cleared;
-    });
-    onChange(updated);
-  }, [weeks, onChange]);
+  /** Clear all Tier 2 data back to null, after a preview of what goes */
+  const handleClearTier2 = () => {
+    setPending({ title: 'Clear all Tier 2 data', confirmLabel: 'Clear All', apply: clearTier2, source: 'manual' });
+  };
+
+  /** Imported Meta/Shopify weeks replace the grid's values for those weeks — preview them like a bulk paste */
+  const handleImport = (tier2: Tier2Map) => {
+    setPending({ title: 'Apply Meta / Shopify import', confirmLabel: 'Apply Import', apply: ws => applyTier2Map(ws, tier2), source: 'import' });
+  };
+
+  const handleConfirmPending = () => {
+    if (!pending) return;
+    onChange(pending.apply(weeks), pending.source);
+    if (pending.source === 'bulk_paste') {
+      setBulkText('');
+      setShowBulkPaste(false);
+    }
+    if (pending.source === 'import') setShowImport(false);
+    setPending(null);
+  };
 
   return (
     <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
@@ -162,7 +214,7 @@ export default function Module2({ result, weeks, onChange }: Props) {
             </div>
             <span className="text-lg ml-4">{showTier2 ? '▲' : '▼'}</span>
           </button>
-          {showTier2 && (
+          {showTier2 && !readOnly && (
             <div className="flex gap-2 mr-5">
               <button
                 onClick={() => setShowBulkPaste(!showBulkPaste)}
@@ -174,6 +226,16 @@ export default function Module2({ result, weeks, onChange }: Props) {
               >
                 Bulk Paste
               </button>
+              <button
+                onClick={() => setShowImport(!showImport)}
+                className={`text-xs px-3 py-1.5 rounded border font-medium transition-colors ${
+                  showImport
+                    ? 'border-yellow-600 bg-yellow-900/30 text-yellow-400'
+                    : 'border-gray-700 bg-gray-800 text-gray-400 hover:text-yellow-400 hover:border-yellow-700'
+                }`}
+              >
+                Import Meta / Shopify
+              </button>
               <button
                 onClick={handleClearTier2}
                 className="text-xs px-3 py-1.5 rounded border border-gray-700 bg-gray-800 text-gray-400 hover:text-red-400 hover:border-red-700 font-medium transition-colors"
@@ -183,7 +245,17 @@ export default function Module2({ result, weeks, onChange }: Props) {
             </div>
           )}
         </div>
-        {showTier2 && showBulkPaste && (
+        {showTier2 && !readOnly && pending && (
+          <DiffPreview
+            title={pending.title}
+            changes={diffTier2Weeks(weeks, pending.apply(weeks))}
+            confirmLabel={pending.confirmLabel}
+            onConfirm={handleConfirmPending}
+            onCancel={() => setPending(null)}
+          />
+        )}
+        {showTier2 && !readOnly && showImport && <Tier2Import weeks={weeks} onImport={handleImport} />}
+        {showTier2 && !readOnly && showBulkPaste && !pending && (
           <div className="px-5 py-4 space-y-3 bg-gray-800/30">
             <p className="text-sm text-gray-400">
               Paste all Tier 2 data from your spreadsheet. <span className="text-yellow-500 font-medium">Rows:</span> CPM, CTR, CPC, Frequency, Meta Clicks, Shopify Sessions, CVR. <span className="text-yellow-500 font-medium">Columns:</span> one per week (tab-separated).
@@ -213,7 +285,7 @@ export default function Module2({ result, weeks, onChange }: Props) {
         )}
         {showTier2 && (
           <div className="overflow-x-auto px-2 pb-4 pt-2">
-            <table className="w-full">
+            <table className="w-full" data-undo-grid>
               <thead>
                 <tr className="border-b-2 border-gray-700">
                   <th className="py-3 px-4 text-left text-sm font-semibold text-gray-400 sticky left-0 bg-gray-900 z-10 min-w-[200px]">Metric</th>
@@ -241,21 +313,25 @@ export default function Module2({ result, weeks, onChange }: Props) {
                       <tr key={row.key} className="border-b border-gray-800/60 hover:bg-gray-800/20 transition-colors">
                         <td className="py-3 px-4 text-sm font-medium text-white whitespace-nowrap sticky left-0 bg-gray-900 z-10 min-w-[200px]">
                           {row.label}
-                          {row.prefix && <span className="ml-1.5 text-gray-600 text-xs">{row.prefix}</span>}
+                          {row.prefix && <span className="ml-1.5 text-gray-600 text-xs">{row.prefix === '$' ? symbol : row.prefix}</span>}
                           {row.suffix && <span className="ml-1.5 text-gray-600 text-xs">{row.suffix}</span>}
                         </td>
-                        {weeks.map((week, i) => (
-                          <td key={i} className="py-2 px-2">
-                            <input
-                              type="text"
-                              value={formatVal(week[row.key] as number | null, row.prefix, row.suffix)}
-                              onChange={e => updateCell(i, row.key, e.target.value)}
-                              onPaste={e => handleCellPaste(e, rowIdx, i)}
-                              className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2.5 text-sm text-right text-white focus:outline-none focus:border-yellow-500 focus:ring-1 focus:ring-yellow-500/30 min-w-[100px] placeholder:text-gray-600"
-                              placeholder="-"
-                            />
-                          </td>
-                        ))}
+                        {weeks.map((week, i) => {
+                          const found = cellIssues.get(cellKey(week.weekNum, row.key));
+                          return (
+                            <td key={i} className="py-2 px-2" title={found?.map(f => f.message).join('\n')}>
+                              <input
+                                type="text"
+                                value={formatVal(week[row.key] as number | null, row.prefix, row.suffix)}
+                                onChange={e => updateCell(i, row.key, e.target.value)}
+                                onPaste={readOnly ? undefined : e => handleCellPaste(e, rowIdx, i)}
+                                readOnly={readOnly}
+                                className={`w-full ${found ? issueStyles[worstSeverity(found)] : 'bg-gray-800 border-gray-600'} read-only:opacity-70 border rounded-md px-3 py-2.5 text-sm text-right text-white focus:outline-none focus:border-yellow-500 focus:ring-1 focus:ring-yellow-500/30 min-w-[100px] placeholder:text-gray-600`}
+                                placeholder="-"
+                              />
+                            </td>
+                          );
+                        })}
                       </tr>
                     </>
                   );
@@ -264,6 +340,7 @@ export default function Module2({ result, weeks, onChange }: Props) {
             </table>
           </div>
         )}
+        {showTier2 && <Tier2Charts weeks={calculatedWeeks} config={config} currency={currency} />}
       </div>
 
       <div className="overflow-x-auto">
@@ -0,0 +1,213 @@
+import { useState, useMemo } from 'react';
+import type { WeekData, MappingOverrides, MappingTemplate } from '../types';
+import { analyzePastedData, type ParseOptions, type ParseReport, type RowStatus } from '../sheets';
+
+interface Props {
+  text: string;
+  options: ParseOptions;
+  templates: MappingTemplate[];
+  onCommit: (weeks: WeekData[], overrides: MappingOverrides) => void;
+  onSaveTemplate: (template: MappingTemplate) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof WeekData, string>> = {
+  netSalesForecast: 'Net Sales Forecast',
+  netSalesActual: 'Net Sales Actuals',
+  adSpend: 'Ad Spend',
+  cmForecast: '1st Order CM Forecast',
+  cmActual: '1st Order CM Actuals',
+  countForecast: '1st Order Count Forecast',
+  countActual: '1st Order Count Actuals',
+  aovForecast: 'NC AOV Forecast',
+  aovActual: 'NC AOV Actuals',
+  cacForecast: 'CAC Forecast',
+  cacActual: 'CAC Actuals',
+};
+
+const AUTO = '__auto';
+const IGNORE = '__ignore';
+
+const statusStyles: Record<RowStatus, string> = {
+  mapped: 'text-green-400',
+  override: 'text-blue-400',
+  unmatched: 'text-yellow-400',
+  skipped: 'text-gray-600',
+};
+
+export default function ParsePreview({ text, options, templates, onCommit, onSaveTemplate, onCancel }: Props) {
+  const [overrides, setOverrides] = useState<MappingOverrides>(options.overrides ?? {});
+  const [templateName, setTemplateName] = useState('');
+
+  const { report, error } = useMemo((): { report: ParseReport | null; error: string | null } => {
+    try {
+      return { report: analyzePastedData(text, { ...options, overrides }), error: null };
+    } catch (err) {
+      return { report: null, error: err instanceof Error ? err.message : 'Failed to parse pasted data' };
+    }
+  }, [text, options, overrides]);
+
+  const setMapping = (label: string, value: string, multiply: number) => {
+    const updated = { ...overrides };
+    if (value === AUTO) delete updated[label];
+    else if (value === IGNORE) updated[label] = null;
+    else updated[label] = { field: value as keyof WeekData, multiply };
+    setOverrides(updated);
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    onSaveTemplate({ name, overrides });
+    setTemplateName('');
+  };
+
+  if (!report) {
+    return (
+      <div className="bg-gray-900 rounded-lg border border-red-800 p-4 space-y-3">
+        <p className="text-xs text-red-400">{error}</p>
+        <button onClick={onCancel} className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors">Back</button>
+      </div>
+    );
+  }
+
+  const unmatched = report.rows.filter(r => r.status === 'unmatched');
+  const weeksWithActuals = report.weeks.filter(w => w.cmActual != null || w.countActual != null).length;
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <div>
+          <h2 className="text-lg font-bold text-white">Review Field Mapping</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {report.weeks.length} weeks ({weeksWithActuals} with actuals) ·{' '}
+            <span className={unmatched.length > 0 ? 'text-yellow-400' : ''}>{unmatched.length} unmatched rows</span> ·{' '}
+            <span className={report.unparseable.length > 0 ? 'text-yellow-400' : ''}>{report.unparseable.length} unparseable cells</span>
+          </p>
+        </div>
+        {templates.length > 0 && (
+          <select
+            value=""
+            onChange={e => {
+              const t = templates.find(t => t.name === e.target.value);
+              if (t) setOverrides({ ...t.overrides });
+            }}
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+          >
+            <option value="">Apply mapping template…</option>
+            {templates.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {report.duplicateFields.length > 0 && (
+        <div className="mx-4 mt-4 p-3 bg-yellow-900/20 border border-yellow-800 rounded text-xs text-yellow-300">
+          More than one row maps to {report.duplicateFields.map(f => FIELD_LABELS[f] ?? f).join(', ')} — the last row wins.
+        </div>
+      )}
+
+      <div className="overflow-x-auto p-4">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="py-2 px-2 text-left text-gray-500 w-[50px]">Row</th>
+              <th className="py-2 px-2 text-left text-gray-500">Source Row</th>
+              <th className="py-2 px-2 text-left text-gray-500 w-[90px]">Status</th>
+              <th className="py-2 px-2 text-left text-gray-500 w-[240px]">Field</th>
+              <th className="py-2 px-2 text-left text-gray-500 w-[100px]">Multiplier</th>
+              <th className="py-2 px-2 text-left text-gray-500">Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map((row, i) => {
+              const override = overrides[row.label];
+              const selected = override === undefined ? AUTO : override === null ? IGNORE : override.field;
+              const editable = i > 0;
+              return (
+                <tr key={row.rowNum} className={`border-b border-gray-800 ${row.status === 'unmatched' ? 'bg-yellow-900/10' : ''}`}>
+                  <td className="py-1.5 px-2 text-gray-600 font-mono">{row.rowNum}</td>
+                  <td className="py-1.5 px-2 text-gray-300 whitespace-nowrap">{row.label || <span className="text-gray-600">(blank)</span>}</td>
+                  <td className={`py-1.5 px-2 font-medium uppercase ${statusStyles[row.status]}`}>{row.status}</td>
+                  <td className="py-1.5 px-2">
+                    {editable && (
+                      <select
+                        value={selected}
+                        onChange={e => setMapping(row.label, e.target.value, row.multiply)}
+                        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+                      >
+                        <option value={AUTO}>Auto{row.status === 'mapped' && row.field ? ` — ${FIELD_LABELS[row.field] ?? row.field}` : ''}</option>
+                        <option value={IGNORE}>Ignore row</option>
+                        {Object.entries(FIELD_LABELS).map(([key, label]) => (
+                          <option key={key} value={key}>{label}</option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td className="py-1.5 px-2">
+                    {row.field && (
+                      override ? (
+                        <input
+                          type="number"
+                          value={override.multiply}
+                          onChange={e => setMapping(row.label, override.field, Number(e.target.value) || 1)}
+                          className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-right text-gray-300 focus:outline-none focus:border-red-500"
+                        />
+                      ) : (
+                        <span className="font-mono text-gray-400">×{row.multiply.toLocaleString()}</span>
+                      )
+                    )}
+                  </td>
+                  <td className={`py-1.5 px-2 ${row.warning ? 'text-yellow-300' : 'text-gray-500'}`}>
+                    {row.warning ?? row.reason ??(row.status === 'unmatched' ? `${row.values} values dropped — pick a field to load them` : `${row.values} values`)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {report.unparseable.length > 0 && (
+        <div className="mx-4 mb-4 p-3 bg-gray-800/50 rounded">
+          <div className="text-xs text-gray-500 mb-1">Unparseable Cells (left empty)</div>
+          <div className="space-y-0.5 max-h-40 overflow-y-auto">
+            {report.unparseable.map((c, i) => (
+              <div key={i} className="text-xs text-yellow-300 font-mono">
+                Row {c.rowNum}, col {c.column} — {c.label} / {c.week}: "{c.raw}"
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 px-4 pb-4">
+        <button
+          onClick={() => onCommit(report.weeks, overrides)}
+          className="text-xs bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded transition-colors"
+        >
+          Load Data
+        </button>
+        <button
+          onClick={onCancel}
+          className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-4 py-2 rounded transition-colors"
+        >
+          Back
+        </button>
+        <input
+          type="text"
+          value={templateName}
+          onChange={e => setTemplateName(e.target.value)}
+          placeholder="Template name"
+          className="ml-auto bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+        />
+        <button
+          onClick={handleSaveTemplate}
+          disabled={!templateName.trim() || Object.keys(overrides).length === 0}
+          className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors disabled:opacity-50"
+        >
+          Save Mapping Template
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import type { Module1Result, Module2Result } from '../types';
+import { buildHtmlReport, buildMarkdownReport, reportFileName, type ReportInput } from '../report';
+
+interface Props {
+  title: string;
+  currency: string;
+  module1: Module1Result;
+  module2: Module2Result | null;
+}
+
+function download(fileName: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ReportMenu({ title, currency, module1, module2 }: Props) {
+  const [open, setOpen] = useState(false);
+
+  const input = (): ReportInput => ({ title, currency, generatedAt: new Date(), module1, module2 });
+
+  const handleHtml = () => {
+    const report = input();
+    download(`${reportFileName(report)}.html`, buildHtmlReport(report), 'text/html');
+    setOpen(false);
+  };
+
+  const handleMarkdown = () => {
+    const report = input();
+    download(`${reportFileName(report)}.md`, buildMarkdownReport(report), 'text/markdown');
+    setOpen(false);
+  };
+
+  /** Open the HTML report in a new window and hand it to the browser's print dialog (Save as PDF) */
+  const handlePrint = () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(buildHtmlReport(input()));
+    win.document.close();
+    win.focus();
+    win.print();
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+      >
+        Report ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-40 bg-gray-900 border border-gray-700 rounded shadow-lg z-20 py-1">
+          <button onClick={handleHtml} className="block w-full text-left text-xs text-gray-300 hover:bg-gray-800 px-3 py-1.5">Download HTML</button>
+          <button onClick={handleMarkdown} className="block w-full text-left text-xs text-gray-300 hover:bg-gray-800 px-3 py-1.5">Download Markdown</button>
+          <button onClick={handlePrint} className="block w-full text-left text-xs text-gray-300 hover:bg-gray-800 px-3 py-1.5">Print / Save PDF</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import type { SavedAnalysis, Module1Result, Module2Result, WeekData, ResultSnapshot } from '../types';
+import { fetchAnalyses, postAnalysis } from '../api';
+import { compareSnapshots } from '../logic/snapshotCompare';
+import SnapshotCompare from './SnapshotCompare';
+
+interface Props {
+  workspaceId: string;
+  profileName: string;
+  currency: string;
+  weeks: WeekData[];
+  module1: Module1Result | null;
+  module2: Module2Result | null;
+  canSave: boolean;
+}
+
+/** Compare picker value for the data on screen; saved analyses use their id */
+const CURRENT = 'current';
+
+const verdictLabels: Record<string, string> = {
+  cm_problem: 'CM Problem',
+  volume_problem: 'Volume Problem',
+  both: 'Both Broken',
+  neither: 'Healthy',
+};
+
+const scaleColors: Record<string, string> = {
+  denied: 'text-red-400',
+  leak_hunt_only: 'text-yellow-400',
+  allowed: 'text-green-400',
+};
+
+const time = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Snapshots of the weeks and governor result saved to the server, so the whole team sees the same call and can compare */
+export default function SavedAnalyses({ workspaceId, profileName, currency, weeks, module1, module2, canSave }: Props) {
+  const [analyses, setAnalyses] = useState<SavedAnalysis[]>([]);
+  const [name, setName] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState(CURRENT);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalyses([]);
+    setCompareFrom('');
+    fetchAnalyses(workspaceId)
+      .then(list => { if (!cancelled) setAnalyses(list); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [workspaceId]);
+
+  const handleSave = async () => {
+    if (!module1 || !name.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await postAnalysis(workspaceId, {
+        name: name.trim(),
+        weekLabel: module1.latestWeek?.label ?? '',
+        profileName,
+        weeks,
+        module1,
+        module2,
+      });
+      setAnalyses(list => [saved, ...list]);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pick = (value: string): (ResultSnapshot & { name: string }) | null => {
+    if (value === CURRENT) return module1 ? { name: 'Current data', weeks, module1, module2 } : null;
+    return analyses.find(a => String(a.id) === value) ?? null;
+  };
+  const from = pick(compareFrom);
+  const to = pick(compareTo);
+  const missingWeeks = [from, to].find(snap => snap && snap.weeks.length === 0);
+  const comparison = from && to && compareFrom !== compareTo
+    ? { ...compareSnapshots(from, to), ...(missingWeeks ? { changes: [] } : {}) }
+    : null;
+
+  const snapshotOptions = (
+    <>
+      {module1 && <option value={CURRENT}>Current data</option>}
+      {analyses.map(a => <option key={a.id} value={a.id}>{a.name} ({time(a.createdAt)})</option>)}
+    </>
+  );
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-white">Snapshots</h2>
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+
+      {canSave && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+            placeholder={module1 ? 'Name this snapshot, e.g. "Board review Feb 8"' : 'Load data to save a snapshot'}
+            disabled={!module1}
+            className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-white focus:outline-none focus:border-red-500 disabled:opacity-50"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!module1 || !name.trim() || saving}
+            className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Freeze Snapshot'}
+          </button>
+        </div>
+      )}
+
+      {analyses.length > 0 && (
+        <div className="space-y-3 border border-gray-800 rounded p-3">
+          <div className="flex flex-wrap gap-2 items-center text-xs text-gray-400">
+            Compare
+            <select
+              value={compareFrom}
+              onChange={e => setCompareFrom(e.target.value)}
+              className="bg-gray-800 border border-gray-700 text-gray-300 px-2 py-1.5 rounded focus:outline-none focus:border-red-500"
+            >
+              <option value="">Pick a snapshot…</option>
+              {snapshotOptions}
+            </select>
+            with
+            <select
+              value={compareTo}
+              onChange={e => setCompareTo(e.target.value)}
+              className="bg-gray-800 border border-gray-700 text-gray-300 px-2 py-1.5 rounded focus:outline-none focus:border-red-500"
+            >
+              {snapshotOptions}
+            </select>
+          </div>
+          {comparison && missingWeeks && (
+            <p className="text-xs text-yellow-500">{missingWeeks.name} was saved without its weeks — only the calls can be compared.</p>
+          )}
+          {comparison && from && to && <SnapshotCompare beforeName={from.name} afterName={to.name} comparison={comparison} currency={currency} />}
+        </div>
+      )}
+
+      {analyses.length === 0 ? (
+        <p className="text-xs text-gray-500">No snapshots saved for this workspace yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-800">
+          {analyses.map(a => (
+            <div key={a.id} className="py-2">
+              <button onClick={() => setExpanded(expanded === a.id ? null : a.id)} className="w-full flex items-center gap-3 text-left text-xs">
+                <span className="font-medium text-white">{a.name}</span>
+                <span className="text-gray-500">{a.weekLabel}</span>
+                <span className="text-gray-400">{verdictLabels[a.module1.verdict]}</span>
+                <span className={`font-bold ${scaleColors[a.module1.scalePermission]}`}>{a.module1.scalePermission.replace(/_/g, ' ').toUpperCase()}</span>
+                <span className="ml-auto text-gray-600">{a.createdBy} · {time(a.createdAt)}</span>
+              </button>
+              {expanded === a.id && (
+                <div className="mt-2 pl-3 border-l border-gray-800 space-y-1 text-xs text-gray-400">
+                  <div>{a.module1.verdictExplanation}</div>
+                  <div>{a.module1.scaleReason}</div>
+                  <div>Biggest leak: {a.module1.biggestLeak}</div>
+                  {a.module2?.rcaSummary && <div>RCA: {a.module2.rcaSummary.rootCause}</div>}
+                  <div className="text-gray-600">Thresholds: {a.profileName}</div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useMemo } from 'react';
+import type { WeekData, GovernorConfig, Module1Result, Module2Result, Scenario, FunnelStep } from '../types';
+import { runModule1 } from '../logic/economicGovernor';
+import { runModule2 } from '../logic/funnelDiagnostician';
+import { applyScenario, isBaseline, BASELINE_SCENARIO } from '../logic/scenario';
+import { loadScenarios, saveScenarios } from '../workspaces';
+import { currencySymbol, formatMoney } from '../currency';
+
+interface Props {
+  weeks: WeekData[];
+  config: GovernorConfig;
+  currency: string;
+  workspaceId: string;
+  baseline: Module1Result;
+  baselineFunnel: Module2Result | null;
+}
+
+interface LeverDef {
+  key: 'cacPct' | 'aovDelta' | 'countPct';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const LEVERS: LeverDef[] = [
+  { key: 'cacPct', label: 'CAC', min: -50, max: 50, step: 1 },
+  { key: 'aovDelta', label: 'AOV', min: -50, max: 100, step: 1 },
+  { key: 'countPct', label: 'NC Count', min: -50, max: 100, step: 1 },
+];
+
+const verdictLabels: Record<string, string> = {
+  cm_problem: 'CM Problem',
+  volume_problem: 'Volume Problem',
+  both: 'Both Broken',
+  neither: 'Healthy',
+};
+
+const permissionLabels: Record<string, string> = {
+  denied: 'DENIED',
+  leak_hunt_only: 'LEAK HUNT ONLY',
+  allowed: 'ALLOWED',
+};
+
+const statusTextColors: Record<FunnelStep['status'], string> = {
+  pass: 'text-green-400',
+  fail: 'text-red-400',
+  warning: 'text-yellow-400',
+  no_data: 'text-gray-500',
+};
+
+export default function ScenarioPanel({ weeks, config, currency, workspaceId, baseline, baselineFunnel }: Props) {
+  const [scenario, setScenario] = useState<Scenario>({ ...BASELINE_SCENARIO, name: '' });
+  const [saved, setSaved] = useState<Scenario[]>(() => loadScenarios(workspaceId));
+  const symbol = currencySymbol(currency);
+
+  const scenarioResult = useMemo(() => {
+    if (isBaseline(scenario)) return null;
+    const module1 = runModule1(applyScenario(weeks, scenario), config);
+    return { module1, module2: runModule2(module1, config) };
+  }, [weeks, config, scenario]);
+
+  const formatLever = (lever: LeverDef, val: number) => {
+    const sign = val > 0 ? '+' : val < 0 ? '−' : '';
+    return lever.key === 'aovDelta' ? `${sign}${symbol}${Math.abs(val)}` : `${sign}${Math.abs(val)}%`;
+  };
+
+  const handleSave = () => {
+    const name = scenario.name.trim();
+    if (!name) return;
+    const entry = { ...scenario, name };
+    const updated = [...saved.filter(s => s.name !== name), entry];
+    setSaved(updated);
+    saveScenarios(workspaceId, updated);
+  };
+
+  const handleDelete = (name: string) => {
+    const updated = saved.filter(s => s.name !== name);
+    setSaved(updated);
+    saveScenarios(workspaceId, updated);
+  };
+
+  const s1 = scenarioResult?.module1;
+  const s2 = scenarioResult?.module2;
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="p-4 border-b border-gray-800">
+        <h2 className="text-lg font-bold text-white">What-If Scenarios</h2>
+        <p className="text-xs text-gray-500 mt-0.5">Overrides apply to every week with actuals. Saved data is never changed.</p>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LEVERS.map(lever => (
+          <label key={lever.key} className="text-xs space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-400">{lever.label}</span>
+              <span className="font-mono text-white">{formatLever(lever, scenario[lever.key])}</span>
+            </div>
+            <input
+              type="range"
+              min={lever.min}
+              max={lever.max}
+              step={lever.step}
+              value={scenario[lever.key]}
+              onChange={e => setScenario({ ...scenario, [lever.key]: Number(e.target.value) })}
+              className="w-full accent-red-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 pb-4">
+        <input
+          type="text"
+          value={scenario.name}
+          onChange={e => setScenario({ ...scenario, name: e.target.value })}
+          placeholder="Scenario name"
+          className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!scenario.name.trim() || isBaseline(scenario)}
+          className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-50"
+        >
+          Save Scenario
+        </button>
+        <button
+          onClick={() => setScenario({ ...BASELINE_SCENARIO, name: '' })}
+          className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+        >
+          Reset
+        </button>
+        {saved.map(s => (
+          <span key={s.name} className="flex items-center text-xs bg-gray-800 rounded">
+            <button onClick={() => setScenario(s)} className="px-2 py-1.5 text-gray-300 hover:text-white">
+              {s.name}
+            </button>
+            <button onClick={() => handleDelete(s.name)} className="pr-2 text-gray-600 hover:text-red-400">×</button>
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border-t border-gray-800">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="py-2 px-3 text-left text-gray-500 font-medium w-[180px]"></th>
+              <th className="py-2 px-3 text-left text-gray-500 font-medium">Baseline</th>
+              <th className="py-2 px-3 text-left text-gray-500 font-medium">{scenario.name.trim() || 'Scenario'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <CompareRow
+              label="Verdict"
+              base={verdictLabels[baseline.verdict]}
+              next={s1 && verdictLabels[s1.verdict]}
+            />
+            <CompareRow
+              label="Scale Permission"
+              base={permissionLabels[baseline.scalePermission]}
+              next={s1 && permissionLabels[s1.scalePermission]}
+            />
+            <CompareRow
+              label="CM Mirage"
+              base={baseline.cmMirage ? 'Yes' : 'No'}
+              next={s1 && (s1.cmMirage ? 'Yes' : 'No')}
+            />
+            <CompareRow
+              label="Unit CM (latest)"
+              base={baseline.latestWeek?.unitCmActual != null ? formatMoney(baseline.latestWeek.unitCmActual, currency) : '-'}
+              next={s1 && (s1.latestWeek?.unitCmActual != null ? formatMoney(s1.latestWeek.unitCmActual, currency) : '-')}
+            />
+            <CompareRow
+              label="Biggest Leak"
+              base={baseline.biggestLeak ? `${baseline.biggestLeak} (${formatMoney(baseline.biggestLeakDollars, currency)}/week)` : '-'}
+              next={s1 && (s1.biggestLeak ? `${s1.biggestLeak} (${formatMoney(s1.biggestLeakDollars, currency)}/week)` : '-')}
+            />
+            {baselineFunnel?.steps.map((step, i) => {
+              const next = s2?.steps[i];
+              return (
+                <tr key={step.step} className="border-b border-gray-800">
+                  <td className="py-2 px-3 text-gray-400 whitespace-nowrap">Step {step.step}. {step.title}</td>
+                  <td className={`py-2 px-3 font-bold uppercase ${statusTextColors[step.status]}`}>{step.status.replace('_', ' ')}</td>
+                  <td className={`py-2 px-3 font-bold uppercase ${next ? statusTextColors[next.status] : 'text-gray-600'} ${next && next.status !== step.status ? 'bg-gray-800/60' : ''}`}>
+                    {next ? next.status.replace('_', ' ') : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function CompareRow({ label, base, next }: { label: string; base: string; next: string | null | undefined }) {
+  const changed = next != null && next !== base;
+  return (
+    <tr className="border-b border-gray-800">
+      <td className="py-2 px-3 text-gray-400 whitespace-nowrap">{label}</td>
+      <td className="py-2 px-3 text-gray-300">{base}</td>
+      <td className={`py-2 px-3 ${next == null ? 'text-gray-600' : changed ? 'text-white font-medium bg-gray-800/60' : 'text-gray-300'}`}>
+        {next ?? 'Move a slider to simulate'}
+      </td>
+    </tr>
+  );
+}
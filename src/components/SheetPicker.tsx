@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import type { ImportedSheet } from '../fileImport';
+
+interface Props {
+  fileName: string;
+  sheets: ImportedSheet[];
+  initial?: number; // index of the sheet selected at first
+  onPick: (sheet: ImportedSheet) => void;
+}
+
+/** Choose which sheet of a multi-sheet workbook to read */
+export default function SheetPicker({ fileName, sheets, initial = 0, onPick }: Props) {
+  const [selected, setSelected] = useState(initial);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-gray-500">{fileName} has {sheets.length} sheets:</span>
+      <select
+        value={selected}
+        onChange={e => setSelected(Number(e.target.value))}
+        className="bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+      >
+        {sheets.map((s, i) => <option key={i} value={i}>{s.name}</option>)}
+      </select>
+      <button
+        onClick={() => onPick(sheets[selected])}
+        className="text-xs bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded transition-colors"
+      >
+        Use Sheet
+      </button>
+    </div>
+  );
+}
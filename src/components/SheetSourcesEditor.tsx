@@ -0,0 +1,126 @@
+import type { SheetSource } from '../types';
+import { isValidSheetSource, parseSheetUrl, sheetCsvUrl } from '../sheetSync';
+import { newSheetSourceId } from '../workspaces';
+import { requestNotificationPermission } from '../notify';
+
+interface Props {
+  sources: SheetSource[];
+  activeId: string | undefined;
+  viaProxy: boolean;
+  autoSyncMinutes: number;
+  onChange: (sources: SheetSource[]) => void;
+  onSelect: (id: string) => void;
+  onProxyChange: (viaProxy: boolean) => void;
+  onAutoSyncChange: (minutes: number) => void;
+}
+
+const AUTO_SYNC_OPTIONS = [0, 5, 15, 30, 60];
+
+const cellClass = 'w-full bg-gray-800 border rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-red-500';
+
+/** Google Sheets tabs this workspace can sync from — one is synced by "Sync from Sheet" */
+export default function SheetSourcesEditor({ sources, activeId, viaProxy, autoSyncMinutes, onChange, onSelect, onProxyChange, onAutoSyncChange }: Props) {
+  const selectedId = sources.some(s => s.id === activeId) ? activeId : sources[0]?.id;
+
+  const updateSource = (id: string, patch: Partial<SheetSource>) => {
+    onChange(sources.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  /** Pasting a full sheet URL into the ID field fills in both the ID and the gid */
+  const updateSpreadsheetId = (id: string, value: string) => {
+    const parsed = parseSheetUrl(value);
+    updateSource(id, parsed ?? { spreadsheetId: value.trim() });
+  };
+
+  const addSource = () => {
+    onChange([...sources, { id: newSheetSourceId(), label: `Sheet ${sources.length + 1}`, spreadsheetId: '', gid: '0' }]);
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <div className="text-xs text-gray-400 font-medium">Sheet Sources</div>
+          <div className="text-[10px] text-gray-600">The selected source is read by "Sync from Sheet". Paste a sheet URL into the ID field to fill in both values.</div>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-gray-400" title="Re-sync while the app is open; a change in scale permission sends a notification">
+            Auto-sync
+            <select
+              value={autoSyncMinutes}
+              onChange={e => {
+                const minutes = Number(e.target.value);
+                if (minutes > 0) requestNotificationPermission();
+                onAutoSyncChange(minutes);
+              }}
+              className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-red-500"
+            >
+              {AUTO_SYNC_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Off' : `Every ${m} min`}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-400" title="Needs `npm run server` — avoids browser CORS blocks">
+            <input type="checkbox" checked={viaProxy} onChange={e => onProxyChange(e.target.checked)} className="accent-red-600" />
+            Fetch through local proxy
+          </label>
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-700">
+            <th className="py-2 px-2 text-left text-gray-500 w-[60px]">Sync</th>
+            <th className="py-2 px-2 text-left text-gray-500 w-[200px]">Label</th>
+            <th className="py-2 px-2 text-left text-gray-500">Spreadsheet ID</th>
+            <th className="py-2 px-2 text-left text-gray-500 w-[130px]">gid</th>
+            <th className="py-2 px-2 w-[70px]" />
+          </tr>
+        </thead>
+        <tbody>
+          {sources.map(source => {
+            const valid = isValidSheetSource(source);
+            return (
+              <tr key={source.id} className="border-b border-gray-800">
+                <td className="py-1.5 px-2">
+                  <input type="radio" checked={source.id === selectedId} onChange={() => onSelect(source.id)} className="accent-red-600" />
+                </td>
+                <td className="py-1.5 px-2">
+                  <input type="text" value={source.label} onChange={e => updateSource(source.id, { label: e.target.value })} className={`${cellClass} border-gray-700`} />
+                </td>
+                <td className="py-1.5 px-2">
+                  <input
+                    type="text"
+                    value={source.spreadsheetId}
+                    onChange={e => updateSpreadsheetId(source.id, e.target.value)}
+                    placeholder="ID or https://docs.google.com/spreadsheets/d/…"
+                    className={`${cellClass} font-mono ${valid || !source.spreadsheetId ? 'border-gray-700' : 'border-red-600'}`}
+                  />
+                </td>
+                <td className="py-1.5 px-2">
+                  <input
+                    type="text"
+                    value={source.gid}
+                    onChange={e => updateSource(source.id, { gid: e.target.value.trim() })}
+                    className={`${cellClass} font-mono ${/^\d+$/.test(source.gid) ? 'border-gray-700' : 'border-red-600'}`}
+                  />
+                </td>
+                <td className="py-1.5 px-2 whitespace-nowrap text-right">
+                  {valid && (
+                    <a href={sheetCsvUrl(source)} target="_blank" rel="noreferrer" className="text-gray-500 hover:text-gray-300 px-1" title="Open the CSV export">↗</a>
+                  )}
+                  <button onClick={() => onChange(sources.filter(s => s.id !== source.id))} className="text-gray-500 hover:text-red-400 px-1" title="Delete source">✕</button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <button
+        onClick={addSource}
+        className="mt-3 text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 px-3 py-1.5 rounded transition-colors"
+      >
+        + Add Source
+      </button>
+    </div>
+  );
+}
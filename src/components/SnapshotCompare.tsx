@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import type { SnapshotComparison, RcaField, Shift } from '../types';
+import { describeChange } from '../logic/weekDiff';
+import { formatMoney } from '../currency';
+
+interface Props {
+  beforeName: string;
+  afterName: string;
+  comparison: SnapshotComparison;
+  currency: string;
+}
+
+const verdictLabels: Record<string, string> = {
+  cm_problem: 'CM Problem',
+  volume_problem: 'Volume Problem',
+  both: 'Both Broken',
+  neither: 'Healthy',
+};
+
+const scaleLabels: Record<string, string> = {
+  denied: 'DENIED',
+  leak_hunt_only: 'LEAK HUNT ONLY',
+  allowed: 'ALLOWED',
+};
+
+const RCA_LABELS: Record<RcaField, string> = {
+  action: 'Action',
+  rootCause: 'Root cause',
+  discussion: 'Discussion',
+  solve: 'Solve',
+  doNotDo: 'Do not do',
+};
+
+const MAX_LISTED_CHANGES = 30;
+
+function ShiftRow({ label, shift, render }: { label: string; shift: Shift<string>; render?: (v: string) => string }) {
+  const changed = shift.before !== shift.after;
+  const show = render ?? ((v: string) => v);
+  return (
+    <tr className="border-b border-gray-800 align-top">
+      <td className="py-2 pr-3 text-gray-500 whitespace-nowrap">{label}</td>
+      <td className="py-2 pr-3 text-gray-400">{show(shift.before) || '—'}</td>
+      <td className={`py-2 ${changed ? 'text-yellow-300 font-medium' : 'text-gray-400'}`}>
+        {changed ? show(shift.after) || '—' : 'unchanged'}
+      </td>
+    </tr>
+  );
+}
+
+/** Field-level differences between two snapshots and how the verdict, leak and RCA moved with them */
+export default function SnapshotCompare({ beforeName, afterName, comparison, currency }: Props) {
+  const [showAll, setShowAll] = useState(false);
+  const { changes, verdict, scalePermission, biggestLeak, biggestLeakDollars, rca } = comparison;
+  const listed = showAll ? changes : changes.slice(0, MAX_LISTED_CHANGES);
+
+  return (
+    <div className="space-y-4 text-xs">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-700 text-left">
+            <th className="py-2 pr-3 text-gray-500 font-medium" />
+            <th className="py-2 pr-3 text-gray-300 font-semibold">{beforeName}</th>
+            <th className="py-2 text-gray-300 font-semibold">{afterName}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <ShiftRow label="Verdict" shift={verdict} render={v => verdictLabels[v]} />
+          <ShiftRow label="Scale permission" shift={scalePermission} render={v => scaleLabels[v]} />
+          <ShiftRow label="Biggest leak" shift={biggestLeak} />
+          <ShiftRow
+            label="Leak $ per customer"
+            shift={{ before: String(biggestLeakDollars.before), after: String(biggestLeakDollars.after) }}
+            render={v => formatMoney(Number(v), currency)}
+          />
+          {rca.map(r => (
+            <ShiftRow key={r.field} label={`RCA: ${RCA_LABELS[r.field]}`} shift={{ before: r.before ?? '', after: r.after ?? '' }} />
+          ))}
+        </tbody>
+      </table>
+
+      <div>
+        <div className="text-gray-500 mb-1">
+          {changes.length === 0 ? 'No input values differ.' : `${changes.length} input value${changes.length === 1 ? '' : 's'} differ`}
+        </div>
+        <ul className="font-mono text-gray-300 space-y-0.5">
+          {listed.map(c => <li key={`${c.label}:${c.field}`}>{describeChange(c)}</li>)}
+        </ul>
+        {changes.length > MAX_LISTED_CHANGES && (
+          <button onClick={() => setShowAll(!showAll)} className="mt-1 text-gray-500 hover:text-gray-300">
+            {showAll ? 'Show fewer' : `Show all ${changes.length}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
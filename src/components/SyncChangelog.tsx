@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import type { SyncLogEntry, ScalePermission } from '../types';
+import { describeChange } from '../logic/weekDiff';
+
+interface Props {
+  entries: SyncLogEntry[]; // newest first
+  onDismiss: () => void;
+}
+
+const PERMISSION_LABELS: Record<ScalePermission, string> = {
+  denied: 'DENIED',
+  leak_hunt_only: 'LEAK HUNT ONLY',
+  allowed: 'ALLOWED',
+};
+
+const MAX_LISTED_CHANGES = 12;
+
+function EntryLine({ entry }: { entry: SyncLogEntry }) {
+  const time = new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return (
+    <div className="text-xs text-gray-500">
+      <span className="font-mono text-gray-400">{time}</span> {entry.auto ? 'Auto-sync' : 'Sync'} of {entry.sourceLabel} —{' '}
+      {entry.changes.length === 0 ? 'no changes' : `${entry.changes.length} change${entry.changes.length === 1 ? '' : 's'}`}
+    </div>
+  );
+}
+
+/** What the last syncs changed in Tier 1, and any scale-permission flip they caused */
+export default function SyncChangelog({ entries, onDismiss }: Props) {
+  const [showAll, setShowAll] = useState(false);
+  const [latest, ...older] = entries;
+  if (!latest) return null;
+
+  const listed = showAll ? latest.changes : latest.changes.slice(0, MAX_LISTED_CHANGES);
+
+  return (
+    <div className={`bg-gray-900 rounded-lg border p-4 ${latest.permissionChange ? 'border-red-700' : 'border-gray-800'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <EntryLine entry={latest} />
+          {latest.permissionChange && (
+            <div className="text-sm font-bold text-red-400">
+              Scale permission changed: {PERMISSION_LABELS[latest.permissionChange.from]} → {PERMISSION_LABELS[latest.permissionChange.to]}
+            </div>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-xs text-gray-500 hover:text-gray-300" title="Clear sync log">✕</button>
+      </div>
+
+      {listed.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {listed.map((c, i) => (
+            <li key={i} className={`text-xs font-mono ${c.kind === 'removed' ? 'text-yellow-300' : 'text-gray-300'}`}>{describeChange(c)}</li>
+          ))}
+        </ul>
+      )}
+      {latest.changes.length > MAX_LISTED_CHANGES && (
+        <button onClick={() => setShowAll(!showAll)} className="mt-1 text-xs text-gray-500 hover:text-gray-300">
+          {showAll ? 'Show fewer' : `Show all ${latest.changes.length} changes`}
+        </button>
+      )}
+
+      {older.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-gray-800 space-y-0.5">
+          {older.map(entry => <EntryLine key={entry.at} entry={entry} />)}
+        </div>
+      )}
+    </div>
+  );
+}
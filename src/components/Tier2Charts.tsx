@@ -0,0 +1,76 @@
+import type { CalculatedWeek, GovernorConfig } from '../types';
+import { currencySymbol } from '../currency';
+import LineChart from './LineChart';
+
+interface Props {
+  weeks: CalculatedWeek[];
+  config: GovernorConfig;
+  currency: string;
+}
+
+const SERIES_COLOR = '#eab308';
+const WARN_COLOR = '#ca8a04';
+const FAIL_COLOR = '#dc2626';
+
+/** Tier 2 funnel metrics with the active profile's thresholds overlaid */
+export default function Tier2Charts({ weeks, config, currency }: Props) {
+  const labels = weeks.map(w => w.label || `WK ${w.weekNum}`);
+  const symbol = currencySymbol(currency);
+  const series = (label: string, pick: (w: CalculatedWeek) => number | null) => [
+    { label, color: SERIES_COLOR, values: weeks.map(pick) },
+  ];
+  const pct = (v: number) => `${v.toFixed(1)}%`;
+  const ratio = (v: number) => v.toFixed(2);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 px-4 pb-4">
+      <LineChart
+        title="CPM"
+        labels={labels}
+        series={series('CPM', w => w.cpm)}
+        thresholds={[{ label: 'Ceiling', value: config.cpmCeiling, color: WARN_COLOR }]}
+        format={v => `${symbol}${v.toFixed(0)}`}
+      />
+      <LineChart
+        title="CTR"
+        labels={labels}
+        series={series('CTR', w => w.ctr)}
+        thresholds={[
+          { label: 'Warn', value: config.ctrWarn, color: WARN_COLOR },
+          { label: 'Fail', value: config.ctrFail, color: FAIL_COLOR },
+        ]}
+        format={pct}
+      />
+      <LineChart
+        title="Frequency"
+        labels={labels}
+        series={series('Frequency', w => w.frequency)}
+        thresholds={[
+          { label: 'Warn', value: config.frequencyWarn, color: WARN_COLOR },
+          { label: 'Fail', value: config.frequencyFail, color: FAIL_COLOR },
+        ]}
+        format={v => v.toFixed(1)}
+      />
+      <LineChart
+        title="Click / Session Ratio"
+        labels={labels}
+        series={series('Ratio', w => w.clickSessionRatio)}
+        thresholds={[
+          { label: 'Warn', value: config.clickSessionWarn, color: WARN_COLOR },
+          { label: 'Fail', value: config.clickSessionFail, color: FAIL_COLOR },
+        ]}
+        format={ratio}
+      />
+      <LineChart
+        title="Site CVR"
+        labels={labels}
+        series={series('CVR', w => w.cvr)}
+        thresholds={[
+          { label: 'Warn', value: config.cvrWarn, color: WARN_COLOR },
+          { label: 'Fail', value: config.cvrFail, color: FAIL_COLOR },
+        ]}
+        format={pct}
+      />
+    </div>
+  );
+}
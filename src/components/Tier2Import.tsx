@@ -0,0 +1,122 @@
+import { useState, useRef } from 'react';
+import type { WeekData } from '../types';
+import type { Tier2Map } from '../sheets';
+import { parseDelimited } from '../csv';
+import { readScorecardFile, ACCEPTED_EXTENSIONS, type ImportedSheet } from '../fileImport';
+import { importTier2Export, detectTier2Export, type Tier2ImportResult } from '../tier2Import';
+import SheetPicker from './SheetPicker';
+
+interface Props {
+  weeks: WeekData[];
+  onImport: (tier2: Tier2Map) => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof WeekData, string>> = {
+  cpm: 'CPM',
+  ctr: 'CTR',
+  cpc: 'CPC',
+  frequency: 'Frequency',
+  metaClicks: 'Meta Clicks',
+  shopifySessions: 'Shopify Sessions',
+  cvr: 'Site CVR',
+};
+
+const SOURCE_LABELS: Record<Tier2ImportResult['kind'], string> = {
+  meta: 'Meta Ads',
+  shopify: 'Shopify',
+};
+
+/** Whether a workbook sheet's header row is a Meta or Shopify export's — the picker starts on the first that is */
+function isExportSheet(sheet: ImportedSheet): boolean {
+  try {
+    const header = parseDelimited(sheet.tsv, '\t').find(r => r.some(c => c.trim() !== ''));
+    return header != null && detectTier2Export(header) != null;
+  } catch {
+    return false;
+  }
+}
+
+/** Read a daily Meta Ads Manager or Shopify export — rows are summed into the scorecard's weeks and handed over for review */
+export default function Tier2Import({ weeks, onImport }: Props) {
+  const [result, setResult] = useState<Tier2ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<ImportedSheet[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    setSheets([]);
+    setFileName(file.name);
+    try {
+      const imported = await readScorecardFile(file);
+      if (imported.length === 1) handleSheet(imported[0], file.name);
+      else setSheets(imported);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not read ${file.name}`);
+    }
+  };
+
+  const handleSheet = (sheet: ImportedSheet, name: string) => {
+    setError(null);
+    setResult(null);
+    try {
+      const imported = importTier2Export(parseDelimited(sheet.tsv, '\t'), weeks);
+      if (Object.keys(imported.tier2).length === 0) {
+        setError(`${name} has no rows inside the scorecard's weeks (${imported.rowsOutsideWeeks} rows outside)`);
+        return;
+      }
+      setSheets([]);
+      onImport(imported.tier2);
+      setResult(imported);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not read ${name}`);
+    }
+  };
+
+  return (
+    <div className="px-5 py-4 space-y-2 bg-gray-800/30">
+      <p className="text-sm text-gray-400">
+        Import a <span className="text-yellow-500 font-medium">Meta Ads Manager</span> export (breakdown by day, with Amount spent, Impressions, Reach, Link clicks)
+        or a <span className="text-yellow-500 font-medium">Shopify</span> sessions / conversion rate report by day. Days are summed into the scorecard weeks; the values each week would change are shown for review before anything is replaced.
+      </p>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="text-sm bg-yellow-700 hover:bg-yellow-600 text-white px-5 py-2 rounded-lg font-medium transition-colors"
+        >
+          Choose Export File
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        {sheets.length > 1 && (
+          <SheetPicker
+            key={fileName}
+            fileName={fileName}
+            sheets={sheets}
+            initial={Math.max(0, sheets.findIndex(isExportSheet))}
+            onPick={sheet => handleSheet(sheet, `${fileName} (${sheet.name})`)}
+          />
+        )}
+        {error && <span className="text-xs text-red-400">{error}</span>}
+        {result && (
+          <span className="text-xs text-green-400">
+            {SOURCE_LABELS[result.kind]}: {Object.keys(result.tier2).length} weeks read
+            ({result.fields.map(f => FIELD_LABELS[f] ?? f).join(', ')}) from {result.rowsImported} rows — review the changes above
+            {result.rowsOutsideWeeks > 0 && <span className="text-yellow-400"> · {result.rowsOutsideWeeks} rows outside the scorecard weeks skipped</span>}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { CalculatedWeek } from '../types';
+import { formatMoney } from '../currency';
+import LineChart from './LineChart';
+
+interface Props {
+  weeks: CalculatedWeek[];
+  currency: string;
+}
+
+const FORECAST_COLOR = '#6b7280';
+const ACTUAL_COLOR = '#f87171';
+
+/** Forecast vs actual trends for the Tier 1 economics */
+export default function TrendCharts({ weeks, currency }: Props) {
+  const labels = weeks.map(w => w.label || `WK ${w.weekNum}`);
+  const money = (v: number) => formatMoney(v, currency);
+  const count = (v: number) => v.toFixed(0);
+
+  const pair = (forecast: (w: CalculatedWeek) => number | null, actual: (w: CalculatedWeek) => number | null) => [
+    { label: 'Forecast', color: FORECAST_COLOR, values: weeks.map(forecast), dashed: true },
+    { label: 'Actual', color: ACTUAL_COLOR, values: weeks.map(actual) },
+  ];
+
+  return (
+    <div className="mx-4 mb-4 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+      <LineChart title="1st Order CM" labels={labels} series={pair(w => w.cmForecast, w => w.cmActual)} format={money} />
+      <LineChart title="1st Order Count" labels={labels} series={pair(w => w.countForecast, w => w.countActual)} format={count} />
+      <LineChart title="Unit CM per Customer" labels={labels} series={pair(w => w.unitCmForecast, w => w.unitCmActual)} format={money} />
+      <LineChart title="NC AOV" labels={labels} series={pair(w => w.aovForecast, w => w.aovActual)} format={money} />
+      <LineChart title="CAC" labels={labels} series={pair(w => w.cacForecast, w => w.cacActual)} format={money} />
+      <LineChart
+        title="CAC − AOV Gap (above zero = losing money)"
+        labels={labels}
+        series={[{ label: 'Gap', color: ACTUAL_COLOR, values: weeks.map(w => w.cacAovGap) }]}
+        thresholds={[{ label: 'Break-even', value: 0, color: '#16a34a' }]}
+        format={money}
+      />
+    </div>
+  );
+}
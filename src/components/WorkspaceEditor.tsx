@@ -0,0 +1,84 @@
+import type { Workspace, ThresholdProfile } from '../types';
+import { CURRENCIES } from '../currency';
+import { DEFAULT_MAPPING_RULES } from '../data/defaultMappingRules';
+import MappingRulesEditor from './MappingRulesEditor';
+import SheetSourcesEditor from './SheetSourcesEditor';
+
+interface Props {
+  workspace: Workspace;
+  profiles: ThresholdProfile[];
+  canDelete: boolean;
+  onChange: (workspace: Workspace) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-red-500';
+
+export default function WorkspaceEditor({ workspace, profiles, canDelete, onChange, onDelete }: Props) {
+  const update = <K extends keyof Workspace>(key: K, value: Workspace[K]) => {
+    onChange({ ...workspace, [key]: value });
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800">
+        <div>
+          <h2 className="text-lg font-bold text-white">Workspace — {workspace.name}</h2>
+          <p className="text-xs text-gray-500 mt-0.5">Each workspace keeps its own Tier 1 source, Tier 2 data, thresholds and currency.</p>
+        </div>
+        {canDelete && (
+          <button
+            onClick={() => onDelete(workspace.id)}
+            className="text-xs bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-red-400 px-3 py-1.5 rounded transition-colors"
+          >
+            Delete Workspace
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 text-xs">
+        <label className="space-y-1">
+          <span className="text-gray-500">Name</span>
+          <input type="text" value={workspace.name} onChange={e => update('name', e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500">Currency</span>
+          <select value={workspace.currency} onChange={e => update('currency', e.target.value)} className={inputClass}>
+            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500">Market flag (rows flagged for other markets are skipped)</span>
+          <input type="text" value={workspace.marketFlag} onChange={e => update('marketFlag', e.target.value.trim())} placeholder="e.g. 🇨🇦 — blank accepts all rows" className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500">Threshold profile</span>
+          <select value={workspace.profileName} onChange={e => update('profileName', e.target.value)} className={inputClass}>
+            {!profiles.some(p => p.name === workspace.profileName) && (
+              <option value={workspace.profileName} disabled>{workspace.profileName} (missing)</option>
+            )}
+            {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <SheetSourcesEditor
+        sources={workspace.sheetSources}
+        activeId={workspace.activeSheetSourceId}
+        viaProxy={workspace.syncViaProxy ?? false}
+        autoSyncMinutes={workspace.autoSyncMinutes ?? 0}
+        onChange={sources => update('sheetSources', sources)}
+        onSelect={id => update('activeSheetSourceId', id)}
+        onProxyChange={viaProxy => update('syncViaProxy', viaProxy)}
+        onAutoSyncChange={minutes => update('autoSyncMinutes', minutes)}
+      />
+
+      <MappingRulesEditor
+        rules={workspace.mappingRules ?? DEFAULT_MAPPING_RULES}
+        isDefault={workspace.mappingRules == null}
+        onChange={rules => update('mappingRules', rules)}
+        onReset={() => update('mappingRules', undefined)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useMemo } from 'react';
+import type { Workspace, ThresholdProfile, Module1Result } from '../types';
+import { runModule1 } from '../logic/economicGovernor';
+import { loadWorkspaceWeeks } from '../workspaces';
+import { formatMoney } from '../currency';
+
+interface Props {
+  workspaces: Workspace[];
+  profiles: ThresholdProfile[];
+  activeId: string;
+  onOpen: (id: string) => void;
+}
+
+const verdictLabels: Record<string, string> = {
+  cm_problem: 'CM Problem',
+  volume_problem: 'Volume Problem',
+  both: 'Both Broken',
+  neither: 'Healthy',
+};
+
+const verdictColors: Record<string, string> = {
+  cm_problem: 'text-red-400',
+  volume_problem: 'text-yellow-400',
+  both: 'text-red-400',
+  neither: 'text-green-400',
+};
+
+const scaleColors: Record<string, string> = {
+  denied: 'text-red-400',
+  leak_hunt_only: 'text-yellow-400',
+  allowed: 'text-green-400',
+};
+
+export default function WorkspaceOverview({ workspaces, profiles, activeId, onOpen }: Props) {
+  const results = useMemo(() => workspaces.map(ws => {
+    const profile = profiles.find(p => p.name === ws.profileName);
+    const weeks = loadWorkspaceWeeks(ws);
+    const hasData = weeks.some(w => w.adSpend != null || w.cmActual != null || w.countActual != null);
+    // No verdict on someone else's thresholds when the workspace's profile is gone
+    return { workspace: ws, result: profile && hasData ? runModule1(weeks, profile.config) : null, profileMissing: !profile };
+  }), [workspaces, profiles]);
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="p-4 border-b border-gray-800">
+        <h2 className="text-lg font-bold text-white">Workspace Overview</h2>
+        <p className="text-xs text-gray-500 mt-0.5">Module 1 verdict for every workspace, each with its own thresholds.</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="py-2 px-3 text-left text-gray-500 font-medium">Metric</th>
+              {results.map(({ workspace, profileMissing }) => (
+                <th key={workspace.id} className="py-2 px-3 text-left">
+                  <button
+                    onClick={() => onOpen(workspace.id)}
+                    className={`font-semibold hover:text-red-400 transition-colors ${workspace.id === activeId ? 'text-white' : 'text-gray-400'}`}
+                  >
+                    {workspace.marketFlag} {workspace.name}
+                  </button>
+                  <div className="text-[10px] text-gray-600 font-normal">
+                    {workspace.currency} · {workspace.profileName}
+                    {profileMissing && <span className="text-yellow-500"> (missing)</span>}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <OverviewRow label="Verdict" results={results} render={(r) => (
+              <span className={`font-bold ${verdictColors[r.verdict]}`}>{verdictLabels[r.verdict]}</span>
+            )} />
+            <OverviewRow label="Scale Permission" results={results} render={(r) => (
+              <span className={`font-bold ${scaleColors[r.scalePermission]}`}>
+                {r.scalePermission === 'denied' ? 'DENIED' : r.scalePermission === 'leak_hunt_only' ? 'LEAK HUNT ONLY' : 'ALLOWED'}
+              </span>
+            )} />
+            <OverviewRow label="Latest Week" results={results} render={(r) => r.latestWeek?.label ?? '-'} />
+            <OverviewRow label="Unit CM (actual / plan)" results={results} render={(r, ws) => {
+              const w = r.latestWeek;
+              if (w?.unitCmActual == null) return '-';
+              return `${formatMoney(w.unitCmActual, ws.currency)} / ${w.unitCmForecast != null ? formatMoney(w.unitCmForecast, ws.currency) : '?'}`;
+            }} />
+            <OverviewRow label="Count PvA" results={results} render={(r) => r.latestWeek?.countPva != null ? `${r.latestWeek.countPva.toFixed(0)}%` : '-'} />
+            <OverviewRow label="CM Mirage" results={results} render={(r) => r.cmMirage ? <span className="text-orange-400 font-bold">Yes</span> : 'No'} />
+            <OverviewRow label="Biggest Leak" results={results} render={(r, ws) => r.biggestLeak
+              ? <>{r.biggestLeak} <span className="text-red-400">({formatMoney(r.biggestLeakDollars, ws.currency)}/week)</span></>
+              : '-'} />
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function OverviewRow({ label, results, render }: {
+  label: string;
+  results: { workspace: Workspace; result: Module1Result | null; profileMissing: boolean }[];
+  render: (result: Module1Result, workspace: Workspace) => React.ReactNode;
+}) {
+  return (
+    <tr className="border-b border-gray-800 align-top">
+      <td className="py-2 px-3 text-gray-400 whitespace-nowrap">{label}</td>
+      {results.map(({ workspace, result, profileMissing }) => (
+        <td key={workspace.id} className="py-2 px-3 text-gray-300 min-w-[200px]">
+          {result
+            ? render(result, workspace)
+            : <span className={profileMissing ? 'text-yellow-600' : 'text-gray-600'}>{profileMissing ? 'Profile missing' : 'No data'}</span>}
+        </td>
+      ))}
+    </tr>
+  );
+}
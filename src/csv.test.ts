@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelimited, toDelimited, detectDelimiter, CsvParseError } from './csv';
+
+describe('parseDelimited', () => {
+  it('splits rows and cells', () => {
+    expect(parseDelimited('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps delimiters inside quoted cells intact', () => {
+    expect(parseDelimited('Ad Spend,"$1,200",$900')).toEqual([['Ad Spend', '$1,200', '$900']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseDelimited('"NC ""new"" AOV",1')).toEqual([['NC "new" AOV', '1']]);
+  });
+
+  it('keeps line breaks inside quoted cells', () => {
+    expect(parseDelimited('"CAC\nActuals",90\nCount,20')).toEqual([['CAC\nActuals', '90'], ['Count', '20']]);
+  });
+
+  it('accepts CRLF and CR line endings', () => {
+    expect(parseDelimited('a,b\r\n1,2\r3,4\r\n')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('keeps tabs inside quoted TSV cells', () => {
+    expect(parseDelimited('"a\tb"\tc', '\t')).toEqual([['a\tb', 'c']]);
+  });
+
+  it('keeps empty and trailing cells', () => {
+    expect(parseDelimited('a,,c,\n')).toEqual([['a', '', 'c', '']]);
+  });
+
+  it('keeps a stray quote inside an unquoted cell', () => {
+    expect(parseDelimited('5" screen,1')).toEqual([['5" screen', '1']]);
+  });
+
+  it('reports the position of an unterminated quoted cell', () => {
+    try {
+      parseDelimited('a,b\n1,"2\n3,4');
+      expect.fail('should throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(CsvParseError);
+      expect(err).toMatchObject({ row: 2, column: 2 });
+    }
+  });
+
+  it('rejects text after a closing quote', () => {
+    expect(() => parseDelimited('a,"b"x,c')).toThrow(/row 1, column 2/);
+  });
+});
+
+describe('toDelimited', () => {
+  it('round-trips cells with delimiters, quotes and line breaks', () => {
+    const rows = [['a\tb', 'say "hi"', 'two\nlines', '$1,200']];
+    expect(parseDelimited(toDelimited(rows, '\t'), '\t')).toEqual(rows);
+    expect(parseDelimited(toDelimited(rows, ','), ',')).toEqual(rows);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers tabs and falls back to commas', () => {
+    expect(detectDelimiter('Date\t28 Dec,1\nx')).toBe('\t');
+    expect(detectDelimiter('Date,28 Dec\nx')).toBe(',');
+    expect(detectDelimiter('Date')).toBe('\t');
+  });
+});
@@ -0,0 +1,90 @@
+/** Malformed CSV/TSV input. Row and column are 1-based, counted in records and cells. */
+export class CsvParseError extends Error {
+  readonly row: number;
+  readonly column: number;
+
+  constructor(message: string, row: number, column: number) {
+    super(`${message} (row ${row}, column ${column})`);
+    this.name = 'CsvParseError';
+    this.row = row;
+    this.column = column;
+  }
+}
+
+export type Delimiter = ',' | '\t';
+
+/**
+ * Read RFC 4180 delimited text into rows of cells.
+ *
+ * - Quoted cells may contain the delimiter, line breaks and `""` escaped quotes
+ * - Accepts `\r\n`, `\n` and `\r` line endings
+ * - A quote inside an unquoted cell is kept literally (Sheets and Excel export these)
+ * - Throws CsvParseError for an unterminated quoted cell or text after a closing quote
+ */
+export function parseDelimited(text: string, delimiter: Delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let i = 0;
+  let cellStart = true;
+
+  const endCell = () => { row.push(cell); cell = ''; cellStart = true; };
+  const endRow = () => { endCell(); rows.push(row); row = []; };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (cellStart && ch === '"') {
+      // Quoted cell — read to the closing quote
+      const startRow = rows.length + 1;
+      const startCol = row.length + 1;
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new CsvParseError('Unterminated quoted cell', startRow, startCol);
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') { cell += '"'; i += 2; continue; }
+          i++;
+          break;
+        }
+        cell += text[i++];
+      }
+      const next = text[i];
+      if (next !== undefined && next !== delimiter && next !== '\n' && next !== '\r') {
+        throw new CsvParseError(`Unexpected "${next}" after closing quote`, startRow, startCol);
+      }
+      cellStart = false;
+      continue;
+    }
+
+    cellStart = false;
+    if (ch === delimiter) {
+      endCell();
+      i++;
+    } else if (ch === '\r' || ch === '\n') {
+      endRow();
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      cell += ch;
+      i++;
+    }
+  }
+
+  // Final record, unless the text ended with a line break
+  if (!cellStart || row.length > 0) endRow();
+
+  return rows;
+}
+
+/** Write rows as delimited text, quoting cells that contain the delimiter, quotes or line breaks */
+export function toDelimited(rows: string[][], delimiter: Delimiter = ','): string {
+  const needsQuotes = (cell: string) => cell.includes(delimiter) || /["\r\n]/.test(cell);
+  return rows
+    .map(row => row.map(cell => needsQuotes(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(delimiter))
+    .join('\n');
+}
+
+/** Guess the delimiter from the first line: tabs win, otherwise commas */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.slice(0, text.search(/\r|\n|$/));
+  return firstLine.includes('\t') || !firstLine.includes(',') ? '\t' : ',';
+}
@@ -0,0 +1,17 @@
+/** Narrow currency symbol for an ISO 4217 code, e.g. "USD" → "$", "GBP" → "£" */
+export function currencySymbol(code: string): string {
+  try {
+    const parts = new Intl.NumberFormat('en', { style: 'currency', currency: code, currencyDisplay: 'narrowSymbol' }).formatToParts(0);
+    return parts.find(p => p.type === 'currency')?.value ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/** Format a money amount with the workspace currency symbol, e.g. -1234 → "-$1,234" */
+export function formatMoney(val: number, code: string): string {
+  const sign = val < 0 ? '-' : '';
+  return `${sign}${currencySymbol(code)}${Math.abs(val).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+export const CURRENCIES = ['USD', 'CAD', 'GBP', 'EUR', 'AUD', 'NZD'];
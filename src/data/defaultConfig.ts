@@ -0,0 +1,35 @@
+import type { GovernorConfig } from '../types';
+
+/** Built-in thresholds — the original hard-coded decision lines */
+export const DEFAULT_GOVERNOR_CONFIG: GovernorConfig = {
+  volumeProblemPva: 70,
+  volumeLookbackWeeks: 3,
+  cmProblemMultiple: 2,
+  mirageCmPva: 95,
+  mirageCountPva: 50,
+
+  spendOrderTolerance: 15,
+  cpmCeiling: 30,
+  ctrFail: 1.0,
+  ctrWarn: 1.5,
+  frequencyWarn: 2,
+  frequencyFail: 3,
+  clickSessionWarn: 1.2,
+  clickSessionFail: 1.5,
+  cvrFail: 1.5,
+  cvrWarn: 2.5,
+  ncCountPass: 85,
+  ncCountWarn: 50,
+  unitCmFail: -50,
+
+  pvaGreen: 95,
+  pvaYellow: 85,
+  cacPvaGreen: 105,
+  cacPvaYellow: 120,
+
+  pvaCrossCheckTolerance: 5,
+  cacSpendTolerance: 15,
+  aovJumpMultiple: 2,
+};
+
+export const DEFAULT_PROFILE_NAME = 'Default';
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { csvToTsv } from './defaultData';
+
+describe('csvToTsv', () => {
+  it('converts commas to tabs', () => {
+    expect(csvToTsv('a,b,c\n1,2,3')).toBe('a\tb\tc\n1\t2\t3');
+  });
+
+  it('keeps commas inside quoted cells', () => {
+    expect(csvToTsv('Ad Spend,"$1,200","$900"')).toBe('Ad Spend\t$1,200\t$900');
+  });
+
+  it('keeps empty cells', () => {
+    expect(csvToTsv('CAC,$90,,')).toBe('CAC\t$90\t\t');
+  });
+
+  it('handles escaped quotes and CRLF line endings', () => {
+    expect(csvToTsv('"NC ""new"" AOV",$60\r\nCAC,$90\r\n')).toBe('"NC ""new"" AOV"\t$60\nCAC\t$90');
+  });
+
+  it('quotes cells that contain tabs so they survive the TSV round trip', () => {
+    expect(csvToTsv('"a\tb",c')).toBe('"a\tb"\tc');
+  });
+});
@@ -1,24 +1,28 @@
+import type { SheetSource, Workspace } from '../types';
+import { parseDelimited, toDelimited } from '../csv';
+import { DEFAULT_PROFILE_NAME } from './defaultConfig';
+
 /** Google Sheets source for live sync */
-export const SHEET_CSV_URL =
-  'https://docs.google.com/spreadsheets/d/1sE1p-OfzS013SPOX4kubi3q-Jy5KN9kqHY9rFYPNhZs/export?format=csv&gid=289043970';
+export const DEFAULT_SHEET_SOURCE: SheetSource = {
+  id: 'traction-scorecard',
+  label: 'Traction Scorecard',
+  spreadsheetId: '1sE1p-OfzS013SPOX4kubi3q-Jy5KN9kqHY9rFYPNhZs',
+  gid: '289043970',
+};
+
+/** The built-in workspace — the server creates it on first start, so it exists for every teammate */
+export const DEFAULT_WORKSPACE: Workspace = {
+  id: 'us',
+  name: 'US',
+  currency: 'USD',
+  marketFlag: '🇺🇲',
+  sheetSources: [DEFAULT_SHEET_SOURCE],
+  profileName: DEFAULT_PROFILE_NAME,
+};
 
-/** Convert CSV text to TSV (handles quoted cells) */
+/** Convert CSV text to TSV — cells containing tabs, quotes or line breaks stay quoted */
 export function csvToTsv(csv: string): string {
-  return csv
-    .split('\n')
-    .map(line => {
-      const cells: string[] = [];
-      let cur = '';
-      let inQ = false;
-      for (const ch of line) {
-        if (ch === '"') { inQ = !inQ; }
-        else if (ch === ',' && !inQ) { cells.push(cur); cur = ''; }
-        else { cur += ch; }
-      }
-      cells.push(cur);
-      return cells.join('\t');
-    })
-    .join('\n');
+  return toDelimited(parseDelimited(csv, ','), '\t');
 }
 
 /** Auto-synced from Google Sheets — gid=289043970 (Traction Scorecard) */
@@ -0,0 +1,12 @@
+import type { MappingRule } from '../types';
+
+/** Built-in row rules — the original Traction Scorecard label matching */
+export const DEFAULT_MAPPING_RULES: MappingRule[] = [
+  // Net Sales and 1st Order CM are reported in thousands
+  { pattern: 'Net Sales', metric: 'netSales', series: 'detect', scale: 1000, currency: '' },
+  { pattern: '1st Order CM', metric: 'cm', series: 'detect', scale: 1000, currency: '' },
+  { pattern: '1st Order Count', metric: 'count', series: 'detect', scale: 1, currency: '' },
+  { pattern: 'AOV', metric: 'aov', series: 'detect', scale: 1, currency: '' },
+  { pattern: 'CAC', metric: 'cac', series: 'detect', scale: 1, currency: '' },
+  { pattern: 'Ad Spend', metric: 'adSpend', series: 'actual', scale: 1, currency: '' },
+];
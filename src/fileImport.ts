@@ -0,0 +1,36 @@
+import { toDelimited } from './csv';
+import { csvToTsv } from './data/defaultData';
+import { readXlsx } from './xlsx';
+
+/** One importable table — a CSV/TSV file or a workbook tab — as TSV for parsePastedData */
+export interface ImportedSheet {
+  name: string;
+  tsv: string;
+}
+
+export const ACCEPTED_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+function extension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot < 0 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+/** Read a downloaded scorecard export in the browser. Workbooks yield one entry per worksheet. */
+export async function readScorecardFile(file: File): Promise<ImportedSheet[]> {
+  const ext = extension(file.name);
+  switch (ext) {
+    case '.xlsx': {
+      const sheets = await readXlsx(await file.arrayBuffer());
+      return sheets.map(s => ({ name: s.name, tsv: toDelimited(s.rows, '\t') }));
+    }
+    case '.csv':
+      return [{ name: file.name, tsv: csvToTsv(await file.text()) }];
+    case '.tsv':
+    case '.txt':
+      return [{ name: file.name, tsv: await file.text() }];
+    case '.xls':
+      throw new Error('Legacy .xls workbooks are not supported — save as .xlsx or export as CSV');
+    default:
+      throw new Error(`Unsupported file type "${ext || file.name}" — use ${ACCEPTED_EXTENSIONS.join(', ')}`);
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { buildCmBridge } from './cmBridge';
+import { calcWeek } from './economicGovernor';
+import { EMPTY_WEEK, type WeekData } from '../types';
+
+// Plan: 100 orders at $10 unit CM, $60 CAC, $100 AOV — 70¢ of every AOV dollar reaches CM before CAC
+const plan: WeekData = { ...EMPTY_WEEK, label: '4 Jan', weekNum: 1, countForecast: 100, cmForecast: 1000, cacForecast: 60, aovForecast: 100 };
+
+describe('buildCmBridge', () => {
+  it('splits the CM variance into volume, AOV and CAC effects with the rest as residual', () => {
+    const bridge = buildCmBridge([{ ...plan, countActual: 90, cmActual: 500, cacActual: 70, aovActual: 105 }].map(calcWeek))!;
+    const [week] = bridge.weeks;
+    expect(week.volume).toBeCloseTo(-100);
+    expect(week.cac).toBeCloseTo(-900);
+    expect(week.aov).toBeCloseTo(315);
+    expect(week.residual).toBeCloseTo(185);
+    expect(week.forecastCm + week.volume + week.aov + week.cac + week.residual).toBeCloseTo(week.actualCm);
+  });
+
+  it('leaves AOV and CAC at zero when the week has no forecast for them', () => {
+    const bridge = buildCmBridge([{ ...EMPTY_WEEK, label: '4 Jan', weekNum: 1, countForecast: 100, cmForecast: 1000, countActual: 110, cmActual: 1200 }].map(calcWeek))!;
+    expect(bridge.weeks[0]).toMatchObject({ volume: 100, aov: 0, cac: 0, residual: 100 });
+  });
+
+  it('sums bridged weeks into the cumulative bridge and skips weeks without actuals', () => {
+    const weeks = [
+      { ...plan, countActual: 90, cmActual: 500, cacActual: 70, aovActual: 105 },
+      { ...plan, label: '11 Jan', weekNum: 2, countActual: 110, cmActual: 1100, cacActual: 60, aovActual: 100 },
+      { ...plan, label: '18 Jan', weekNum: 3 },
+    ].map(calcWeek);
+    const { weeks: bridged, cumulative } = buildCmBridge(weeks)!;
+    expect(bridged.map(w => w.label)).toEqual(['4 Jan', '11 Jan']);
+    expect(cumulative.forecastCm).toBe(2000);
+    expect(cumulative.actualCm).toBe(1600);
+    expect(cumulative.volume).toBeCloseTo(0);
+    expect(cumulative.volume + cumulative.aov + cumulative.cac + cumulative.residual).toBeCloseTo(-400);
+  });
+
+  it('returns null when no week has both forecast and actual CM', () => {
+    expect(buildCmBridge([plan].map(calcWeek))).toBeNull();
+  });
+});
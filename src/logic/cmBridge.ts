@@ -0,0 +1,51 @@
+import type { CalculatedWeek, CmBridge, CmBridgeEffects, CmBridgeWeek } from '../types';
+
+/**
+ * Decompose each week's CM variance (actual - forecast) into volume, AOV and
+ * CAC effects plus a residual, then sum the weeks into a cumulative bridge.
+ *
+ * Volume is valued at forecast unit CM. AOV is valued at the forecast
+ * contribution rate ((unit CM + CAC) / AOV) since only margin on the extra
+ * order value reaches CM. CAC moves CM dollar for dollar. Both are applied to
+ * actual count so the three effects don't double count.
+ */
+export function buildCmBridge(weeks: CalculatedWeek[]): CmBridge | null {
+  const bridged: CmBridgeWeek[] = [];
+
+  for (const w of weeks) {
+    if (w.cmActual == null || w.cmForecast == null || w.countActual == null || w.unitCmForecast == null) continue;
+
+    const volume = (w.countActual - w.countForecast!) * w.unitCmForecast;
+    const cac = (w.cacActual != null && w.cacForecast != null)
+      ? -(w.cacActual - w.cacForecast) * w.countActual : 0;
+    const marginRate = (w.cacForecast != null && w.aovForecast != null && w.aovForecast > 0)
+      ? (w.unitCmForecast + w.cacForecast) / w.aovForecast : null;
+    const aov = (marginRate != null && w.aovActual != null)
+      ? (w.aovActual - w.aovForecast!) * marginRate * w.countActual : 0;
+
+    bridged.push({
+      label: w.label,
+      weekNum: w.weekNum,
+      forecastCm: w.cmForecast,
+      volume,
+      aov,
+      cac,
+      residual: (w.cmActual - w.cmForecast) - volume - aov - cac,
+      actualCm: w.cmActual,
+    });
+  }
+
+  if (bridged.length === 0) return null;
+
+  const cumulative: CmBridgeEffects = { forecastCm: 0, volume: 0, aov: 0, cac: 0, residual: 0, actualCm: 0 };
+  for (const b of bridged) {
+    cumulative.forecastCm += b.forecastCm;
+    cumulative.volume += b.volume;
+    cumulative.aov += b.aov;
+    cumulative.cac += b.cac;
+    cumulative.residual += b.residual;
+    cumulative.actualCm += b.actualCm;
+  }
+
+  return { weeks: bridged, cumulative };
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { projectForwardCm } from './cmProjection';
+import { calcWeek } from './economicGovernor';
+import { EMPTY_WEEK, type WeekData } from '../types';
+
+// Latest actual week: unit CM -$20 on $80 CAC and $100 AOV, so 60¢ of every AOV dollar reaches CM before CAC
+const actual: WeekData = { ...EMPTY_WEEK, label: '4 Jan', weekNum: 1, countForecast: 100, countActual: 100, cmActual: -2000, cacActual: 80, aovActual: 100 };
+const ahead: WeekData[] = [
+  { ...EMPTY_WEEK, label: '11 Jan', weekNum: 2, countForecast: 120, cmForecast: 1200 },
+  { ...EMPTY_WEEK, label: '18 Jan', weekNum: 3, countForecast: 80, cmForecast: 800 },
+];
+
+describe('projectForwardCm', () => {
+  it('holds the latest unit CM over the forecast weeks that follow it', () => {
+    const weeks = [actual, ...ahead].map(calcWeek);
+    const projection = projectForwardCm(weeks, weeks[0])!;
+    expect(projection.basisLabel).toBe('4 Jan');
+    expect(projection.marginRate).toBeCloseTo(0.6);
+    expect(projection.weeks.map(w => [w.label, w.projectedCm, w.gap])).toEqual([['11 Jan', -2400, -3600], ['18 Jan', -1600, -2400]]);
+    expect(projection.totalForecastCount).toBe(200);
+    expect(projection.totalProjectedCm).toBe(-4000);
+    expect(projection.totalPlanCm).toBe(2000);
+  });
+
+  it('solves for the CAC or AOV that breaks even and that hits plan', () => {
+    const weeks = [actual, ...ahead].map(calcWeek);
+    const { breakEven, planTarget } = projectForwardCm(weeks, weeks[0])!;
+    expect(breakEven.unitCm).toBe(0);
+    expect(breakEven.cac).toBeCloseTo(60);
+    expect(breakEven.aov).toBeCloseTo(133.33, 2);
+    expect(planTarget!.unitCm).toBe(10);
+    expect(planTarget!.cac).toBeCloseTo(50);
+    expect(planTarget!.aov).toBeCloseTo(150);
+  });
+
+  it('has no plan target when a remaining week has no CM forecast', () => {
+    const weeks = [actual, ahead[0], { ...ahead[1], cmForecast: null }].map(calcWeek);
+    const projection = projectForwardCm(weeks, weeks[0])!;
+    expect(projection.totalPlanCm).toBeNull();
+    expect(projection.planTarget).toBeNull();
+  });
+
+  it('returns null without a latest unit CM or forecast weeks after it', () => {
+    const weeks = [actual, ...ahead].map(calcWeek);
+    expect(projectForwardCm(weeks, null)).toBeNull();
+    expect(projectForwardCm(weeks, weeks[1])).toBeNull();
+    expect(projectForwardCm(weeks.slice(0, 1), weeks[0])).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import type { CalculatedWeek, CmProjection, ProjectionTarget } from '../types';
+
+/**
+ * Project 1st-order CM for the forecast weeks after the latest actual week,
+ * holding the latest unit economics constant, and solve for the CAC or AOV
+ * that would break even (or hit plan) at forecast volume.
+ */
+export function projectForwardCm(weeks: CalculatedWeek[], latest: CalculatedWeek | null): CmProjection | null {
+  if (!latest || latest.unitCmActual == null) return null;
+
+  const latestIdx = weeks.indexOf(latest);
+  const remaining = weeks.slice(latestIdx + 1).filter(w => w.countForecast != null && w.countForecast > 0);
+  if (remaining.length === 0) return null;
+
+  const unitCm = latest.unitCmActual;
+  const projected = remaining.map(w => {
+    const projectedCm = unitCm * w.countForecast!;
+    return {
+      label: w.label,
+      weekNum: w.weekNum,
+      countForecast: w.countForecast!,
+      cmForecast: w.cmForecast,
+      projectedCm,
+      gap: w.cmForecast != null ? projectedCm - w.cmForecast : null,
+    };
+  });
+
+  const totalForecastCount = sum(projected.map(w => w.countForecast));
+  const totalProjectedCm = sum(projected.map(w => w.projectedCm));
+  const totalPlanCm = projected.every(w => w.cmForecast != null) ? sum(projected.map(w => w.cmForecast!)) : null;
+
+  const cac = latest.cacActual;
+  const aov = latest.aovActual;
+  const marginRate = (cac != null && aov != null && aov > 0) ? (unitCm + cac) / aov : null;
+
+  const solve = (targetUnitCm: number): ProjectionTarget => {
+    const shortfall = targetUnitCm - unitCm; // $ per customer still needed
+    return {
+      unitCm: targetUnitCm,
+      cac: cac != null ? cac - shortfall : null,
+      aov: (aov != null && marginRate != null && marginRate > 0) ? aov + shortfall / marginRate : null,
+    };
+  };
+
+  return {
+    basisLabel: latest.label,
+    unitCm,
+    cac,
+    aov,
+    marginRate,
+    weeks: projected,
+    totalForecastCount,
+    totalProjectedCm,
+    totalPlanCm,
+    breakEven: solve(0),
+    planTarget: totalPlanCm != null ? solve(totalPlanCm / totalForecastCount) : null,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
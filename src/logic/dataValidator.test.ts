@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { validateWeeks, issuesByCell, cellKey, worstSeverity } from './dataValidator';
+import { runModule1, reconcileCac, calcWeek } from './economicGovernor';
+import { runModule2 } from './funnelDiagnostician';
+import { DEFAULT_GOVERNOR_CONFIG } from '../data/defaultConfig';
+import { parsePastedData } from '../sheets';
+import { EMPTY_WEEK, type WeekData } from '../types';
+import { DEFAULT_TIER1_TSV, HEALTHY_TSV } from '../test/fixtures';
+
+const validate = (weeks: WeekData[]) => validateWeeks(weeks, reconcileCac(weeks.map(calcWeek)));
+
+const wk = (weekNum: number, fields: Partial<WeekData>): WeekData => ({ ...EMPTY_WEEK, label: `W${weekNum}`, weekNum, ...fields });
+
+describe('validateWeeks', () => {
+  it('finds nothing wrong with a consistent scorecard', () => {
+    expect(validate(parsePastedData(HEALTHY_TSV))).toEqual([]);
+  });
+
+  it('flags the WK 7 AOV forecast jump in the default scorecard', () => {
+    const issues = validate(parsePastedData(DEFAULT_TIER1_TSV));
+    expect(issues.find(i => i.code === 'aov_jump')).toMatchObject({
+      label: '8 Feb', field: 'aovForecast', severity: 'warning',
+    });
+    expect(issues.some(i => i.severity === 'critical')).toBe(false);
+  });
+
+  it('flags positive CM when CAC exceeds AOV', () => {
+    const [issue] = validate([wk(1, { cmActual: 3300, cmForecast: -2900, countActual: 37, countForecast: 134, cacActual: 120, aovActual: 101.7, cacForecast: 86, aovForecast: 86 })]);
+    expect(issue).toMatchObject({ field: 'cmActual', severity: 'critical', code: 'cm_sign' });
+  });
+
+  it('flags spend with zero orders and CAC × count far from spend', () => {
+    const issues = validate([
+      wk(1, { adSpend: 5000, countActual: 0, countForecast: 50 }),
+      wk(2, { adSpend: 5000, countActual: 50, countForecast: 50, cacActual: 60, cacForecast: 60 }),
+    ]);
+    expect(issues.map(i => [i.weekNum, i.code, i.severity])).toEqual([
+      [1, 'spend_without_orders', 'critical'],
+      [2, 'cac_spend_mismatch', 'warning'],
+    ]);
+  });
+
+  it('notes actuals without a forecast and negative counts', () => {
+    const issues = validate([wk(1, { countActual: -3 })]);
+    expect(issues.map(i => i.code)).toEqual(['negative_value', 'missing_forecast']);
+  });
+
+  it('caps Tier 2 issues at a warning', () => {
+    const issues = validate([wk(1, { cpm: -4, cvr: 140 })]);
+    expect(issues.map(i => [i.field, i.code, i.severity])).toEqual([
+      ['cpm', 'negative_value', 'warning'],
+      ['cvr', 'percent_out_of_range', 'warning'],
+    ]);
+  });
+});
+
+describe('CAC reconciliation', () => {
+  it('flags the same weeks, with the same wording, as the governor and funnel Step 1', () => {
+    const config = { ...DEFAULT_GOVERNOR_CONFIG, cacSpendTolerance: 30 };
+    const weeks = [
+      wk(1, { adSpend: 6000, countActual: 100, countForecast: 100, cacActual: 75, cacForecast: 60 }), // 25% over
+      wk(2, { adSpend: 6000, countActual: 100, countForecast: 100, cacActual: 84, cacForecast: 60 }), // 40% over
+    ];
+    const module1 = runModule1(weeks, config);
+    const mismatches = module1.dataIssues.filter(i => i.code === 'cac_spend_mismatch');
+    expect(module1.cacReconciliation.filter(r => r.mismatch).map(r => r.weekNum)).toEqual([2]);
+    expect(mismatches.map(i => i.weekNum)).toEqual([2]);
+
+    const step1 = runModule2(module1, config).steps[0];
+    expect(step1.status).toBe('warning');
+    expect(mismatches[0].message).toBe(`W2: ${step1.warning}`);
+    expect(step1.warning).toBe('Reported CAC ($84) is 40% above spend ÷ orders ($60) — CAC, spend or order count is wrong.');
+  });
+});
+
+describe('issuesByCell', () => {
+  it('groups issues by week and field, highlighting each cell by its worst one', () => {
+    const issues = validate([wk(1, { cmActual: 3300, cmForecast: 3000, countActual: 10, countForecast: 10, cacActual: 120, aovActual: 100, cacForecast: 60, aovForecast: 100 })]);
+    const cell = issuesByCell(issues).get(cellKey(1, 'cmActual'))!;
+    expect(cell.map(i => i.code)).toEqual(['cm_sign', 'cm_exceeds_aov']);
+    expect(worstSeverity(cell)).toBe('critical');
+  });
+});
+
+describe('runModule1 data gate', () => {
+  it('denies scaling with a caveat when the latest week has critical issues', () => {
+    const weeks = parsePastedData(HEALTHY_TSV);
+    weeks[2] = { ...weeks[2], countActual: 0 };
+    const result = runModule1(weeks);
+    expect(result.scalePermission).toBe('denied');
+    expect(result.scaleReason).toMatch(/^Blocked by data quality/);
+    expect(result.dataCaveat).toMatch(/zero first orders/);
+  });
+
+  it('lets Tier 2 issues through without blocking scaling', () => {
+    const weeks = parsePastedData(HEALTHY_TSV);
+    weeks[2] = { ...weeks[2], cpm: -12, ctr: -1 };
+    const result = runModule1(weeks);
+    expect(result.scalePermission).toBe(runModule1(parsePastedData(HEALTHY_TSV)).scalePermission);
+    expect(result.dataCaveat).toBeNull();
+    expect(result.dataIssues.map(i => i.severity)).toEqual(['warning', 'warning']);
+  });
+
+  it('leaves the verdict alone when only earlier weeks have critical issues', () => {
+    const weeks = parsePastedData(HEALTHY_TSV);
+    weeks[0] = { ...weeks[0], countActual: 0 };
+    const result = runModule1(weeks);
+    expect(result.dataCaveat).toBeNull();
+    expect(result.dataIssues).toHaveLength(1);
+  });
+});
@@ -0,0 +1,120 @@
+import type { WeekData, DataIssue, IssueSeverity, GovernorConfig, CacReconciliation } from '../types';
+import { DEFAULT_GOVERNOR_CONFIG } from '../data/defaultConfig';
+
+/** Inputs that can never be negative */
+const NON_NEGATIVE_TIER1: (keyof WeekData)[] = [
+  'adSpend', 'netSalesForecast', 'netSalesActual', 'countForecast', 'countActual',
+  'aovForecast', 'aovActual', 'cacForecast', 'cacActual',
+];
+
+/** Tier 2 only feeds the funnel diagnosis, so its issues stop at a warning — a critical one would veto scaling */
+const NON_NEGATIVE_TIER2: (keyof WeekData)[] = ['cpm', 'ctr', 'cpc', 'frequency', 'metaClicks', 'shopifySessions', 'cvr'];
+
+const PERCENT_FIELDS: (keyof WeekData)[] = ['ctr', 'cvr'];
+
+/** Actuals whose PvA needs a forecast alongside */
+const FORECAST_FOR: [actual: keyof WeekData, forecast: keyof WeekData][] = [
+  ['cmActual', 'cmForecast'],
+  ['countActual', 'countForecast'],
+  ['aovActual', 'aovForecast'],
+  ['cacActual', 'cacForecast'],
+];
+
+const num = (w: WeekData, field: keyof WeekData) => w[field] as number | null;
+
+/** A reported CAC that disagrees with spend ÷ orders, worded the same in the data issues and funnel Step 1 */
+export function describeCacMismatch(r: CacReconciliation): string {
+  return `Reported CAC ($${r.reportedCac}) is ${Math.abs(r.gapPct ?? 0).toFixed(0)}% ${(r.gap ?? 0) > 0 ? 'above' : 'below'} spend ÷ orders ($${r.impliedCac.toFixed(0)}) — CAC, spend or order count is wrong.`;
+}
+
+/**
+ * Check every week's inputs against themselves and their neighbours.
+ * Critical issues make the governor's maths meaningless; warnings are likely entry or unit errors.
+ * CAC is checked against spend ÷ orders by reconcileCac — its mismatches are passed in rather than worked out again.
+ */
+export function validateWeeks(weeks: WeekData[], cacReconciliation: CacReconciliation[], config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG): DataIssue[] {
+  const issues: DataIssue[] = [];
+  const cacByWeek = new Map(cacReconciliation.map(r => [r.weekNum, r]));
+
+  weeks.forEach((w, i) => {
+    const name = w.label || `WK ${w.weekNum}`;
+    const add = (field: keyof WeekData, severity: DataIssue['severity'], code: DataIssue['code'], message: string) => {
+      issues.push({ label: w.label, weekNum: w.weekNum, field, severity, code, message });
+    };
+
+    for (const [fields, severity] of [[NON_NEGATIVE_TIER1, 'critical'], [NON_NEGATIVE_TIER2, 'warning']] as const) {
+      for (const field of fields) {
+        const v = num(w, field);
+        if (v != null && v < 0) add(field, severity, 'negative_value', `${name}: ${field} is negative (${v}).`);
+      }
+    }
+
+    for (const field of PERCENT_FIELDS) {
+      const v = num(w, field);
+      if (v != null && v > 100) add(field, 'warning', 'percent_out_of_range', `${name}: ${field} of ${v}% is above 100% — entered as a ratio ×100 twice?`);
+    }
+
+    // First-order CM = AOV × margin − CAC, so CAC above AOV can only produce a loss
+    for (const [cm, cac, aov, severity] of [
+      ['cmActual', 'cacActual', 'aovActual', 'critical'],
+      ['cmForecast', 'cacForecast', 'aovForecast', 'warning'],
+    ] as const) {
+      const cmVal = w[cm], cacVal = w[cac], aovVal = w[aov];
+      if (cmVal != null && cmVal > 0 && cacVal != null && aovVal != null && cacVal > aovVal) {
+        add(cm, severity, 'cm_sign', `${name}: ${cm} is positive ($${cmVal.toFixed(0)}) but CAC ($${cacVal}) exceeds AOV ($${aovVal}) — the sign looks wrong.`);
+      }
+    }
+
+    if (w.cmActual != null && w.countActual && w.countActual > 0 && w.aovActual != null && w.aovActual > 0) {
+      const unitCm = w.cmActual / w.countActual;
+      if (unitCm > w.aovActual) {
+        add('cmActual', 'warning', 'cm_exceeds_aov', `${name}: unit CM ($${unitCm.toFixed(0)}) exceeds AOV ($${w.aovActual}) — check the CM unit scale.`);
+      }
+    }
+
+    if (w.adSpend != null && w.adSpend > 0 && w.countActual === 0) {
+      add('countActual', 'critical', 'spend_without_orders', `${name}: $${w.adSpend.toFixed(0)} ad spend with zero first orders — CAC and unit CM cannot be computed.`);
+    }
+
+    const cac = cacByWeek.get(w.weekNum);
+    if (cac?.mismatch) add('cacActual', 'warning', 'cac_spend_mismatch', `${name}: ${describeCacMismatch(cac)}`);
+
+    for (const [actual, forecast] of FORECAST_FOR) {
+      if (num(w, actual) != null && num(w, forecast) == null) {
+        add(forecast, 'info', 'missing_forecast', `${name}: ${actual} has no ${forecast} — PvA cannot be computed.`);
+      }
+    }
+
+    const prev = weeks[i - 1];
+    if (prev) {
+      for (const field of ['aovForecast', 'aovActual'] as const) {
+        const before = prev[field], after = w[field];
+        if (before == null || after == null || before <= 0 || after <= 0) continue;
+        const ratio = after / before;
+        if (ratio > config.aovJumpMultiple || ratio < 1 / config.aovJumpMultiple) {
+          add(field, 'warning', 'aov_jump', `${name}: ${field} moved from $${before} to $${after} (${ratio.toFixed(1)}x) week over week.`);
+        }
+      }
+    }
+  });
+
+  return issues;
+}
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { critical: 3, warning: 2, info: 1 };
+
+/** Issues grouped by the cell they flag, keyed by cellKey */
+export function issuesByCell(issues: DataIssue[]): Map<string, DataIssue[]> {
+  const cells = new Map<string, DataIssue[]>();
+  for (const issue of issues) {
+    const key = cellKey(issue.weekNum, issue.field);
+    cells.set(key, [...(cells.get(key) ?? []), issue]);
+  }
+  return cells;
+}
+
+export const cellKey = (weekNum: number, field: keyof WeekData) => `${weekNum}:${field}`;
+
+/** The most serious severity among a cell's issues — it decides how the cell is highlighted */
+export const worstSeverity = (issues: DataIssue[]): IssueSeverity =>
+  issues.reduce((a, b) => SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a).severity;
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { runModule1, runVerdictHistory, calcWeek, pva, reconcileCac } from './economicGovernor';
+import { parsePastedData } from '../sheets';
+import { EMPTY_WEEK } from '../types';
+import { DEFAULT_GOVERNOR_CONFIG } from '../data/defaultConfig';
+import { DEFAULT_TIER1_TSV, MIRAGE_TSV, HEALTHY_TSV } from '../test/fixtures';
+
+describe('pva', () => {
+  it('returns actual as a percentage of forecast', () => {
+    expect(pva(37, 134)).toBeCloseTo(27.6, 1);
+  });
+
+  it('returns null when either side is missing or forecast is zero', () => {
+    expect(pva(null, 100)).toBeNull();
+    expect(pva(10, null)).toBeNull();
+    expect(pva(10, 0)).toBeNull();
+  });
+});
+
+describe('calcWeek', () => {
+  it('derives unit CM, CAC-AOV gap and click/session ratio', () => {
+    const w = calcWeek({
+      ...EMPTY_WEEK,
+      cmActual: -3300, countActual: 37, cmForecast: -2900, countForecast: 134,
+      cacActual: 120, aovActual: 101.7, metaClicks: 1300, shopifySessions: 1000,
+    });
+    expect(w.unitCmActual).toBeCloseTo(-89.19, 2);
+    expect(w.unitCmForecast).toBeCloseTo(-21.64, 2);
+    expect(w.cacAovGap).toBeCloseTo(18.3, 1);
+    expect(w.clickSessionRatio).toBeCloseTo(1.3);
+  });
+
+  it('derives net sales PvA and the new-customer share of net sales', () => {
+    const w = calcWeek({ ...EMPTY_WEEK, netSalesForecast: 8000, netSalesActual: 5600, countActual: 19, aovActual: 60 });
+    expect(w.netSalesPva).toBeCloseTo(70);
+    expect(w.ncShareOfSales).toBeCloseTo(20.36, 2);
+  });
+
+  it('falls back to implied CAC when reported CAC is missing', () => {
+    const w = calcWeek({ ...EMPTY_WEEK, adSpend: 4440, countActual: 37, aovActual: 101.7, cacForecast: 86 });
+    expect(w).toMatchObject({ cacActual: 120, cacReported: null, cacImplied: 120, cacDerived: true });
+    expect(w.cacAovGap).toBeCloseTo(18.3, 1);
+    expect(w.cacPva).toBeCloseTo(139.5, 1);
+  });
+
+  it('leaves unit CM null when count is zero', () => {
+    expect(calcWeek({ ...EMPTY_WEEK, cmActual: -100, countActual: 0 }).unitCmActual).toBeNull();
+  });
+});
+
+describe('runModule1', () => {
+  it('flags the default scorecard as both broken and denies scaling', () => {
+    const result = runModule1(parsePastedData(DEFAULT_TIER1_TSV));
+    expect(result.verdict).toBe('both');
+    expect(result.scalePermission).toBe('denied');
+    expect(result.latestWeek?.label).toBe('1 Feb');
+    expect(result.cmMirage).toBe(true);
+    expect(result.biggestLeak).toMatch(/^CAC overspend/);
+    expect(result.biggestLeakDollars).toBeCloseTo((120 - 86) * 37);
+  });
+
+  it('detects a CM mirage when CM beats plan only because volume collapsed', () => {
+    const result = runModule1(parsePastedData(MIRAGE_TSV));
+    expect(result.verdict).toBe('volume_problem');
+    expect(result.scalePermission).toBe('allowed');
+    expect(result.cmMirage).toBe(true);
+    expect(result.cmMirageExplanation).toMatch(/NOT the \$5000 planned/);
+  });
+
+  it('allows scaling when economics are on plan', () => {
+    const result = runModule1(parsePastedData(HEALTHY_TSV));
+    expect(result.verdict).toBe('neither');
+    expect(result.scalePermission).toBe('allowed');
+    expect(result.cmMirage).toBe(false);
+  });
+
+  it('accepts the default scorecard\'s Plan ÷ Actual CM PvA for weeks where both are losses', () => {
+    const { pvaMismatches, warnings } = runModule1(parsePastedData(DEFAULT_TIER1_TSV));
+    expect(pvaMismatches).toEqual([]);
+    expect(warnings.join('\n')).not.toMatch(/Plan vs Actual rows disagree/);
+  });
+
+  it('cross-checks the sheet PvA rows and spots an inverted formula on positive CM', () => {
+    const week = { ...EMPTY_WEEK, label: '4 Jan', weekNum: 1, cmForecast: 4000, cmActual: 5000, sheetCmPva: 80 };
+    const { pvaMismatches, warnings } = runModule1([week]);
+    expect(pvaMismatches).toEqual([{ label: '4 Jan', weekNum: 1, metric: 'cm', sheetPva: 80, computedPva: 125, inverted: true }]);
+    expect(warnings.at(-1)).toMatch(/disagree with the computed PvA by more than 5pp in 1 .*\(1st Order CM\)/);
+  });
+
+  it('applies the volume threshold from config', () => {
+    const weeks = parsePastedData(MIRAGE_TSV);
+    const result = runModule1(weeks, { ...DEFAULT_GOVERNOR_CONFIG, volumeProblemPva: 30 });
+    expect(result.verdict).toBe('neither');
+  });
+});
+
+describe('reconcileCac', () => {
+  it('compares reported CAC with spend ÷ orders for weeks with both', () => {
+    const weeks = [
+      { ...EMPTY_WEEK, label: 'A', weekNum: 1, adSpend: 6000, countActual: 100, cacActual: 60 },
+      { ...EMPTY_WEEK, label: 'B', weekNum: 2, adSpend: 6000, countActual: 100, cacActual: 75 },
+      { ...EMPTY_WEEK, label: 'C', weekNum: 3, adSpend: 6000, countActual: 100 },
+      { ...EMPTY_WEEK, label: 'D', weekNum: 4, countActual: 100, cacActual: 60 },
+    ].map(calcWeek);
+    expect(reconcileCac(weeks)).toEqual([
+      { label: 'A', weekNum: 1, reportedCac: 60, impliedCac: 60, gap: 0, gapPct: 0, derived: false, mismatch: false },
+      { label: 'B', weekNum: 2, reportedCac: 75, impliedCac: 60, gap: 15, gapPct: 25, derived: false, mismatch: true },
+      { label: 'C', weekNum: 3, reportedCac: null, impliedCac: 60, gap: null, gapPct: null, derived: true, mismatch: false },
+    ]);
+  });
+});
+
+describe('runVerdictHistory', () => {
+  it('reports a verdict for every week with actuals', () => {
+    const history = runVerdictHistory(parsePastedData(DEFAULT_TIER1_TSV));
+    expect(history.map(h => h.label)).toEqual(['28 Dec', '4 Jan', '11 Jan', '18 Jan', '25 Jan', '1 Feb']);
+    expect(history.every(h => h.scalePermission === 'denied')).toBe(true);
+    expect(history.some(h => h.permissionFlipped)).toBe(false);
+  });
+});
@@ -1,50 +1,92 @@
-import type { WeekData, CalculatedWeek, Module1Result, Verdict, ScalePermission } from '../types';
-
-function pva(actual: number | null, forecast: number | null): number | null {
+import type { WeekData, CalculatedWeek, Module1Result, Verdict, ScalePermission, GovernorConfig, VerdictHistoryEntry, CacReconciliation } from '../types';
+import { DEFAULT_GOVERNOR_CONFIG } from '../data/defaultConfig';
+import { projectForwardCm } from './cmProjection';
+import { buildCmBridge } from './cmBridge';
+import { crossCheckPva, PVA_METRIC_LABELS } from './pvaCrossCheck';
+import { validateWeeks } from './dataValidator';
+
+export function pva(actual: number | null, forecast: number | null): number | null {
   if (actual == null || forecast == null || forecast === 0) return null;
   return (actual / forecast) * 100;
 }
 
-function calcWeek(w: WeekData): CalculatedWeek {
+export function calcWeek(w: WeekData): CalculatedWeek {
+  const cacImplied = (w.adSpend != null && w.countActual && w.countActual > 0)
+    ? w.adSpend / w.countActual : null;
+  const cacDerived = w.cacActual == null && cacImplied != null;
+  const cacActual = cacDerived ? cacImplied : w.cacActual;
   const unitCmActual = (w.cmActual != null && w.countActual && w.countActual > 0)
     ? w.cmActual / w.countActual : null;
   const unitCmForecast = (w.cmForecast != null && w.countForecast && w.countForecast > 0)
     ? w.cmForecast / w.countForecast : null;
-  const cacAovGap = (w.cacActual != null && w.aovActual != null)
-    ? w.cacActual - w.aovActual : null;
+  const cacAovGap = (cacActual != null && w.aovActual != null)
+    ? cacActual - w.aovActual : null;
+  const ncShareOfSales = (w.countActual != null && w.aovActual != null && w.netSalesActual && w.netSalesActual > 0)
+    ? (w.countActual * w.aovActual / w.netSalesActual) * 100 : null;
   const clickSessionRatio = (w.metaClicks != null && w.shopifySessions != null && w.shopifySessions > 0)
     ? w.metaClicks / w.shopifySessions : null;
 
   return {
     ...w,
+    netSalesPva: pva(w.netSalesActual, w.netSalesForecast),
+    ncShareOfSales,
     cmPva: pva(w.cmActual, w.cmForecast),
     countPva: pva(w.countActual, w.countForecast),
     aovPva: pva(w.aovActual, w.aovForecast),
-    cacPva: pva(w.cacActual, w.cacForecast),
+    cacActual,
+    cacPva: pva(cacActual, w.cacForecast),
     unitCmActual,
     unitCmForecast,
+    cacReported: w.cacActual,
+    cacImplied,
+    cacDerived,
     cacAovGap,
     clickSessionRatio,
   };
 }
 
-export function runModule1(weeks: WeekData[]): Module1Result {
+/** CAC for narrative text — a derived value is rounded and labelled as such */
+export function cacLabel(w: CalculatedWeek): string {
+  if (w.cacActual == null) return '$?';
+  return w.cacDerived ? `$${w.cacActual.toFixed(0)} derived from spend ÷ orders` : `$${w.cacActual}`;
+}
+
+/** Reported vs implied CAC (ad spend ÷ first orders) for every week that has both spend and orders */
+export function reconcileCac(weeks: CalculatedWeek[], config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG): CacReconciliation[] {
+  return weeks.flatMap(w => {
+    if (w.cacImplied == null || w.cacImplied <= 0) return [];
+    const gap = w.cacReported != null ? w.cacReported - w.cacImplied : null;
+    const gapPct = gap != null && w.cacImplied > 0 ? (gap / w.cacImplied) * 100 : null;
+    return [{
+      label: w.label,
+      weekNum: w.weekNum,
+      reportedCac: w.cacReported,
+      impliedCac: w.cacImplied,
+      gap,
+      gapPct,
+      derived: w.cacDerived,
+      mismatch: gapPct != null && Math.abs(gapPct) > config.cacSpendTolerance,
+    }];
+  });
+}
+
+export function runModule1(weeks: WeekData[], config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG): Module1Result {
   const calculated = weeks.map(calcWeek);
 
   // Only consider weeks that have actual data (not empty future weeks)
   const withData = calculated.filter(w => w.cmActual != null || w.countActual != null || w.adSpend != null);
   const latest = withData.length > 0 ? withData[withData.length - 1] : null;
 
-  const recentWeeks = withData.slice(-3);
+  const recentWeeks = withData.slice(-config.volumeLookbackWeeks);
 
   const avgCountPva = avg(recentWeeks.map(w => w.countPva));
-  const hasVolumeProblem = avgCountPva != null && avgCountPva < 70;
+  const hasVolumeProblem = avgCountPva != null && avgCountPva < config.volumeProblemPva;
 
   const latestUnitCm = latest?.unitCmActual;
   const latestUnitCmPlan = latest?.unitCmForecast;
   let hasCmProblem = false;
   if (latestUnitCm != null && latestUnitCmPlan != null && latestUnitCmPlan < 0) {
-    hasCmProblem = latestUnitCm < latestUnitCmPlan * 2;
+    hasCmProblem = latestUnitCm < latestUnitCmPlan * config.cmProblemMultiple;
   } else if (latestUnitCm != null && latestUnitCm < 0 && latestUnitCmPlan != null && latestUnitCmPlan >= 0) {
     hasCmProblem = true;
   }
@@ -63,7 +105,7 @@ export function runModule1(weeks: WeekData[]): Module1Result {
   let scaleReason: string;
   if (hasCmProblem) {
     scalePermission = 'denied';
-    scaleReason = `Unit CM is $${latest?.unitCmActual?.toFixed(0) ?? '?'}/customer vs $${latest?.unitCmForecast?.toFixed(0) ?? '?'} plan. CAC ($${latest?.cacActual ?? '?'}) exceeds AOV ($${latest?.aovActual ?? '?'}) by $${latest?.cacAovGap?.toFixed(0) ?? '?'}. Cannot scale into these losses.`;
+    scaleReason = `Unit CM is $${latest?.unitCmActual?.toFixed(0) ?? '?'}/customer vs $${latest?.unitCmForecast?.toFixed(0) ?? '?'} plan. CAC (${latest ? cacLabel(latest) : '$?'}) exceeds AOV ($${latest?.aovActual ?? '?'}) by $${latest?.cacAovGap?.toFixed(0) ?? '?'}. Cannot scale into these losses.`;
   } else if (hasVolumeProblem) {
     scalePermission = 'allowed';
     scaleReason = 'CM is healthy. Funnel analysis allowed to grow volume.';
@@ -72,12 +114,25 @@ export function runModule1(weeks: WeekData[]): Module1Result {
     scaleReason = 'Economics are within acceptable range. Scaling allowed.';
   }
 
+  // Critical input issues in the latest week override any permission — the maths above can't be trusted
+  const cacReconciliation = reconcileCac(calculated, config);
+  const dataIssues = validateWeeks(weeks, cacReconciliation, config);
+  const latestCritical = latest
+    ? dataIssues.filter(i => i.weekNum === latest.weekNum && i.severity === 'critical')
+    : [];
+  let dataCaveat: string | null = null;
+  if (latestCritical.length > 0) {
+    dataCaveat = latestCritical.map(i => i.message).join(' ');
+    scalePermission = 'denied';
+    scaleReason = `Blocked by data quality: ${latestCritical.length} critical input issue(s) in the latest week. Fix the inputs before acting on this verdict.`;
+  }
+
   let cmMirage = false;
   let cmMirageExplanation: string | null = null;
   if (latest) {
     const totalCmPva = latest.cmPva;
     const countPva = latest.countPva;
-    if (totalCmPva != null && totalCmPva > 95 && countPva != null && countPva < 50) {
+    if (totalCmPva != null && totalCmPva > config.mirageCmPva && countPva != null && countPva < config.mirageCountPva) {
       cmMirage = true;
       const hypotheticalCm = latest.unitCmActual != null && latest.countForecast != null
         ? latest.unitCmActual * latest.countForecast : null;
@@ -92,6 +147,12 @@ export function runModule1(weeks: WeekData[]): Module1Result {
   warnings.push('Meta attribution over-credits conversions — use Tier 1 (Traction Scorecard) only.');
   warnings.push('Shopify USA expansion store: "New customers" may be historical Canadian buyers. NC AOV is directionally useful only.');
 
+  const pvaMismatches = crossCheckPva(calculated, config.pvaCrossCheckTolerance);
+  if (pvaMismatches.length > 0) {
+    const metrics = [...new Set(pvaMismatches.map(m => PVA_METRIC_LABELS[m.metric]))].join(', ');
+    warnings.push(`Sheet Plan vs Actual rows disagree with the computed PvA by more than ${config.pvaCrossCheckTolerance}pp in ${pvaMismatches.length} week/metric cell(s) (${metrics}) — check the sheet's formulas before trusting its PvA.`);
+  }
+
   let biggestLeak = '';
   let biggestLeakDollars = 0;
   if (latest && latest.countActual) {
@@ -101,7 +162,7 @@ export function runModule1(weeks: WeekData[]): Module1Result {
       ? (latest.aovForecast - latest.aovActual) * latest.countActual : 0;
 
     if (cacGapDollars > aovGapDollars) {
-      biggestLeak = `CAC overspend: $${latest.cacActual} actual vs $${latest.cacForecast} plan = $${(latest.cacActual! - latest.cacForecast!).toFixed(0)} excess per customer`;
+      biggestLeak = `CAC overspend: ${cacLabel(latest)} actual vs $${latest.cacForecast} plan = $${(latest.cacActual! - latest.cacForecast!).toFixed(0)} excess per customer`;
       biggestLeakDollars = cacGapDollars;
     } else {
       biggestLeak = `AOV shortfall: $${latest.aovActual} actual vs $${latest.aovForecast} plan = $${(latest.aovForecast! - latest.aovActual!).toFixed(0)} less per customer`;
@@ -130,11 +191,58 @@ export function runModule1(weeks: WeekData[]): Module1Result {
     cmMirageExplanation,
     biggestLeak,
     biggestLeakDollars,
+    projection: projectForwardCm(calculated, latest),
+    cmBridge: buildCmBridge(calculated),
+    pvaMismatches,
+    cacReconciliation,
+    dataIssues,
+    dataCaveat,
     weeks: calculated,
     latestWeek: latest,
   };
 }
 
+const PERMISSION_LABELS: Record<ScalePermission, string> = {
+  denied: 'DENIED',
+  leak_hunt_only: 'LEAK HUNT ONLY',
+  allowed: 'ALLOWED',
+};
+
+/** Run the governor against each prefix of weeks — the verdict as it stood at every week with data */
+export function runVerdictHistory(weeks: WeekData[], config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG): VerdictHistoryEntry[] {
+  const history: VerdictHistoryEntry[] = [];
+  let prev: Module1Result | null = null;
+
+  for (let i = 0; i < weeks.length; i++) {
+    const w = weeks[i];
+    if (w.cmActual == null && w.countActual == null && w.adSpend == null) continue;
+
+    const result = runModule1(weeks.slice(0, i + 1), config);
+    const permissionFlipped = prev != null && prev.scalePermission !== result.scalePermission;
+
+    let flipReason: string | null = null;
+    if (permissionFlipped && prev) {
+      flipReason = `Scale permission ${PERMISSION_LABELS[prev.scalePermission]} → ${PERMISSION_LABELS[result.scalePermission]}. ${result.scaleReason}`;
+      if (result.scalePermission === 'allowed') flipReason += ` Previously: ${prev.scaleReason}`;
+    }
+
+    history.push({
+      label: w.label,
+      weekNum: w.weekNum,
+      verdict: result.verdict,
+      scalePermission: result.scalePermission,
+      scaleReason: result.scaleReason,
+      cmMirage: result.cmMirage,
+      verdictChanged: prev != null && prev.verdict !== result.verdict,
+      permissionFlipped,
+      flipReason,
+    });
+    prev = result;
+  }
+
+  return history;
+}
+
 function avg(values: (number | null)[]): number | null {
   const valid = values.filter((v): v is number => v != null);
   if (valid.length === 0) return null;
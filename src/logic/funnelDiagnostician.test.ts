@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { runModule2, buildStep1, buildStep2, buildStep3, buildStep4, buildStep5, buildStep6, buildRCA } from './funnelDiagnostician';
+import { runModule1 } from './economicGovernor';
+import { parsePastedData } from '../sheets';
+import { DEFAULT_GOVERNOR_CONFIG as config } from '../data/defaultConfig';
+import { DEFAULT_TIER1_TSV, HEALTHY_TSV, week } from '../test/fixtures';
+import type { FunnelStep } from '../types';
+
+describe('buildStep1 — Spend → Orders', () => {
+  it('fails when spend rises but orders fall', () => {
+    const prev = week({ adSpend: 5000, countActual: 50 });
+    const latest = week({ adSpend: 6000, countActual: 45 });
+    expect(buildStep1(latest, prev, config).status).toBe('fail');
+  });
+
+  it('passes when spend and orders move together', () => {
+    const prev = week({ adSpend: 5000, countActual: 50 });
+    const latest = week({ adSpend: 5500, countActual: 54 });
+    expect(buildStep1(latest, prev, config).status).toBe('pass');
+  });
+
+  it('fails on CAC > AOV when there is no prior week', () => {
+    const latest = week({ adSpend: 4440, countActual: 37, cacActual: 120, aovActual: 101.7 });
+    expect(buildStep1(latest, null, config).status).toBe('fail');
+  });
+
+  it('reports no data without ad spend', () => {
+    expect(buildStep1(week({ countActual: 37 }), null, config).status).toBe('no_data');
+  });
+
+  it('warns when reported CAC disagrees with spend ÷ orders', () => {
+    const step = buildStep1(week({ adSpend: 3000, countActual: 50, cacActual: 90, aovActual: 120 }), null, config);
+    expect(step.status).toBe('warning');
+    expect(step.finding).toMatch(/Reported CAC \$90 vs implied \$60/);
+    expect(step.warning).toMatch(/50% above/);
+  });
+
+  it('labels an implied CAC used in place of a missing one', () => {
+    const step = buildStep1(week({ adSpend: 4440, countActual: 37, aovActual: 101.7 }), null, config);
+    expect(step.status).toBe('fail');
+    expect(step.finding).toMatch(/CAC: \$120 derived from spend ÷ orders/);
+    expect(step.warning).toMatch(/No reported CAC/);
+  });
+});
+
+describe('buildStep2 — Attention Quality', () => {
+  it('warns on elevated CPM', () => {
+    expect(buildStep2(week({ cpm: 35 }), config).status).toBe('warning');
+  });
+
+  it('fails on CTR below the floor', () => {
+    expect(buildStep2(week({ cpm: 20, ctr: 0.8 }), config).status).toBe('fail');
+  });
+
+  it('fails on frequency above the fatigue line', () => {
+    expect(buildStep2(week({ frequency: 3.5 }), config).status).toBe('fail');
+  });
+
+  it('passes healthy attention metrics', () => {
+    expect(buildStep2(week({ cpm: 20, ctr: 2, frequency: 1.5 }), config).status).toBe('pass');
+  });
+
+  it('uses the configured CPM ceiling', () => {
+    expect(buildStep2(week({ cpm: 35 }), { ...config, cpmCeiling: 40 }).status).toBe('pass');
+  });
+});
+
+describe('buildStep3 — Click → Session', () => {
+  it.each([
+    [1000, 600, 'fail'],
+    [1300, 1000, 'warning'],
+    [1100, 1000, 'pass'],
+  ])('%i clicks / %i sessions → %s', (metaClicks, shopifySessions, status) => {
+    expect(buildStep3(week({ metaClicks, shopifySessions }), config).status).toBe(status);
+  });
+});
+
+describe('buildStep4 — Conversion', () => {
+  it.each([
+    [1.2, 'fail'],
+    [2.0, 'warning'],
+    [3.0, 'pass'],
+  ])('CVR %d%% → %s', (cvr, status) => {
+    expect(buildStep4(week({ cvr }), null, config).status).toBe(status);
+  });
+
+  it('reports the week-over-week change', () => {
+    expect(buildStep4(week({ cvr: 3 }), week({ cvr: 2.5 }), config).finding).toMatch(/WoW change: \+0\.50pp/);
+  });
+});
+
+describe('buildStep5 — New Customer Reality', () => {
+  it.each([
+    [90, 'pass'],
+    [60, 'warning'],
+    [30, 'fail'],
+  ])('%i of 100 forecast → %s', (countActual, status) => {
+    expect(buildStep5(week({ countActual, countForecast: 100 }), config).status).toBe(status);
+  });
+});
+
+describe('buildStep6 — Cash & CM Leak', () => {
+  const base = { aovActual: 100, cacActual: 90, countActual: 10 };
+
+  it.each([
+    [500, 'pass'],
+    [-300, 'warning'],
+    [-890, 'fail'],
+  ])('CM %i over 10 customers → %s', (cmActual, status) => {
+    expect(buildStep6(week({ ...base, cmActual }), config).status).toBe(status);
+  });
+});
+
+describe('buildRCA', () => {
+  const module1 = runModule1(parsePastedData(HEALTHY_TSV));
+  const step = (n: number, status: FunnelStep['status']): FunnelStep => ({
+    step: n, title: `Step ${n}`, status, finding: '', dataUsed: '', warning: null,
+  });
+
+  it('asks for Tier 2 data when none is present', () => {
+    const rca = buildRCA(module1, [step(2, 'no_data'), step(3, 'no_data'), step(4, 'no_data')], config);
+    expect(rca?.action).toBe('Collect Tier 2 data before diagnosing.');
+  });
+
+  it('says monitor when every Tier 2 step passes', () => {
+    const rca = buildRCA(module1, [step(2, 'pass'), step(3, 'pass'), step(4, 'pass')], config);
+    expect(rca?.action).toMatch(/^Monitor/);
+  });
+
+  it('targets the first failing step and notes other breakpoints', () => {
+    const rca = buildRCA(module1, [step(2, 'pass'), step(3, 'fail'), step(4, 'warning')], config);
+    expect(rca?.action).toMatch(/^Fix click-to-session leakage/);
+    expect(rca?.discussion).toMatch(/multiple Tier 2 breakpoints/);
+  });
+
+  it('diagnoses conversion when only CVR fails', () => {
+    const rca = buildRCA(module1, [step(2, 'pass'), step(3, 'pass'), step(4, 'fail')], config);
+    expect(rca?.action).toMatch(/^Fix site conversion/);
+  });
+});
+
+describe('runModule2', () => {
+  it('restricts the default scorecard to leak hunting', () => {
+    const result = runModule2(runModule1(parsePastedData(DEFAULT_TIER1_TSV)));
+    expect(result.allowedScope).toBe('Leak hunting ONLY. Do NOT scale.');
+    expect(result.steps.map(s => s.status)).toEqual(['no_data', 'no_data', 'no_data', 'no_data', 'fail', 'fail']);
+    expect(result.tier2Diagnosis.every(r => r.action === 'Collect data')).toBe(true);
+    expect(result.rcaSummary?.action).toBe('Collect Tier 2 data before diagnosing.');
+  });
+
+  it('passes every Tier 1 step on a healthy scorecard', () => {
+    const result = runModule2(runModule1(parsePastedData(HEALTHY_TSV)));
+    expect(result.steps[0].status).toBe('pass');
+    expect(result.steps[4].status).toBe('pass');
+    expect(result.steps[5].status).toBe('pass');
+  });
+});
@@ -1,6 +1,9 @@
-import type { CalculatedWeek, Module1Result, Module2Result, FunnelStep, Tier2DiagnosisRow } from '../types';
+import type { CalculatedWeek, Module1Result, Module2Result, FunnelStep, Tier2DiagnosisRow, GovernorConfig } from '../types';
+import { DEFAULT_GOVERNOR_CONFIG } from '../data/defaultConfig';
+import { cacLabel, reconcileCac } from './economicGovernor';
+import { describeCacMismatch } from './dataValidator';
 
-export function runModule2(module1: Module1Result): Module2Result {
+export function runModule2(module1: Module1Result, config: GovernorConfig = DEFAULT_GOVERNOR_CONFIG): Module2Result {
   const { verdict, weeks } = module1;
   const latest = module1.latestWeek;
   const prev = weeks.length >= 2 ? weeks[weeks.length - 2] : null;
@@ -20,20 +23,20 @@ export function runModule2(module1: Module1Result): Module2Result {
   }
 
   const steps: FunnelStep[] = [];
-  steps.push(buildStep1(latest, prev));
-  steps.push(buildStep2(latest));
-  steps.push(buildStep3(latest));
-  steps.push(buildStep4(latest, prev));
-  steps.push(buildStep5(latest));
-  steps.push(buildStep6(latest));
+  steps.push(buildStep1(latest, prev, config));
+  steps.push(buildStep2(latest, config));
+  steps.push(buildStep3(latest, config));
+  steps.push(buildStep4(latest, prev, config));
+  steps.push(buildStep5(latest, config));
+  steps.push(buildStep6(latest, config));
 
-  const tier2Diagnosis = buildTier2Diagnosis(latest, steps);
-  const rcaSummary = buildRCA(module1, steps);
+  const tier2Diagnosis = buildTier2Diagnosis(latest, steps, config);
+  const rcaSummary = buildRCA(module1, steps, config);
 
   return { allowed, allowedScope, steps, tier2Diagnosis, rcaSummary };
 }
 
-function buildStep1(latest: CalculatedWeek, prev: CalculatedWeek | null): FunnelStep {
+export function buildStep1(latest: CalculatedWeek, prev: CalculatedWeek | null, config: GovernorConfig): FunnelStep {
   if (latest.adSpend == null || latest.countActual == null) {
     return { step: 1, title: 'Spend → Orders Reality', status: 'no_data', finding: 'Missing ad spend or order count data.', dataUsed: 'N/A', warning: null };
   }
@@ -45,7 +48,7 @@ function buildStep1(latest: CalculatedWeek, prev: CalculatedWeek | null): Funnel
   let finding = '';
 
   if (spendChange != null && orderChange != null) {
-    const proportional = Math.abs(spendChange - orderChange) < 15;
+    const proportional = Math.abs(spendChange - orderChange) < config.spendOrderTolerance;
     if (!proportional && spendChange > 0 && orderChange <= 0) {
       status = 'fail';
       finding = `Spend increased ${spendChange.toFixed(0)}% but orders changed ${orderChange.toFixed(0)}%. Efficiency breakdown — more spend is NOT producing more orders.`;
@@ -56,17 +59,30 @@ function buildStep1(latest: CalculatedWeek, prev: CalculatedWeek | null): Funnel
       finding = `Spend and orders moved proportionally (spend ${spendChange.toFixed(0)}%, orders ${orderChange.toFixed(0)}%).`;
     }
   } else {
-    finding = `WK${latest.weekNum}: $${latest.adSpend.toLocaleString()} spend → ${latest.countActual} orders. CAC: $${latest.cacActual?.toFixed(0) ?? '?'}.`;
+    finding = `WK${latest.weekNum}: $${latest.adSpend.toLocaleString()} spend → ${latest.countActual} orders. CAC: ${cacLabel(latest)}.`;
     if (latest.cacActual != null && latest.aovActual != null && latest.cacActual > latest.aovActual) {
       status = 'fail';
-      finding += ` CAC ($${latest.cacActual}) exceeds AOV ($${latest.aovActual}). Paying more to acquire than they spend.`;
+      finding += ` CAC (${cacLabel(latest)}) exceeds AOV ($${latest.aovActual}). Paying more to acquire than they spend.`;
     }
   }
 
-  return { step: 1, title: 'Spend → Orders Reality', status, finding, dataUsed: 'Tier 1: Ad Spend, Order Count', warning: null };
+  // Reconcile reported CAC with spend ÷ orders
+  let warning: string | null = null;
+  const [cac] = reconcileCac([latest], config);
+  if (cac?.derived) {
+    warning = `No reported CAC — using implied CAC of $${cac.impliedCac.toFixed(0)} (ad spend ÷ first orders).`;
+  } else if (cac) {
+    finding += ` Reported CAC $${cac.reportedCac} vs implied $${cac.impliedCac.toFixed(0)} (spend ÷ orders).`;
+    if (cac.mismatch) {
+      if (status === 'pass') status = 'warning';
+      warning = describeCacMismatch(cac);
+    }
+  }
+
+  return { step: 1, title: 'Spend → Orders Reality', status, finding, dataUsed: 'Tier 1: Ad Spend, Order Count, CAC', warning };
 }
 
-function buildStep2(latest: CalculatedWeek): FunnelStep {
+export function buildStep2(latest: CalculatedWeek, config: GovernorConfig): FunnelStep {
   if (latest.cpm == null && latest.ctr == null && latest.frequency == null) {
     return { step: 2, title: 'Attention Quality (Meta)', status: 'no_data', finding: 'No Meta attention data provided. Input CPM, CTR, and Frequency to diagnose.', dataUsed: 'N/A', warning: null };
   }
@@ -75,7 +91,7 @@ function buildStep2(latest: CalculatedWeek): FunnelStep {
   const findings: string[] = [];
 
   if (latest.cpm != null) {
-    if (latest.cpm > 30) {
+    if (latest.cpm > config.cpmCeiling) {
       status = 'warning';
       findings.push(`CPM at $${latest.cpm.toFixed(2)} — elevated. Check audience saturation.`);
     } else {
@@ -84,10 +100,10 @@ function buildStep2(latest: CalculatedWeek): FunnelStep {
   }
 
   if (latest.ctr != null) {
-    if (latest.ctr < 1.0) {
+    if (latest.ctr < config.ctrFail) {
       status = 'fail';
-      findings.push(`CTR at ${latest.ctr.toFixed(2)}% — below 1%. Message-market mismatch likely.`);
-    } else if (latest.ctr < 1.5) {
+      findings.push(`CTR at ${latest.ctr.toFixed(2)}% — below ${config.ctrFail}%. Message-market mismatch likely.`);
+    } else if (latest.ctr < config.ctrWarn) {
       status = 'warning';
       findings.push(`CTR at ${latest.ctr.toFixed(2)}% — mediocre. Test new hooks/angles.`);
     } else {
@@ -96,10 +112,10 @@ function buildStep2(latest: CalculatedWeek): FunnelStep {
   }
 
   if (latest.frequency != null) {
-    if (latest.frequency > 3) {
+    if (latest.frequency > config.frequencyFail) {
       status = 'fail';
       findings.push(`Frequency at ${latest.frequency.toFixed(1)} — creative fatigue likely. Audience seeing ads ${latest.frequency.toFixed(1)}x.`);
-    } else if (latest.frequency > 2) {
+    } else if (latest.frequency > config.frequencyWarn) {
       if (status !== 'fail') status = 'warning';
       findings.push(`Frequency at ${latest.frequency.toFixed(1)} — approaching fatigue threshold.`);
     } else {
@@ -115,7 +131,7 @@ function buildStep2(latest: CalculatedWeek): FunnelStep {
   };
 }
 
-function buildStep3(latest: CalculatedWeek): FunnelStep {
+export function buildStep3(latest: CalculatedWeek, config: GovernorConfig): FunnelStep {
   if (latest.metaClicks == null || latest.shopifySessions == null) {
     return { step: 3, title: 'Click → Session Integrity', status: 'no_data', finding: 'No click/session data provided. Input Meta clicks and Shopify sessions to diagnose.', dataUsed: 'N/A', warning: null };
   }
@@ -124,10 +140,10 @@ function buildStep3(latest: CalculatedWeek): FunnelStep {
   let status: FunnelStep['status'] = 'pass';
   let finding = '';
 
-  if (ratio > 1.5) {
+  if (ratio > config.clickSessionFail) {
     status = 'fail';
     finding = `${latest.metaClicks} clicks but only ${latest.shopifySessions} sessions (ratio: ${ratio.toFixed(2)}). Major click leakage — tracking issue, slow site, or bot traffic.`;
-  } else if (ratio > 1.2) {
+  } else if (ratio > config.clickSessionWarn) {
     status = 'warning';
     finding = `${latest.metaClicks} clicks vs ${latest.shopifySessions} sessions (ratio: ${ratio.toFixed(2)}). Moderate click loss — check page load speed.`;
   } else {
@@ -141,7 +157,7 @@ function buildStep3(latest: CalculatedWeek): FunnelStep {
   };
 }
 
-function buildStep4(latest: CalculatedWeek, prev: CalculatedWeek | null): FunnelStep {
+export function buildStep4(latest: CalculatedWeek, prev: CalculatedWeek | null, config: GovernorConfig): FunnelStep {
   if (latest.cvr == null) {
     return { step: 4, title: 'Conversion Mechanics', status: 'no_data', finding: 'No CVR data provided. Input site conversion rate to diagnose.', dataUsed: 'N/A', warning: null };
   }
@@ -149,10 +165,10 @@ function buildStep4(latest: CalculatedWeek, prev: CalculatedWeek | null): Funnel
   let status: FunnelStep['status'] = 'pass';
   let finding = '';
 
-  if (latest.cvr < 1.5) {
+  if (latest.cvr < config.cvrFail) {
     status = 'fail';
-    finding = `CVR at ${latest.cvr.toFixed(2)}% — below 1.5%. Check offer clarity, proof elements, and friction.`;
-  } else if (latest.cvr < 2.5) {
+    finding = `CVR at ${latest.cvr.toFixed(2)}% — below ${config.cvrFail}%. Check offer clarity, proof elements, and friction.`;
+  } else if (latest.cvr < config.cvrWarn) {
     status = 'warning';
     finding = `CVR at ${latest.cvr.toFixed(2)}% — mediocre. Room for improvement in offer presentation.`;
   } else {
@@ -171,13 +187,13 @@ function buildStep4(latest: CalculatedWeek, prev: CalculatedWeek | null): Funnel
   };
 }
 
-function buildStep5(latest: CalculatedWeek): FunnelStep {
+export function buildStep5(latest: CalculatedWeek, config: GovernorConfig): FunnelStep {
   if (latest.countActual == null || latest.countForecast == null) {
     return { step: 5, title: 'New Customer Reality', status: 'no_data', finding: 'Missing NC count data.', dataUsed: 'N/A', warning: null };
   }
 
   const pva = latest.countPva!;
-  const status: FunnelStep['status'] = pva >= 85 ? 'pass' : pva >= 50 ? 'warning' : 'fail';
+  const status: FunnelStep['status'] = pva >= config.ncCountPass ? 'pass' : pva >= config.ncCountWarn ? 'warning' : 'fail';
 
   return {
     step: 5, title: 'New Customer Reality', status,
@@ -187,14 +203,14 @@ function buildStep5(latest: CalculatedWeek): FunnelStep {
   };
 }
 
-function buildStep6(latest: CalculatedWeek): FunnelStep {
+export function buildStep6(latest: CalculatedWeek, config: GovernorConfig): FunnelStep {
   if (latest.aovActual == null || latest.cacActual == null || latest.cmActual == null) {
     return { step: 6, title: 'Cash & CM Leak', status: 'no_data', finding: 'Missing AOV, CAC, or CM data.', dataUsed: 'N/A', warning: null };
   }
 
   const count = latest.countActual ?? 1;
   const unitCm = latest.unitCmActual ?? 0;
-  const status: FunnelStep['status'] = unitCm >= 0 ? 'pass' : unitCm > -50 ? 'warning' : 'fail';
+  const status: FunnelStep['status'] = unitCm >= 0 ? 'pass' : unitCm > config.unitCmFail ? 'warning' : 'fail';
 
   const cacGap = (latest.cacActual && latest.cacForecast) ? latest.cacActual - latest.cacForecast : 0;
   const aovGap = (latest.aovForecast && latest.aovActual) ? latest.aovForecast - latest.aovActual : 0;
@@ -202,7 +218,7 @@ function buildStep6(latest: CalculatedWeek): FunnelStep {
   const findings = [
     `Unit CM: $${unitCm.toFixed(0)}/customer.`,
     `AOV: $${latest.aovActual} (${aovGap > 0 ? `-$${aovGap.toFixed(0)} vs plan` : 'on plan'}).`,
-    `CAC: $${latest.cacActual} (${cacGap > 0 ? `+$${cacGap.toFixed(0)} over plan` : 'on plan'}).`,
+    `CAC: ${cacLabel(latest)} (${cacGap > 0 ? `+$${cacGap.toFixed(0)} over plan` : 'on plan'}).`,
   ];
 
   if (cacGap > aovGap) {
@@ -219,7 +235,7 @@ function buildStep6(latest: CalculatedWeek): FunnelStep {
   };
 }
 
-function buildTier2Diagnosis(latest: CalculatedWeek, steps: FunnelStep[]): Tier2DiagnosisRow[] {
+function buildTier2Diagnosis(latest: CalculatedWeek, steps: FunnelStep[], config: GovernorConfig): Tier2DiagnosisRow[] {
   const tier2Steps = steps.filter(s => [2, 3, 4].includes(s.step));
   return tier2Steps.map(s => {
     if (s.status === 'no_data') {
@@ -232,13 +248,13 @@ function buildTier2Diagnosis(latest: CalculatedWeek, steps: FunnelStep[]): Tier2
       };
     }
 
-    if (s.step === 2) return buildStep2Diagnosis(latest, s);
-    if (s.step === 3) return buildStep3Diagnosis(latest, s);
-    return buildStep4Diagnosis(latest, s);
+    if (s.step === 2) return buildStep2Diagnosis(latest, s, config);
+    if (s.step === 3) return buildStep3Diagnosis(latest, s, config);
+    return buildStep4Diagnosis(latest, s, config);
   });
 }
 
-function buildStep2Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2DiagnosisRow {
+function buildStep2Diagnosis(latest: CalculatedWeek, s: FunnelStep, config: GovernorConfig): Tier2DiagnosisRow {
   if (s.status === 'pass') {
     return {
       step: 2, title: s.title, action: 'Monitor',
@@ -254,17 +270,17 @@ function buildStep2Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2Diagno
   const causes: string[] = [];
   const solves: string[] = [];
 
-  if (latest.cpm != null && latest.cpm > 30) {
+  if (latest.cpm != null && latest.cpm > config.cpmCeiling) {
     issues.push(`CPM elevated at $${latest.cpm.toFixed(2)}`);
     causes.push('Audience saturation or competitive auction pressure');
     solves.push('Broaden targeting or test new audiences');
   }
-  if (latest.ctr != null && latest.ctr < 1.5) {
+  if (latest.ctr != null && latest.ctr < config.ctrWarn) {
     issues.push(`CTR low at ${latest.ctr.toFixed(2)}%`);
     causes.push('Message-market mismatch — hooks not resonating');
     solves.push('Test new hooks, angles, and creative formats');
   }
-  if (latest.frequency != null && latest.frequency > 2) {
+  if (latest.frequency != null && latest.frequency > config.frequencyWarn) {
     issues.push(`Frequency high at ${latest.frequency.toFixed(1)}x`);
     causes.push('Creative fatigue — same audience seeing ads too often');
     solves.push('Rotate creative, expand audience, or reduce spend');
@@ -281,7 +297,7 @@ function buildStep2Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2Diagno
   };
 }
 
-function buildStep3Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2DiagnosisRow {
+function buildStep3Diagnosis(latest: CalculatedWeek, s: FunnelStep, config: GovernorConfig): Tier2DiagnosisRow {
   const ratio = latest.clickSessionRatio;
 
   if (s.status === 'pass') {
@@ -295,7 +311,7 @@ function buildStep3Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2Diagno
     };
   }
 
-  const severe = ratio != null && ratio > 1.5;
+  const severe = ratio != null && ratio > config.clickSessionFail;
   return {
     step: 3, title: s.title,
     action: severe ? 'Fix immediately' : 'Investigate',
@@ -311,7 +327,7 @@ function buildStep3Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2Diagno
   };
 }
 
-function buildStep4Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2DiagnosisRow {
+function buildStep4Diagnosis(latest: CalculatedWeek, s: FunnelStep, config: GovernorConfig): Tier2DiagnosisRow {
   if (s.status === 'pass') {
     return {
       step: 4, title: s.title, action: 'Monitor',
@@ -323,11 +339,11 @@ function buildStep4Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2Diagno
     };
   }
 
-  const belowFloor = latest.cvr != null && latest.cvr < 1.5;
+  const belowFloor = latest.cvr != null && latest.cvr < config.cvrFail;
   return {
     step: 4, title: s.title,
     action: belowFloor ? 'Fix immediately' : 'Investigate',
-    identify: `CVR at ${latest.cvr?.toFixed(2)}%${belowFloor ? ' — below 1.5% floor' : ' — mediocre'}.`,
+    identify: `CVR at ${latest.cvr?.toFixed(2)}%${belowFloor ? ` — below ${config.cvrFail}% floor` : ' — mediocre'}.`,
     rootCause: belowFloor
       ? 'Offer clarity, proof elements, or friction killing conversions. Traffic is innocent until proven guilty.'
       : 'Room for improvement in offer presentation, trust signals, or checkout flow.',
@@ -339,7 +355,7 @@ function buildStep4Diagnosis(latest: CalculatedWeek, s: FunnelStep): Tier2Diagno
   };
 }
 
-function buildRCA(module1: Module1Result, steps: FunnelStep[]): Module2Result['rcaSummary'] {
+export function buildRCA(module1: Module1Result, steps: FunnelStep[], config: GovernorConfig): Module2Result['rcaSummary'] {
   const latest = module1.latestWeek;
   if (!latest) return null;
 
@@ -385,9 +401,9 @@ function buildRCA(module1: Module1Result, steps: FunnelStep[]): Module2Result['r
   if (primary.step === 2) {
     action = 'Fix attention layer before diagnosing anything downstream.';
     const issues: string[] = [];
-    if (latest.cpm != null && latest.cpm > 30) issues.push(`CPM at $${latest.cpm.toFixed(2)} signals audience saturation or auction pressure`);
-    if (latest.ctr != null && latest.ctr < 1.5) issues.push(`CTR at ${latest.ctr.toFixed(2)}% signals message-market mismatch`);
-    if (latest.frequency != null && latest.frequency > 2) issues.push(`Frequency at ${latest.frequency.toFixed(1)}x signals creative fatigue`);
+    if (latest.cpm != null && latest.cpm > config.cpmCeiling) issues.push(`CPM at $${latest.cpm.toFixed(2)} signals audience saturation or auction pressure`);
+    if (latest.ctr != null && latest.ctr < config.ctrWarn) issues.push(`CTR at ${latest.ctr.toFixed(2)}% signals message-market mismatch`);
+    if (latest.frequency != null && latest.frequency > config.frequencyWarn) issues.push(`Frequency at ${latest.frequency.toFixed(1)}x signals creative fatigue`);
     rootCause = issues.length > 0 ? issues.join('. ') + '.' : primary.finding;
     discussion = 'Attention is the first domino. High CPM, low CTR, or high frequency corrupt every metric downstream — clicks, sessions, CVR all inherit the problem. Fix this layer first.';
     solve = 'Rotate creative, test new hooks/angles, broaden or refresh audiences, and reduce spend until efficiency returns.';
@@ -405,7 +421,7 @@ function buildRCA(module1: Module1Result, steps: FunnelStep[]): Module2Result['r
   // Step 4 failing = conversion problem
   else {
     action = 'Fix site conversion — traffic is arriving but not buying.';
-    rootCause = `CVR at ${latest.cvr?.toFixed(2)}%${latest.cvr != null && latest.cvr < 1.5 ? ' — below the 1.5% floor' : ''}. The site is failing to convert the traffic it receives.`;
+    rootCause = `CVR at ${latest.cvr?.toFixed(2)}%${latest.cvr != null && latest.cvr < config.cvrFail ? ` — below the ${config.cvrFail}% floor` : ''}. The site is failing to convert the traffic it receives.`;
     discussion = 'Traffic is innocent until proven guilty. Attention and click integrity are acceptable, so the problem is on-site: offer clarity, trust signals, friction, or checkout experience.';
     solve = 'Audit offer presentation, strengthen social proof, simplify checkout flow, test price anchoring and urgency elements. Review mobile vs desktop split.';
     doNotDo = 'Do NOT blame the ad creative or audience for low CVR. The funnel delivered traffic — the site failed to convert it.';
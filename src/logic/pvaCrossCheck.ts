@@ -0,0 +1,46 @@
+import type { CalculatedWeek, PvaMetric, PvaMismatch } from '../types';
+
+interface PvaFields {
+  sheet: keyof CalculatedWeek;
+  computed: keyof CalculatedWeek;
+  actual: keyof CalculatedWeek;
+  forecast: keyof CalculatedWeek;
+}
+
+const PVA_FIELDS: Record<PvaMetric, PvaFields> = {
+  netSales: { sheet: 'sheetNetSalesPva', computed: 'netSalesPva', actual: 'netSalesActual', forecast: 'netSalesForecast' },
+  cm: { sheet: 'sheetCmPva', computed: 'cmPva', actual: 'cmActual', forecast: 'cmForecast' },
+  count: { sheet: 'sheetCountPva', computed: 'countPva', actual: 'countActual', forecast: 'countForecast' },
+  aov: { sheet: 'sheetAovPva', computed: 'aovPva', actual: 'aovActual', forecast: 'aovForecast' },
+  cac: { sheet: 'sheetCacPva', computed: 'cacPva', actual: 'cacActual', forecast: 'cacForecast' },
+};
+
+export const PVA_METRIC_LABELS: Record<PvaMetric, string> = {
+  netSales: 'Net Sales',
+  cm: '1st Order CM',
+  count: '1st Order Count',
+  aov: 'NC AOV',
+  cac: 'CAC',
+};
+
+/**
+ * Compare the sheet's own Plan vs Actual rows with the PvA computed from its forecast/actual rows.
+ * Weeks without a computed PvA (no actuals yet — the sheet prints 0%) are not compared.
+ * When plan and actual are both losses the sheet prints Plan ÷ Actual, so a smaller loss than planned
+ * reads above 100% — that convention counts as agreement.
+ */
+export function crossCheckPva(weeks: CalculatedWeek[], tolerance: number): PvaMismatch[] {
+  const mismatches: PvaMismatch[] = [];
+  for (const w of weeks) {
+    for (const [metric, fields] of Object.entries(PVA_FIELDS) as [PvaMetric, PvaFields][]) {
+      const sheetPva = w[fields.sheet] as number | null;
+      const computedPva = w[fields.computed] as number | null;
+      if (sheetPva == null || computedPva == null) continue;
+      if (Math.abs(sheetPva - computedPva) <= tolerance) continue;
+      const inverted = computedPva !== 0 && Math.abs(sheetPva - 10000 / computedPva) <= tolerance;
+      if (inverted && (w[fields.actual] as number) < 0 && (w[fields.forecast] as number) < 0) continue;
+      mismatches.push({ label: w.label, weekNum: w.weekNum, metric, sheetPva, computedPva, inverted });
+    }
+  }
+  return mismatches;
+}
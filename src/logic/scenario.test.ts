@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyScenario, BASELINE_SCENARIO } from './scenario';
+import { calcWeek } from './economicGovernor';
+import { EMPTY_WEEK, type Scenario, type WeekData } from '../types';
+
+const scenario = (fields: Partial<Scenario>): Scenario => ({ ...BASELINE_SCENARIO, name: 'What-if', ...fields });
+
+// $4,440 spend on 37 first orders = $120 CAC; unit CM -$89.19
+const week: WeekData = { ...EMPTY_WEEK, label: '4 Jan', weekNum: 1, adSpend: 4440, countActual: 37, cmActual: -3300, aovActual: 101.7 };
+
+describe('applyScenario', () => {
+  it('moves reported CAC, ad spend and CM together', () => {
+    const [w] = applyScenario([{ ...week, cacActual: 120 }], scenario({ cacPct: -25 }));
+    expect(w.cacActual).toBeCloseTo(90);
+    expect(w.adSpend).toBeCloseTo(3330);
+    expect(w.cmActual).toBeCloseTo(-3300 + 30 * 37);
+  });
+
+  it('applies the CAC override to weeks whose CAC is derived from spend ÷ orders', () => {
+    const [w] = applyScenario([week], scenario({ cacPct: -25 }));
+    const calculated = calcWeek(w);
+    expect(w.cacActual).toBeNull();
+    expect(calculated.cacDerived).toBe(true);
+    expect(calculated.cacActual).toBeCloseTo(90);
+    expect(w.cmActual).toBeCloseTo(-3300 + 30 * 37);
+  });
+
+  it('moves CM by the contribution rate for every dollar of AOV', () => {
+    const [w] = applyScenario([{ ...week, cacActual: 120 }], scenario({ aovDelta: 10 }));
+    const marginRate = (-3300 / 37 + 120) / 101.7;
+    expect(w.aovActual).toBeCloseTo(111.7);
+    expect(w.cmActual).toBeCloseTo(-3300 + marginRate * 10 * 37);
+    expect(w.adSpend).toBe(4440);
+  });
+
+  it('scales count, CM and ad spend with volume at the same unit economics', () => {
+    const [w] = applyScenario([{ ...week, countForecast: 50, cmForecast: -1000 }], scenario({ countPct: 20 }));
+    expect(w.countActual).toBe(44);
+    expect(w.cmActual).toBeCloseTo((-3300 / 37) * 44);
+    expect(w.adSpend).toBeCloseTo(4440 * 44 / 37);
+    expect(w).toMatchObject({ countForecast: 50, cmForecast: -1000 });
+  });
+
+  it('leaves the weeks alone for the baseline and for weeks without actuals', () => {
+    const weeks = [week];
+    expect(applyScenario(weeks, BASELINE_SCENARIO)).toBe(weeks);
+    const future = { ...EMPTY_WEEK, label: '11 Jan', weekNum: 2, countForecast: 40 };
+    const [, w] = applyScenario([week, future], scenario({ cacPct: -25, countPct: 20 }));
+    expect(w).toBe(future);
+    expect(week.adSpend).toBe(4440);
+  });
+});
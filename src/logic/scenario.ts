@@ -0,0 +1,50 @@
+import type { WeekData, Scenario } from '../types';
+import { calcWeek } from './economicGovernor';
+
+export const BASELINE_SCENARIO: Scenario = { name: 'Baseline', cacPct: 0, aovDelta: 0, countPct: 0 };
+
+export function isBaseline(s: Scenario): boolean {
+  return s.cacPct === 0 && s.aovDelta === 0 && s.countPct === 0;
+}
+
+/**
+ * Apply CAC/AOV/volume overrides to the weeks with actuals. Forecasts are untouched.
+ * CAC is the one calcWeek judges: reported, else ad spend ÷ orders. Weeks that don't report CAC
+ * keep deriving it — from the ad spend the override scales.
+ *
+ * Unit CM moves $1 for every $1 of CAC, and by the week's contribution rate
+ * ((unit CM + CAC) / AOV) for every $1 of AOV. CM and ad spend follow the new
+ * unit CM, CAC and count. Returns new objects — the input weeks are not mutated.
+ */
+export function applyScenario(weeks: WeekData[], scenario: Scenario): WeekData[] {
+  if (isBaseline(scenario)) return weeks;
+
+  return weeks.map(w => {
+    if (w.countActual == null && w.cmActual == null && w.adSpend == null) return w;
+
+    const count = w.countActual;
+    const newCount = count != null ? Math.round(count * (1 + scenario.countPct / 100)) : null;
+    const cac = calcWeek(w).cacActual;
+    const newCac = cac != null ? cac * (1 + scenario.cacPct / 100) : null;
+    const newAov = w.aovActual != null ? w.aovActual + scenario.aovDelta : null;
+
+    let cmActual = w.cmActual;
+    if (w.cmActual != null && count != null && count > 0 && newCount != null) {
+      const unitCm = w.cmActual / count;
+      const cacDelta = (newCac ?? 0) - (cac ?? 0);
+      const marginRate = (cac != null && w.aovActual != null && w.aovActual > 0)
+        ? (unitCm + cac) / w.aovActual : null;
+      const aovEffect = marginRate != null ? marginRate * scenario.aovDelta : 0;
+      cmActual = (unitCm - cacDelta + aovEffect) * newCount;
+    }
+
+    let adSpend = w.adSpend;
+    if (w.adSpend != null && count != null && count > 0 && newCount != null) {
+      const cacRatio = (cac != null && cac > 0 && newCac != null) ? newCac / cac : 1;
+      adSpend = w.adSpend * cacRatio * (newCount / count);
+    }
+
+    const cacActual = w.cacActual != null ? newCac : null;
+    return { ...w, countActual: newCount, cacActual, aovActual: newAov, cmActual, adSpend };
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { compareSnapshots, diffSnapshotWeeks } from './snapshotCompare';
+import { runModule1 } from './economicGovernor';
+import { runModule2 } from './funnelDiagnostician';
+import { describeChange } from './weekDiff';
+import { parsePastedData } from '../sheets';
+import { DEFAULT_GOVERNOR_CONFIG as config } from '../data/defaultConfig';
+import { HEALTHY_TSV, MIRAGE_TSV } from '../test/fixtures';
+import { EMPTY_WEEK, type ResultSnapshot, type WeekData } from '../types';
+
+function snapshot(weeks: WeekData[]): ResultSnapshot {
+  const module1 = runModule1(weeks, config);
+  return { weeks, module1, module2: runModule2(module1, config) };
+}
+
+const wk = (label: string, weekNum: number, fields: Partial<WeekData>): WeekData => ({ ...EMPTY_WEEK, label, weekNum, ...fields });
+
+describe('compareSnapshots', () => {
+  it('reports nothing moved for identical snapshots', () => {
+    const a = snapshot(parsePastedData(HEALTHY_TSV));
+    const result = compareSnapshots(a, snapshot(parsePastedData(HEALTHY_TSV)));
+    expect(result.changes).toEqual([]);
+    expect(result.rca).toEqual([]);
+    expect(result.verdict).toEqual({ before: a.module1.verdict, after: a.module1.verdict });
+  });
+
+  it('shows how the verdict and leak followed a re-cut of the data', () => {
+    const before = snapshot(parsePastedData(HEALTHY_TSV));
+    const after = snapshot(parsePastedData(MIRAGE_TSV));
+    const result = compareSnapshots(before, after);
+    expect(result.verdict).toEqual({ before: 'neither', after: 'volume_problem' });
+    expect(result.biggestLeak.after).toBe(after.module1.biggestLeak);
+    expect(result.changes.map(describeChange)).toContain('WK 1 count actual 100 → 40');
+  });
+});
+
+describe('diffSnapshotWeeks', () => {
+  it('groups Tier 1 and Tier 2 changes by week, with dropped weeks last', () => {
+    const before = [wk('A', 1, { cacActual: 50 }), wk('B', 2, { cpm: 10 }), wk('C', 3, {})];
+    const after = [wk('B', 2, { cpm: 12 }), wk('A', 1, { cacActual: 55, cvr: 2 }), wk('D', 4, { cpm: 9 })];
+    expect(diffSnapshotWeeks(before, after).map(describeChange)).toEqual([
+      'WK 2 CPM 10 → 12',
+      'WK 1 CAC actual 50 → 55',
+      'WK 1 CVR added (2)',
+      'WK 4 (D) added',
+      'WK 3 (C) removed',
+    ]);
+  });
+});
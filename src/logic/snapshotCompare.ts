@@ -0,0 +1,32 @@
+import type { ResultSnapshot, SnapshotComparison, RcaField, WeekChange } from '../types';
+import { diffWeeks, diffTier2Weeks } from './weekDiff';
+
+export const RCA_FIELDS: RcaField[] = ['action', 'rootCause', 'discussion', 'solve', 'doNotDo'];
+
+/** Tier 1 and Tier 2 changes between two sets of weeks, grouped by week in the later set's order (dropped weeks last) */
+export function diffSnapshotWeeks(before: ResultSnapshot['weeks'], after: ResultSnapshot['weeks']): WeekChange[] {
+  const kept = new Set(before.map(w => w.label));
+  const changes = [...diffWeeks(before, after), ...diffTier2Weeks(before, after.filter(w => kept.has(w.label)))];
+  const order = new Map(after.map((w, i) => [w.label, i]));
+  const rank = (c: WeekChange) => order.get(c.label) ?? after.length;
+  return changes
+    .map((change, i) => ({ change, i }))
+    .sort((a, b) => rank(a.change) - rank(b.change) || a.i - b.i)
+    .map(({ change }) => change);
+}
+
+/** Compare an earlier snapshot with a later one — the data that moved and how the verdict, leak and RCA followed */
+export function compareSnapshots(before: ResultSnapshot, after: ResultSnapshot): SnapshotComparison {
+  const rcaBefore = before.module2?.rcaSummary ?? null;
+  const rcaAfter = after.module2?.rcaSummary ?? null;
+  return {
+    changes: diffSnapshotWeeks(before.weeks, after.weeks),
+    verdict: { before: before.module1.verdict, after: after.module1.verdict },
+    scalePermission: { before: before.module1.scalePermission, after: after.module1.scalePermission },
+    biggestLeak: { before: before.module1.biggestLeak, after: after.module1.biggestLeak },
+    biggestLeakDollars: { before: before.module1.biggestLeakDollars, after: after.module1.biggestLeakDollars },
+    rca: RCA_FIELDS
+      .map(field => ({ field, before: rcaBefore?.[field] ?? null, after: rcaAfter?.[field] ?? null }))
+      .filter(r => r.before !== r.after),
+  };
+}
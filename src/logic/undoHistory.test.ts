@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { startHistory, record, replacePresent, undo, redo } from './undoHistory';
+
+describe('undo history', () => {
+  it('undoes and redoes steps in order', () => {
+    let h = record(record(startHistory('a'), 'b'), 'c');
+    h = undo(h);
+    expect(h.present).toBe('b');
+    h = undo(h);
+    expect(h.present).toBe('a');
+    expect(undo(h)).toBe(h); // nothing left to undo
+    h = redo(h);
+    expect(h.present).toBe('b');
+    expect(h.future).toEqual(['c']);
+  });
+
+  it('drops the redo stack when a new step is recorded', () => {
+    const h = record(undo(record(startHistory('a'), 'b')), 'x');
+    expect(h.future).toEqual([]);
+    expect(redo(h)).toBe(h);
+    expect(undo(h).present).toBe('a');
+  });
+
+  it('merges consecutive steps with the same key', () => {
+    let h = record(startHistory(''), '1', 'W1:cpm');
+    h = record(h, '12', 'W1:cpm');
+    h = record(h, '120', 'W1:cpm');
+    h = record(h, '5', 'W2:cpm');
+    expect(h.past).toEqual(['', '120']);
+    expect(undo(undo(h)).present).toBe('');
+  });
+
+  it('starts a new step after an undo even with the same key', () => {
+    let h = record(startHistory(''), '1', 'W1:cpm');
+    h = record(undo(h), '2', 'W1:cpm');
+    expect(h.past).toEqual(['']);
+  });
+
+  it('keeps only the most recent steps', () => {
+    let h = startHistory(0);
+    for (let i = 1; i <= 5; i++) h = record(h, i, null, 3);
+    expect(h.past).toEqual([2, 3, 4]);
+  });
+
+  it('replaces the present without adding a step', () => {
+    const h = replacePresent(record(startHistory('a'), 'b'), 'b2');
+    expect(h.present).toBe('b2');
+    expect(undo(h).present).toBe('a');
+  });
+});
@@ -0,0 +1,50 @@
+/** Undo/redo stacks around the current value. Oldest step first in `past`, next redo first in `future`. */
+export interface UndoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  mergeKey: string | null; // set by the step that produced `present`, see record()
+}
+
+/** Steps kept for undo — older ones are dropped */
+export const UNDO_LIMIT = 50;
+
+export function startHistory<T>(present: T): UndoHistory<T> {
+  return { past: [], present, future: [], mergeKey: null };
+}
+
+/**
+ * Make `next` the present as a new undo step and drop the redo stack.
+ * A step with the same `mergeKey` as the one before it replaces that step, so typing into one cell undoes in one go.
+ */
+export function record<T>(history: UndoHistory<T>, next: T, mergeKey: string | null = null, limit = UNDO_LIMIT): UndoHistory<T> {
+  if (mergeKey != null && mergeKey === history.mergeKey && history.past.length > 0) {
+    return { ...history, present: next, future: [] };
+  }
+  return { past: [...history.past, history.present].slice(-limit), present: next, future: [], mergeKey };
+}
+
+/** Change the present without an undo step — for loads and corrections that should not be undone on their own */
+export function replacePresent<T>(history: UndoHistory<T>, present: T): UndoHistory<T> {
+  return { ...history, present, mergeKey: null };
+}
+
+export function undo<T>(history: UndoHistory<T>): UndoHistory<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    mergeKey: null,
+  };
+}
+
+export function redo<T>(history: UndoHistory<T>): UndoHistory<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    mergeKey: null,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { diffWeeks, diffTier2, diffTier2Weeks, describeChange } from './weekDiff';
+import { parsePastedData } from '../sheets';
+import { EMPTY_WEEK, type WeekData } from '../types';
+import { DEFAULT_TIER1_TSV } from '../test/fixtures';
+
+const wk = (weekNum: number, fields: Partial<WeekData>): WeekData => ({ ...EMPTY_WEEK, label: `W${weekNum}`, weekNum, ...fields });
+
+describe('diffWeeks', () => {
+  it('finds nothing when the sheet is unchanged', () => {
+    const weeks = parsePastedData(DEFAULT_TIER1_TSV);
+    expect(diffWeeks(weeks, parsePastedData(DEFAULT_TIER1_TSV))).toEqual([]);
+  });
+
+  it('reports changed, added and removed values in the new sheet order', () => {
+    const before = [wk(6, { cacActual: 118, countActual: 40 }), wk(7, { countForecast: 50 })];
+    const after = [wk(6, { cacActual: 120 }), wk(7, { countForecast: 50, countActual: 44 })];
+    expect(diffWeeks(before, after).map(describeChange)).toEqual([
+      'WK 6 count actual removed (was 40)',
+      'WK 6 CAC actual 118 → 120',
+      'WK 7 count actual added (44)',
+    ]);
+  });
+
+  it('reports whole weeks added or dropped from the sheet', () => {
+    const changes = diffWeeks([wk(1, {}), wk(2, {})], [wk(2, {}), wk(3, { adSpend: 900 })]);
+    expect(changes.map(c => [c.label, c.field, c.kind])).toEqual([
+      ['W3', null, 'added'],
+      ['W1', null, 'removed'],
+    ]);
+    expect(describeChange(changes[0])).toBe('WK 3 (W3) added');
+  });
+
+  it('ignores Tier 2 fields, which are entered in the app', () => {
+    expect(diffWeeks([wk(1, { cpm: 10 })], [wk(1, { cpm: 12 })])).toEqual([]);
+  });
+});
+
+describe('diffTier2', () => {
+  it('compares the saved values with the week as edited', () => {
+    const changes = diffTier2({ cpm: 12, ctr: 1.5 }, wk(6, { cpm: 12.5, cvr: 2.1 }));
+    expect(changes.map(describeChange)).toEqual([
+      'WK 6 CPM 12 → 12.5',
+      'WK 6 CTR removed (was 1.5)',
+      'WK 6 CVR added (2.1)',
+    ]);
+  });
+
+  it('finds nothing when the week matches what was saved', () => {
+    expect(diffTier2({ cpm: 12 }, wk(6, { cpm: 12, adSpend: 900 }))).toEqual([]);
+  });
+});
+
+describe('diffTier2Weeks', () => {
+  it('lists every Tier 2 value a grid edit would change', () => {
+    const before = [wk(1, { cpm: 10 }), wk(2, { cvr: 2 }), wk(3, {})];
+    const after = [wk(1, { cpm: null }), wk(2, { cvr: 2 }), wk(3, { ctr: 1.2 })];
+    expect(diffTier2Weeks(before, after).map(describeChange)).toEqual([
+      'WK 1 CPM removed (was 10)',
+      'WK 3 CTR added (1.2)',
+    ]);
+  });
+});
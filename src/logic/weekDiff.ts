@@ -0,0 +1,103 @@
+import type { WeekData, WeekChange } from '../types';
+
+/** Tier 1 inputs in sheet order — Tier 2 is entered in the app and never comes from a sync */
+const TIER1_FIELD_LABELS: [keyof WeekData, string][] = [
+  ['netSalesForecast', 'net sales forecast'],
+  ['netSalesActual', 'net sales actual'],
+  ['adSpend', 'ad spend'],
+  ['cmForecast', 'CM forecast'],
+  ['cmActual', 'CM actual'],
+  ['countForecast', 'count forecast'],
+  ['countActual', 'count actual'],
+  ['aovForecast', 'AOV forecast'],
+  ['aovActual', 'AOV actual'],
+  ['cacForecast', 'CAC forecast'],
+  ['cacActual', 'CAC actual'],
+  ['sheetNetSalesPva', 'net sales PvA'],
+  ['sheetCmPva', 'CM PvA'],
+  ['sheetCountPva', 'count PvA'],
+  ['sheetAovPva', 'AOV PvA'],
+  ['sheetCacPva', 'CAC PvA'],
+];
+
+/** Tier 2 inputs typed or imported in the app */
+const TIER2_FIELD_LABELS: [keyof WeekData, string][] = [
+  ['cpm', 'CPM'],
+  ['ctr', 'CTR'],
+  ['cpc', 'CPC'],
+  ['frequency', 'frequency'],
+  ['metaClicks', 'Meta clicks'],
+  ['shopifySessions', 'Shopify sessions'],
+  ['cvr', 'CVR'],
+];
+
+const FIELD_LABELS = new Map([...TIER1_FIELD_LABELS, ...TIER2_FIELD_LABELS]);
+
+function fieldChange(week: WeekData, field: keyof WeekData, a: number | null, b: number | null): WeekChange {
+  return {
+    label: week.label,
+    weekNum: week.weekNum,
+    field,
+    kind: a == null ? 'added' : b == null ? 'removed' : 'changed',
+    before: a,
+    after: b,
+  };
+}
+
+/** Tier 1 changes between two loads of a sheet, matched by week label, in the new sheet's week order */
+export function diffWeeks(before: WeekData[], after: WeekData[]): WeekChange[] {
+  const previous = new Map(before.map(w => [w.label, w]));
+  const current = new Set(after.map(w => w.label));
+  const changes: WeekChange[] = [];
+
+  for (const w of after) {
+    const old = previous.get(w.label);
+    if (!old) {
+      changes.push({ label: w.label, weekNum: w.weekNum, field: null, kind: 'added', before: null, after: null });
+      continue;
+    }
+    for (const [field] of TIER1_FIELD_LABELS) {
+      const a = old[field] as number | null;
+      const b = w[field] as number | null;
+      if (a !== b) changes.push(fieldChange(w, field, a, b));
+    }
+  }
+
+  for (const w of before) {
+    if (!current.has(w.label)) {
+      changes.push({ label: w.label, weekNum: w.weekNum, field: null, kind: 'removed', before: null, after: null });
+    }
+  }
+  return changes;
+}
+
+/** Tier 2 changes to one week, from the values last saved (missing = empty) to the week as it is now */
+export function diffTier2(before: Partial<WeekData>, week: WeekData): WeekChange[] {
+  const changes: WeekChange[] = [];
+  for (const [field] of TIER2_FIELD_LABELS) {
+    const a = (before[field] ?? null) as number | null;
+    const b = week[field] as number | null;
+    if (a !== b) changes.push(fieldChange(week, field, a, b));
+  }
+  return changes;
+}
+
+/** Tier 2 changes across all weeks, matched by label — what an edit to the Tier 2 grid would do */
+export function diffTier2Weeks(before: WeekData[], after: WeekData[]): WeekChange[] {
+  const previous = new Map(before.map(w => [w.label, w]));
+  return after.flatMap(w => diffTier2(previous.get(w.label) ?? {}, w));
+}
+
+const fmt = (n: number | null) => n == null ? '—' : String(Number(n.toFixed(2)));
+
+/** "WK 6 CAC actual 118 → 120", "WK 7 count actual added" */
+export function describeChange(change: WeekChange): string {
+  const week = `WK ${change.weekNum}`;
+  if (change.field == null) return `${week} (${change.label}) ${change.kind === 'added' ? 'added' : 'removed'}`;
+  const field = FIELD_LABELS.get(change.field) ?? change.field;
+  switch (change.kind) {
+    case 'added': return `${week} ${field} added (${fmt(change.after)})`;
+    case 'removed': return `${week} ${field} removed (was ${fmt(change.before)})`;
+    case 'changed': return `${week} ${field} ${fmt(change.before)} → ${fmt(change.after)}`;
+  }
+}
@@ -0,0 +1,14 @@
+import type { MappingTemplate } from './types';
+
+const MAPPING_TEMPLATES_STORAGE_KEY = 'economic-governor-mapping-templates';
+
+export function loadMappingTemplates(): MappingTemplate[] {
+  try {
+    const saved = localStorage.getItem(MAPPING_TEMPLATES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch { return []; }
+}
+
+export function saveMappingTemplates(templates: MappingTemplate[]) {
+  localStorage.setItem(MAPPING_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
@@ -0,0 +1,12 @@
+/** Ask for desktop notification permission — called when the user turns on auto-sync */
+export function requestNotificationPermission() {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+}
+
+/** Desktop notification if allowed — the in-app sync changelog shows the same event regardless */
+export function notify(title: string, body: string) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(title, { body });
+}
@@ -0,0 +1,50 @@
+import type { GovernorConfig, ThresholdProfile } from './types';
+import { DEFAULT_GOVERNOR_CONFIG, DEFAULT_PROFILE_NAME } from './data/defaultConfig';
+
+const PROFILES_STORAGE_KEY = 'economic-governor-profiles';
+const PROFILES_UPLOADED_STORAGE_KEY = 'economic-governor-profiles-uploaded';
+
+/** Fill any thresholds missing from a saved profile with the defaults */
+function withDefaults(config: Partial<GovernorConfig>): GovernorConfig {
+  return { ...DEFAULT_GOVERNOR_CONFIG, ...config };
+}
+
+/** The built-in Default profile followed by the given ones */
+export function withDefaultProfile(profiles: ThresholdProfile[]): ThresholdProfile[] {
+  return [{ name: DEFAULT_PROFILE_NAME, config: DEFAULT_GOVERNOR_CONFIG }, ...profiles.filter(p => p.name !== DEFAULT_PROFILE_NAME)];
+}
+
+/**
+ * This browser's copy of the team's profiles — shown until the server's list loads, and when it can't be reached.
+ * The built-in Default profile is always first.
+ */
+export function loadProfiles(): ThresholdProfile[] {
+  const profiles = withDefaultProfile([]);
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!saved) return profiles;
+    const map: Record<string, Partial<GovernorConfig>> = JSON.parse(saved);
+    for (const [name, config] of Object.entries(map)) {
+      if (name !== DEFAULT_PROFILE_NAME) profiles.push({ name, config: withDefaults(config) });
+    }
+  } catch { /* corrupt storage, fall back to Default */ }
+  return profiles;
+}
+
+/** Save user profiles (the built-in Default is never persisted) */
+export function saveProfiles(profiles: ThresholdProfile[]) {
+  const map: Record<string, GovernorConfig> = {};
+  for (const p of profiles) {
+    if (p.name !== DEFAULT_PROFILE_NAME) map[p.name] = p.config;
+  }
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(map));
+}
+
+/** Whether this browser's profiles were already offered to the server (see App's workspace load) */
+export function profilesUploaded(): boolean {
+  return localStorage.getItem(PROFILES_UPLOADED_STORAGE_KEY) != null;
+}
+
+export function markProfilesUploaded() {
+  localStorage.setItem(PROFILES_UPLOADED_STORAGE_KEY, new Date().toISOString());
+}
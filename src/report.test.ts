@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildMarkdownReport, buildHtmlReport, reportFileName, type ReportInput } from './report';
+import { parsePastedData } from './sheets';
+import { runModule1 } from './logic/economicGovernor';
+import { runModule2 } from './logic/funnelDiagnostician';
+import { DEFAULT_GOVERNOR_CONFIG } from './data/defaultConfig';
+import { DEFAULT_TIER1_TSV, HEALTHY_TSV } from './test/fixtures';
+
+function reportInput(tsv: string, title = 'US'): ReportInput {
+  const module1 = runModule1(parsePastedData(tsv));
+  return { title, currency: 'USD', generatedAt: new Date('2026-02-09T12:00:00Z'), module1, module2: runModule2(module1, DEFAULT_GOVERNOR_CONFIG) };
+}
+
+describe('reportFileName', () => {
+  it('slugs the title and dates the file', () => {
+    expect(reportFileName(reportInput(HEALTHY_TSV, 'UK — Brand & Co'))).toBe('governance-report-uk-brand-co-2026-02-09');
+    expect(reportFileName(reportInput(HEALTHY_TSV, '🇺🇲'))).toBe('governance-report-workspace-2026-02-09');
+  });
+});
+
+describe('buildMarkdownReport', () => {
+  it('leads with the verdict and scale permission, then the funnel steps', () => {
+    const input = reportInput(DEFAULT_TIER1_TSV);
+    const md = buildMarkdownReport(input);
+    expect(md).toMatch(/^# Weekly Governance Report — US\n\nGenerated 2026-02-09 · Latest week: /);
+    expect(md).toContain(`**Scale Permission:** DENIED — ${input.module1.scaleReason}`);
+    expect(md).toContain('## Module 2 — Funnel Diagnostician');
+    expect(md.match(/^\| \d \| /gm)).toHaveLength(input.module2!.steps.length);
+  });
+
+  it('keeps table cells on one line', () => {
+    const input = reportInput(HEALTHY_TSV);
+    const [step, ...rest] = input.module2!.steps;
+    const md = buildMarkdownReport({ ...input, module2: { ...input.module2!, steps: [{ ...step, title: 'CPM | CTR', finding: 'one\ntwo' }, ...rest] } });
+    expect(md).toContain('| 1 | CPM \\| CTR |');
+    expect(md).toContain('one two');
+  });
+
+  it('leaves out Module 2 when it did not run', () => {
+    const md = buildMarkdownReport({ ...reportInput(HEALTHY_TSV), module2: null });
+    expect(md).toContain('**Verdict:** Healthy');
+    expect(md).not.toContain('Module 2');
+  });
+});
+
+describe('buildHtmlReport', () => {
+  it('is a standalone page with the workspace name escaped', () => {
+    const html = buildHtmlReport(reportInput(DEFAULT_TIER1_TSV, '<Brand & Co>'));
+    expect(html).toMatch(/^<!doctype html>/);
+    expect(html).toContain('<title>Weekly Governance Report — &lt;Brand &amp; Co&gt; — 2026-02-09</title>');
+    expect(html).toContain('<span class="bad">DENIED</span>');
+    expect(html).not.toMatch(/<(link|script)\b/);
+  });
+});
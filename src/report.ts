@@ -0,0 +1,221 @@
+import type { Module1Result, Module2Result, FunnelStep } from './types';
+import { formatMoney } from './currency';
+
+export interface ReportInput {
+  title: string; // e.g. workspace name
+  currency: string;
+  generatedAt: Date;
+  module1: Module1Result;
+  module2: Module2Result | null;
+}
+
+const VERDICT_LABELS: Record<string, string> = {
+  cm_problem: 'CM Problem',
+  volume_problem: 'Volume Problem',
+  both: 'Both Broken',
+  neither: 'Healthy',
+};
+
+const PERMISSION_LABELS: Record<string, string> = {
+  denied: 'DENIED',
+  leak_hunt_only: 'LEAK HUNT ONLY',
+  allowed: 'ALLOWED',
+};
+
+const STATUS_LABELS: Record<FunnelStep['status'], string> = {
+  pass: 'PASS',
+  fail: 'FAIL',
+  warning: 'WARNING',
+  no_data: 'NO DATA',
+};
+
+function reportDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** Suggested download file name, e.g. "governance-report-us-2026-02-09" */
+export function reportFileName(input: ReportInput): string {
+  const slug = input.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `governance-report-${slug || 'workspace'}-${reportDate(input.generatedAt)}`;
+}
+
+/** Escape a value for a Markdown table cell */
+function mdCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function buildMarkdownReport(input: ReportInput): string {
+  const { module1: m1, module2: m2, currency } = input;
+  const lines: string[] = [];
+
+  lines.push(`# Weekly Governance Report — ${input.title}`);
+  lines.push('');
+  lines.push(`Generated ${reportDate(input.generatedAt)}${m1.latestWeek ? ` · Latest week: ${m1.latestWeek.label || `WK ${m1.latestWeek.weekNum}`}` : ''}`);
+  lines.push('');
+  lines.push('## Module 1 — Economic Governor');
+  lines.push('');
+  lines.push(`**Verdict:** ${VERDICT_LABELS[m1.verdict]} — ${m1.verdictExplanation}`);
+  lines.push('');
+  if (m1.dataCaveat) {
+    lines.push(`**Verdict Caveat — Inconsistent Inputs:** ${m1.dataCaveat}`);
+    lines.push('');
+  }
+  lines.push(`**Scale Permission:** ${PERMISSION_LABELS[m1.scalePermission]} — ${m1.scaleReason}`);
+  lines.push('');
+  lines.push(`**CM Mirage:** ${m1.cmMirage ? `DETECTED — ${m1.cmMirageExplanation}` : 'Not detected'}`);
+  if (m1.biggestLeak) {
+    lines.push('');
+    lines.push(`**Biggest Dollar Leak:** ${m1.biggestLeak} (= ${formatMoney(m1.biggestLeakDollars, currency)}/week at current volume)`);
+  }
+
+  if (m2) {
+    lines.push('');
+    lines.push('## Module 2 — Funnel Diagnostician');
+    lines.push('');
+    lines.push(m2.allowedScope);
+    lines.push('');
+    lines.push('| Step | Title | Status | Finding |');
+    lines.push('| --- | --- | --- | --- |');
+    for (const s of m2.steps) {
+      const finding = s.warning ? `${s.finding} ⚠ ${s.warning}` : s.finding;
+      lines.push(`| ${s.step} | ${mdCell(s.title)} | ${STATUS_LABELS[s.status]} | ${mdCell(finding)} |`);
+    }
+
+    if (m2.tier2Diagnosis.length > 0) {
+      lines.push('');
+      lines.push('### Tier 2 Diagnostic — Action Table');
+      lines.push('');
+      lines.push('| Step | Action | Identify | Root Cause | Discuss | Solve | Assign |');
+      lines.push('| --- | --- | --- | --- | --- | --- | --- |');
+      for (const r of m2.tier2Diagnosis) {
+        lines.push(`| ${r.step}. ${mdCell(r.title)} | ${mdCell(r.action)} | ${mdCell(r.identify)} | ${mdCell(r.rootCause)} | ${mdCell(r.discuss)} | ${mdCell(r.solve)} | ${mdCell(r.assign)} |`);
+      }
+    }
+
+    if (m2.rcaSummary) {
+      const rca = m2.rcaSummary;
+      lines.push('');
+      lines.push('### Root Cause Analysis');
+      lines.push('');
+      lines.push(`- **Action:** ${rca.action}`);
+      lines.push(`- **Root Cause:** ${rca.rootCause}`);
+      lines.push(`- **Discussion:** ${rca.discussion}`);
+      lines.push(`- **Solve:** ${rca.solve}`);
+      lines.push(`- **Do NOT Do:** ${rca.doNotDo}`);
+    }
+  }
+
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+  for (const w of m1.warnings) lines.push(`> ⚠ ${w}`);
+
+  return lines.join('\n') + '\n';
+}
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const REPORT_CSS = `
+  body { font: 13px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; max-width: 960px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 1px solid #d1d5db; padding-bottom: 4px; }
+  h3 { font-size: 14px; margin: 20px 0 8px; }
+  .meta { color: #6b7280; font-size: 12px; }
+  .card { border: 1px solid #d1d5db; border-radius: 6px; padding: 10px 12px; margin: 8px 0; }
+  .label { font-size: 11px; text-transform: uppercase; letter-spacing: .05em; color: #6b7280; }
+  .bad { color: #b91c1c; font-weight: 700; }
+  .warn { color: #a16207; font-weight: 700; }
+  .good { color: #15803d; font-weight: 700; }
+  .muted { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .footnote { font-size: 11px; color: #6b7280; margin-top: 24px; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    tr, .card { break-inside: avoid; }
+  }
+`;
+
+const STATUS_CLASS: Record<FunnelStep['status'], string> = {
+  pass: 'good',
+  fail: 'bad',
+  warning: 'warn',
+  no_data: 'muted',
+};
+
+/** Self-contained HTML report (inline CSS, no external assets) with a print layout for PDF */
+export function buildHtmlReport(input: ReportInput): string {
+  const { module1: m1, module2: m2, currency } = input;
+  const verdictClass = m1.verdict === 'neither' ? 'good' : m1.verdict === 'volume_problem' ? 'warn' : 'bad';
+  const permissionClass = m1.scalePermission === 'allowed' ? 'good' : m1.scalePermission === 'denied' ? 'bad' : 'warn';
+  const parts: string[] = [];
+
+  parts.push(`<h1>Weekly Governance Report — ${esc(input.title)}</h1>`);
+  parts.push(`<div class="meta">Generated ${reportDate(input.generatedAt)}${m1.latestWeek ? ` · Latest week: ${esc(m1.latestWeek.label || `WK ${m1.latestWeek.weekNum}`)}` : ''}</div>`);
+
+  parts.push('<h2>Module 1 — Economic Governor</h2>');
+  parts.push(`<div class="card"><div class="label">Verdict</div><span class="${verdictClass}">${VERDICT_LABELS[m1.verdict]}</span> — ${esc(m1.verdictExplanation)}</div>`);
+  if (m1.dataCaveat) {
+    parts.push(`<div class="card"><div class="label">Verdict Caveat — Inconsistent Inputs</div><span class="bad">${esc(m1.dataCaveat)}</span></div>`);
+  }
+  parts.push(`<div class="card"><div class="label">Scale Permission</div><span class="${permissionClass}">${PERMISSION_LABELS[m1.scalePermission]}</span> — ${esc(m1.scaleReason)}</div>`);
+  parts.push(`<div class="card"><div class="label">CM Mirage</div>${m1.cmMirage ? `<span class="bad">DETECTED</span> — ${esc(m1.cmMirageExplanation ?? '')}` : 'Not detected'}</div>`);
+  if (m1.biggestLeak) {
+    parts.push(`<div class="card"><div class="label">Biggest Dollar Leak</div>${esc(m1.biggestLeak)} <span class="bad">= ${esc(formatMoney(m1.biggestLeakDollars, currency))}/week</span></div>`);
+  }
+
+  if (m2) {
+    parts.push('<h2>Module 2 — Funnel Diagnostician</h2>');
+    parts.push(`<p>${esc(m2.allowedScope)}</p>`);
+    parts.push('<table><thead><tr><th>Step</th><th>Title</th><th>Status</th><th>Finding</th></tr></thead><tbody>');
+    for (const s of m2.steps) {
+      parts.push(`<tr><td>${s.step}</td><td>${esc(s.title)}</td><td class="${STATUS_CLASS[s.status]}">${STATUS_LABELS[s.status]}</td><td>${esc(s.finding)}${s.warning ? ` <span class="warn">⚠ ${esc(s.warning)}</span>` : ''}</td></tr>`);
+    }
+    parts.push('</tbody></table>');
+
+    if (m2.tier2Diagnosis.length > 0) {
+      parts.push('<h3>Tier 2 Diagnostic — Action Table</h3>');
+      parts.push('<table><thead><tr><th>Step</th><th>Action</th><th>Identify</th><th>Root Cause</th><th>Discuss</th><th>Solve</th><th>Assign</th></tr></thead><tbody>');
+      for (const r of m2.tier2Diagnosis) {
+        parts.push(`<tr><td>${r.step}. ${esc(r.title)}</td><td>${esc(r.action)}</td><td>${esc(r.identify)}</td><td>${esc(r.rootCause)}</td><td>${esc(r.discuss)}</td><td>${esc(r.solve)}</td><td>${esc(r.assign)}</td></tr>`);
+      }
+      parts.push('</tbody></table>');
+    }
+
+    if (m2.rcaSummary) {
+      const rca = m2.rcaSummary;
+      parts.push('<h3>Root Cause Analysis</h3>');
+      parts.push('<table><tbody>');
+      for (const [label, value] of [
+        ['Action', rca.action], ['Root Cause', rca.rootCause], ['Discussion', rca.discussion],
+        ['Solve', rca.solve], ['Do NOT Do', rca.doNotDo],
+      ]) {
+        parts.push(`<tr><th style="width:120px">${label}</th><td>${esc(value)}</td></tr>`);
+      }
+      parts.push('</tbody></table>');
+    }
+  }
+
+  parts.push(`<div class="footnote">${m1.warnings.map(w => `⚠ ${esc(w)}`).join('<br>')}</div>`);
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Weekly Governance Report — ${esc(input.title)} — ${reportDate(input.generatedAt)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+${parts.join('\n')}
+</body>
+</html>
+`;
+}
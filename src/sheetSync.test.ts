@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseSheetUrl, sheetCsvUrl, syncSheet, SheetSyncError, SHEET_PROXY_PATH } from './sheetSync';
+import { DEFAULT_SHEET_SOURCE } from './data/defaultData';
+import { HEALTHY_TSV } from './test/fixtures';
+import { toDelimited, parseDelimited } from './csv';
+import { setApiToken } from './api';
+
+const source = DEFAULT_SHEET_SOURCE;
+
+function stubFetch(response: Response | Error) {
+  const fn = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  vi.stubGlobal('fetch', fn);
+  return fn;
+}
+
+async function syncError(viaProxy = false): Promise<SheetSyncError> {
+  try {
+    await syncSheet(source, {}, viaProxy);
+  } catch (err) {
+    if (err instanceof SheetSyncError) return err;
+    throw err;
+  }
+  throw new Error('sync did not fail');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseSheetUrl', () => {
+  it('reads the spreadsheet ID and gid from edit and export links', () => {
+    expect(parseSheetUrl('https://docs.google.com/spreadsheets/d/abc_12-X/edit#gid=42')).toEqual({ spreadsheetId: 'abc_12-X', gid: '42' });
+    expect(parseSheetUrl(sheetCsvUrl(source))).toEqual({ spreadsheetId: source.spreadsheetId, gid: source.gid });
+    expect(parseSheetUrl('https://docs.google.com/spreadsheets/d/abc/edit')).toEqual({ spreadsheetId: 'abc', gid: '0' });
+    expect(parseSheetUrl('abc')).toBeNull();
+  });
+});
+
+describe('syncSheet', () => {
+  it('parses the fetched CSV into weeks', async () => {
+    const csv = toDelimited(parseDelimited(HEALTHY_TSV, '\t'), ',');
+    stubFetch(new Response(csv, { headers: { 'content-type': 'text/csv' } }));
+    const { weeks } = await syncSheet(source, {}, false);
+    expect(weeks.length).toBeGreaterThan(0);
+  });
+
+  it('requests the proxy route with the session token when syncing through the local server', async () => {
+    const fetchFn = stubFetch(new Response('', { status: 500 }));
+    setApiToken('abc');
+    await syncError(true);
+    setApiToken(null);
+    expect(fetchFn).toHaveBeenCalledWith(
+      `${SHEET_PROXY_PATH}?id=${source.spreadsheetId}&gid=${source.gid}`,
+      { headers: { Authorization: 'Bearer abc' } },
+    );
+  });
+
+  it('reports network failures separately from HTTP errors', async () => {
+    stubFetch(new TypeError('Failed to fetch'));
+    expect((await syncError()).kind).toBe('network');
+    expect((await syncError(true)).message).toMatch(/npm run server/);
+  });
+
+  it('reports the HTTP status and the proxy error text', async () => {
+    stubFetch(new Response(JSON.stringify({ error: 'Google Sheets answered HTTP 404' }), { status: 502 }));
+    const err = await syncError(true);
+    expect(err).toMatchObject({ kind: 'http', status: 502 });
+    expect(err.message).toMatch(/HTTP 502: Google Sheets answered HTTP 404/);
+  });
+
+  it('treats a sign-in page as a sharing problem', async () => {
+    stubFetch(new Response('<html>', { headers: { 'content-type': 'text/html; charset=utf-8' } }));
+    expect((await syncError()).message).toMatch(/sign-in page/);
+  });
+
+  it('reports malformed CSV and unusable tables as parse errors', async () => {
+    stubFetch(new Response('Date,"4 Jan', { headers: { 'content-type': 'text/csv' } }));
+    expect(await syncError()).toMatchObject({ kind: 'parse', message: expect.stringMatching(/malformed CSV/) });
+
+    stubFetch(new Response('Date', { headers: { 'content-type': 'text/csv' } }));
+    expect(await syncError()).toMatchObject({ kind: 'parse', message: expect.stringMatching(/Not enough rows/) });
+  });
+});
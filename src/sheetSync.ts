@@ -0,0 +1,97 @@
+import type { SheetSource, WeekData } from './types';
+import { parsePastedData, type ParseOptions } from './sheets';
+import { csvToTsv } from './data/defaultData';
+import { CsvParseError } from './csv';
+import { authHeaders } from './api';
+
+/** Local server route that fetches a sheet's CSV on the app's behalf (see server/) */
+export const SHEET_PROXY_PATH = '/api/sheets/csv';
+
+export type SheetSyncErrorKind = 'network' | 'http' | 'parse';
+
+/** Why "Sync from Sheet" failed — network (unreachable or CORS), an HTTP status, or unreadable data */
+export class SheetSyncError extends Error {
+  readonly kind: SheetSyncErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: SheetSyncErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'SheetSyncError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+const SPREADSHEET_ID = /^[A-Za-z0-9_-]+$/;
+const GID = /^\d+$/;
+
+export function isValidSheetSource(source: Pick<SheetSource, 'spreadsheetId' | 'gid'>): boolean {
+  return SPREADSHEET_ID.test(source.spreadsheetId) && GID.test(source.gid);
+}
+
+/** Google's CSV export URL for one tab */
+export function sheetCsvUrl(source: Pick<SheetSource, 'spreadsheetId' | 'gid'>): string {
+  return `https://docs.google.com/spreadsheets/d/${source.spreadsheetId}/export?format=csv&gid=${source.gid}`;
+}
+
+/** Pull the spreadsheet ID and gid out of any Sheets URL (edit link, export link, #gid= fragment) */
+export function parseSheetUrl(url: string): Pick<SheetSource, 'spreadsheetId' | 'gid'> | null {
+  const id = url.match(/\/spreadsheets\/d\/([A-Za-z0-9_-]+)/)?.[1];
+  if (!id) return null;
+  return { spreadsheetId: id, gid: url.match(/[#&?]gid=(\d+)/)?.[1] ?? '0' };
+}
+
+function requestUrl(source: SheetSource, viaProxy: boolean): string {
+  if (!viaProxy) return sheetCsvUrl(source);
+  const params = new URLSearchParams({ id: source.spreadsheetId, gid: source.gid });
+  return `${SHEET_PROXY_PATH}?${params}`;
+}
+
+/** Error text from a failed response — the proxy replies with {"error": "..."} */
+async function responseError(res: Response): Promise<string> {
+  try {
+    const body = await res.json() as { error?: unknown } | null;
+    if (typeof body?.error === 'string') return body.error;
+  } catch { /* not JSON */ }
+  return res.statusText || 'request failed';
+}
+
+/** Fetch a source's CSV, directly from Google or through the local proxy */
+export async function fetchSheetCsv(source: SheetSource, viaProxy: boolean): Promise<string> {
+  if (!isValidSheetSource(source)) {
+    throw new SheetSyncError('parse', `"${source.label}" needs a spreadsheet ID and a numeric gid`);
+  }
+
+  let res: Response;
+  try {
+    res = viaProxy
+      ? await fetch(requestUrl(source, true), { headers: authHeaders() })
+      : await fetch(requestUrl(source, false));
+  } catch {
+    throw new SheetSyncError('network', viaProxy
+      ? 'Could not reach the local proxy — is `npm run server` running?'
+      : 'Could not reach Google Sheets — offline, or the request was blocked by CORS. Turn on "Fetch through local proxy" or use "Paste / Upload".');
+  }
+
+  if (!res.ok) {
+    const detail = await responseError(res);
+    throw new SheetSyncError('http', `Sheet request failed with HTTP ${res.status}: ${detail}`, res.status);
+  }
+  // Private sheets redirect to a Google sign-in page instead of failing
+  if (res.headers.get('content-type')?.includes('text/html')) {
+    throw new SheetSyncError('http', 'Google returned a sign-in page — share the sheet as "Anyone with the link can view"', res.status);
+  }
+  return res.text();
+}
+
+/** Fetch a source and parse it as Tier 1 data */
+export async function syncSheet(source: SheetSource, options: ParseOptions, viaProxy: boolean): Promise<{ tsv: string; weeks: WeekData[] }> {
+  const csv = await fetchSheetCsv(source, viaProxy);
+  try {
+    const tsv = csvToTsv(csv);
+    return { tsv, weeks: parsePastedData(tsv, options) };
+  } catch (err) {
+    const detail = err instanceof CsvParseError ? `malformed CSV — ${err.message}` : err instanceof Error ? err.message : String(err);
+    throw new SheetSyncError('parse', `Could not read "${source.label}": ${detail}`);
+  }
+}
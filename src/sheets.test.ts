@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { parsePastedData, analyzePastedData, applyTier2Map } from './sheets';
+import { DEFAULT_TIER1_TSV, HEALTHY_TSV } from './test/fixtures';
+
+describe('parsePastedData', () => {
+  const weeks = parsePastedData(DEFAULT_TIER1_TSV);
+
+  it('creates one week per date column', () => {
+    expect(weeks).toHaveLength(14);
+    expect(weeks[0]).toMatchObject({ label: '28 Dec', weekNum: 1 });
+    expect(weeks[13]).toMatchObject({ label: '29 Mar', weekNum: 14 });
+  });
+
+  it('multiplies 1st Order CM (1000s) by 1000', () => {
+    expect(weeks[0].cmForecast).toBeCloseTo(-1100);
+    expect(weeks[5].cmActual).toBeCloseTo(-3300);
+  });
+
+  it('separates forecast from actual rows', () => {
+    expect(weeks[5]).toMatchObject({
+      countForecast: 134, countActual: 37,
+      aovForecast: 86, aovActual: 101.7,
+      cacForecast: 86, cacActual: 120,
+    });
+  });
+
+  it('keeps Plan vs Actual rows out of the metric fields and leaves empty cells null', () => {
+    expect(weeks[6].countActual).toBeNull();
+    expect(weeks[6].cmActual).toBeNull();
+    expect(weeks[6].countForecast).toBe(143);
+  });
+
+  it('strips currency symbols and thousands separators', () => {
+    expect(parsePastedData(HEALTHY_TSV)[2].adSpend).toBe(6300);
+  });
+
+  it('reads CSV with quoted thousands separators and multi-line labels', () => {
+    const csv = 'Date,4 Jan,11 Jan\r\n"Ad Spend\nMeta USD","$1,200","$1,350"\r\n';
+    const weeks = parsePastedData(csv);
+    expect(weeks.map(w => w.adSpend)).toEqual([1200, 1350]);
+  });
+
+  it('reports the position of malformed input', () => {
+    expect(() => parsePastedData('Date\t4 Jan\n"CAC\t$90')).toThrow(/row 2, column 1/);
+  });
+
+  it('skips rows flagged for another market', () => {
+    const tsv = 'Date\t4 Jan\n1st Order Count 🇨🇦\t50\n1st Order Count 🇺🇲\t20';
+    expect(parsePastedData(tsv, { marketFlag: '🇺🇲' })[0].countActual).toBe(20);
+    expect(parsePastedData(tsv, { marketFlag: '🇨🇦' })[0].countActual).toBe(50);
+  });
+
+  it('rejects input without a header and data row', () => {
+    expect(() => parsePastedData('Date\t4 Jan')).toThrow(/Not enough rows/);
+    expect(() => parsePastedData('Date\nCAC\t$1')).toThrow(/No week columns/);
+  });
+});
+
+describe('analyzePastedData', () => {
+  it('reports rows that carry numbers but match no rule', () => {
+    const { rows } = analyzePastedData('Date\t4 Jan\nWk\tWK 1\nReturning Orders\t12\nCAC Actuals\t$90');
+    expect(rows.map(r => [r.status, r.reason])).toEqual([
+      ['skipped', 'Week header'],
+      ['skipped', 'No numeric values'],
+      ['unmatched', null],
+      ['mapped', null],
+    ]);
+    expect(rows[3]).toMatchObject({ field: 'cacActual', multiply: 1 });
+  });
+
+  it('attributes each Plan vs Actual row to the metric row above it', () => {
+    const { rows, weeks } = analyzePastedData(DEFAULT_TIER1_TSV);
+    expect(rows.filter(r => /Plan vs Actual/.test(r.label)).map(r => r.field)).toEqual([
+      'sheetNetSalesPva', 'sheetCmPva', 'sheetCountPva', 'sheetAovPva', 'sheetCacPva',
+    ]);
+    expect(weeks[0]).toMatchObject({ netSalesForecast: 8000, netSalesActual: 5600, sheetNetSalesPva: 66, sheetCacPva: 108 });
+  });
+
+  it('skips a Plan vs Actual row with no metric row above it', () => {
+    const { rows } = analyzePastedData('Date\t4 Jan\nReturning Orders\t12\nPlan vs Actual\t80%');
+    expect(rows[2]).toMatchObject({ status: 'skipped', field: null });
+  });
+
+  it('applies hand-fixed mappings before the built-in rules', () => {
+    const tsv = 'Date\t4 Jan\nSpend (k)\t$1.5\nCAC Actuals\t$90';
+    const report = analyzePastedData(tsv, {
+      overrides: { 'Spend (k)': { field: 'adSpend', multiply: 1000 }, 'CAC Actuals': null },
+    });
+    expect(report.weeks[0]).toMatchObject({ adSpend: 1500, cacActual: null });
+    expect(report.rows.map(r => r.status)).toEqual(['skipped', 'override', 'override']);
+  });
+
+  it('lists cells that are not numbers and fields fed by several rows', () => {
+    const tsv = 'Date\t4 Jan\t11 Jan\nCAC Actuals\t$90\tn/a\nCAC Actuals (old)\t$80\t$85';
+    const report = analyzePastedData(tsv);
+    expect(report.unparseable).toEqual([{ rowNum: 2, column: 3, label: 'CAC Actuals', week: '11 Jan', raw: 'n/a' }]);
+    expect(report.duplicateFields).toEqual(['cacActual']);
+  });
+});
+
+describe('mapping rules', () => {
+  const tsv = 'Date\t4 Jan\nContribution Plan (k)\t$2\nContribution Actual (k)\t$1.5\nSpend\t€900';
+
+  it('maps renamed rows through custom rules', () => {
+    const [week] = parsePastedData(tsv, {
+      rules: [
+        { pattern: '^Contribution Plan', metric: 'cm', series: 'forecast', scale: 1000, currency: '' },
+        { pattern: '^Contribution', metric: 'cm', series: 'actual', scale: 1000, currency: '' },
+        { pattern: 'Spend', metric: 'adSpend', series: 'detect', scale: 1, currency: '' },
+      ],
+    });
+    expect(week).toMatchObject({ cmForecast: 2000, cmActual: 1500, adSpend: 900 });
+  });
+
+  it('skips rules with invalid patterns and leaves unmatched rows unloaded', () => {
+    const report = analyzePastedData(tsv, {
+      rules: [
+        { pattern: '(', metric: 'adSpend', series: 'actual', scale: 1, currency: '' },
+        { pattern: 'Spend', metric: 'adSpend', series: 'actual', scale: 1, currency: '' },
+      ],
+    });
+    expect(report.weeks[0].adSpend).toBe(900);
+    expect(report.rows.filter(r => r.status === 'unmatched')).toHaveLength(2);
+  });
+
+  it('flags rows whose currency differs from the workspace', () => {
+    const report = analyzePastedData(tsv, {
+      currency: 'USD',
+      rules: [{ pattern: 'Spend', metric: 'adSpend', series: 'actual', scale: 1, currency: 'EUR' }],
+    });
+    expect(report.rows[3].warning).toMatch(/EUR.*USD/);
+  });
+});
+
+describe('applyTier2Map', () => {
+  it('merges Tier 2 values by week label without touching Tier 1', () => {
+    const weeks = parsePastedData(DEFAULT_TIER1_TSV);
+    const merged = applyTier2Map(weeks, { '1 Feb': { cpm: 12.5, cacActual: 1 } });
+    expect(merged[5].cpm).toBe(12.5);
+    expect(merged[5].cacActual).toBe(120);
+    expect(merged[4].cpm).toBeNull();
+  });
+});
@@ -1,66 +1,155 @@
-import type { WeekData } from './types';
+import type { WeekData, MappingOverrides, MappingRule, MappingMetric, Workspace } from './types';
 import { EMPTY_WEEK } from './types';
+import { DEFAULT_MAPPING_RULES } from './data/defaultMappingRules';
+import { parseDelimited, detectDelimiter, type Delimiter } from './csv';
 
-function parseTSV(text: string): string[][] {
-  return text.trim().split('\n').map(line =>
-    line.split('\t').map(cell => cell.replace(/^"|"$/g, '').trim())
-  );
+interface SourceRow {
+  rowNum: number; // 1-based record number in the source text
+  cells: string[];
 }
 
-function parseValue(raw: string): number | null {
+/** Read pasted/synced text into trimmed cells, dropping blank rows */
+function parseTable(text: string, delimiter: Delimiter): SourceRow[] {
+  return parseDelimited(text, delimiter)
+    .map((row, i) => ({ rowNum: i + 1, cells: row.map(cell => cell.trim()) }))
+    .filter(row => row.cells.some(cell => cell !== ''));
+}
+
+/** Parse a numeric cell: "$1,200" → 1200, "-$1.1" → -1.1, "66%" → 66. Anything else is null. */
+export function parseValue(raw: string | undefined): number | null {
   if (!raw || raw.trim() === '') return null;
-  const cleaned = raw.replace(/[$,%\s]/g, '');
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? null : num;
+  const cleaned = raw.replace(/[\s,%]|\p{Sc}/gu, ''); // strip whitespace, separators, %, currency symbols
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+export interface ParseOptions {
+  marketFlag?: string; // e.g. "🇺🇲" — skip rows flagged for a different market
+  delimiter?: Delimiter; // detected from the first line if omitted
+  rules?: MappingRule[]; // row rules, DEFAULT_MAPPING_RULES if omitted
+  overrides?: MappingOverrides; // hand-fixed mappings by row label, applied before the rules
+  currency?: string; // workspace currency — rows whose rule declares another currency are flagged
+}
+
+/** Parse options for a workspace's market, currency, row rules and hand-fixed row mappings */
+export function workspaceParseOptions(workspace: Workspace): ParseOptions {
+  return {
+    marketFlag: workspace.marketFlag,
+    currency: workspace.currency,
+    rules: workspace.mappingRules,
+    overrides: workspace.mappingOverrides,
+  };
+}
+
+/** Regional-indicator pairs, i.e. flag emoji such as 🇺🇲 or 🇨🇦 */
+const FLAG_PATTERN = /[\u{1F1E6}-\u{1F1FF}]{2}/gu;
+
+/** True if the row is flagged only for markets other than the given one */
+function isOtherMarket(label: string, marketFlag: string | undefined): boolean {
+  if (!marketFlag) return false;
+  const flags = label.match(FLAG_PATTERN);
+  return flags != null && !flags.includes(marketFlag);
 }
 
 interface RowMatch {
   field: keyof WeekData;
   multiply: number;
+  currency?: string;
 }
 
-function matchRow(label: string): RowMatch | null {
-  const clean = label.trim();
+function isPlanVsActual(label: string): boolean {
+  return /plan\s*v/i.test(label);
+}
 
-  // Skip Plan vs Actual rows
-  if (/plan\s*v/i.test(clean)) return null;
+const FORECAST_PATTERN = /f(orecast|cast)/i;
 
-  // 1st Order CM — values are in thousands, multiply by 1000
-  if (/1st Order CM/i.test(clean)) {
-    if (/f(orecast|cast)/i.test(clean)) return { field: 'cmForecast', multiply: 1000 };
-    return { field: 'cmActual', multiply: 1000 };
-  }
+interface MetricFields {
+  forecast: keyof WeekData | null;
+  actual: keyof WeekData;
+  sheetPva: keyof WeekData | null; // where the Plan vs Actual row printed under the metric goes
+}
 
-  // 1st Order Count — raw counts, no multiplier
-  if (/1st Order Count/i.test(clean)) {
-    if (/f(orecast|cast)/i.test(clean)) return { field: 'countForecast', multiply: 1 };
-    return { field: 'countActual', multiply: 1 };
-  }
+/** WeekData fields per metric — Ad Spend has no forecast or PvA row */
+export const METRIC_FIELDS: Record<MappingMetric, MetricFields> = {
+  netSales: { forecast: 'netSalesForecast', actual: 'netSalesActual', sheetPva: 'sheetNetSalesPva' },
+  cm: { forecast: 'cmForecast', actual: 'cmActual', sheetPva: 'sheetCmPva' },
+  count: { forecast: 'countForecast', actual: 'countActual', sheetPva: 'sheetCountPva' },
+  aov: { forecast: 'aovForecast', actual: 'aovActual', sheetPva: 'sheetAovPva' },
+  cac: { forecast: 'cacForecast', actual: 'cacActual', sheetPva: 'sheetCacPva' },
+  adSpend: { forecast: null, actual: 'adSpend', sheetPva: null },
+};
+
+/** Metric a forecast/actual field belongs to */
+function fieldMetric(field: keyof WeekData): MappingMetric | null {
+  const entry = Object.entries(METRIC_FIELDS).find(([, f]) => f.forecast === field || f.actual === field);
+  return entry ? entry[0] as MappingMetric : null;
+}
 
-  // AOV
-  if (/AOV/i.test(clean)) {
-    if (/f(orecast|cast)/i.test(clean)) return { field: 'aovForecast', multiply: 1 };
-    return { field: 'aovActual', multiply: 1 };
+/** Compile a rule's label pattern, or null if it is not a valid regular expression */
+export function rulePattern(rule: MappingRule): RegExp | null {
+  if (!rule.pattern.trim()) return null;
+  try {
+    return new RegExp(rule.pattern, 'i');
+  } catch {
+    return null;
   }
+}
 
-  // CAC
-  if (/CAC/i.test(clean)) {
-    if (/f(orecast|cast)/i.test(clean)) return { field: 'cacForecast', multiply: 1 };
-    return { field: 'cacActual', multiply: 1 };
+/** First rule matching the label — invalid patterns never match */
+function matchRow(label: string, rules: MappingRule[]): RowMatch | null {
+  for (const rule of rules) {
+    if (!rulePattern(rule)?.test(label)) continue;
+    const fields = METRIC_FIELDS[rule.metric];
+    const forecast = rule.series === 'forecast' || (rule.series === 'detect' && FORECAST_PATTERN.test(label));
+    return {
+      field: forecast && fields.forecast ? fields.forecast : fields.actual,
+      multiply: rule.scale,
+      currency: rule.currency,
+    };
   }
+  return null;
+}
 
-  // Ad Spend
-  if (/Ad Spend/i.test(clean)) return { field: 'adSpend', multiply: 1 };
+export type RowStatus =
+  | 'mapped' // matched a mapping rule
+  | 'override' // mapped or ignored by hand
+  | 'unmatched' // has numbers but no rule matched — data is being dropped
+  | 'skipped'; // intentionally not loaded (header, PvA, other market, no numbers)
 
-  return null;
+export interface RowMapping {
+  rowNum: number;
+  label: string;
+  status: RowStatus;
+  field: keyof WeekData | null;
+  multiply: number;
+  reason: string | null; // why a row was skipped
+  warning: string | null; // loaded, but needs a look (e.g. currency mismatch)
+  values: number; // cells that parsed as numbers
+}
+
+export interface UnparseableCell {
+  rowNum: number;
+  column: number; // 1-based
+  label: string; // row label
+  week: string; // week column label
+  raw: string;
+}
+
+export interface ParseReport {
+  weeks: WeekData[];
+  rows: RowMapping[];
+  unparseable: UnparseableCell[];
+  duplicateFields: (keyof WeekData)[]; // fields fed by more than one row — the last row wins
 }
 
-export function parsePastedData(text: string): WeekData[] {
-  const rows = parseTSV(text);
+/** Parse a scorecard and report how every source row was mapped */
+export function analyzePastedData(text: string, options: ParseOptions = {}): ParseReport {
+  const rows = parseTable(text, options.delimiter ?? detectDelimiter(text));
+  const rules = options.rules ?? DEFAULT_MAPPING_RULES;
 
   if (rows.length < 2) throw new Error('Not enough rows — paste the full table from Google Sheets');
 
-  const dateRow = rows[0];
+  const dateRow = rows[0].cells;
 
   const weekColumns: { colIndex: number; label: string }[] = [];
   for (let col = 1; col < dateRow.length; col++) {
@@ -78,20 +167,120 @@ export function parsePastedData(text: string): WeekData[] {
     weekNum: i + 1,
   }));
 
-  for (const row of rows) {
-    const metricLabel = row[0] || '';
-    const match = matchRow(metricLabel);
-    if (!match) continue;
+  const mappings: RowMapping[] = [{
+    rowNum: rows[0].rowNum, label: dateRow[0] ?? '', status: 'skipped', field: null, multiply: 1,
+    reason: 'Week header', warning: null, values: 0,
+  }];
+  const unparseable: UnparseableCell[] = [];
+  const fieldRows = new Map<keyof WeekData, number>();
+  let previousMetric: MappingMetric | null = null; // metric of the row above — owns a following PvA row
+
+  for (const row of rows.slice(1)) {
+    const metricLabel = row.cells[0] || '';
+    const values = weekColumns.filter(wc => parseValue(row.cells[wc.colIndex]) !== null).length;
+    const mapping: RowMapping = { rowNum: row.rowNum, label: metricLabel, status: 'skipped', field: null, multiply: 1, reason: null, warning: null, values };
+    mappings.push(mapping);
+
+    const override = options.overrides?.[metricLabel];
+    const ownerMetric = previousMetric;
+    previousMetric = null;
+
+    if (override === null) {
+      mapping.status = 'override';
+      mapping.reason = 'Ignored by hand';
+      continue;
+    }
+
+    let rule: RowMatch | null;
+    if (override) {
+      mapping.status = 'override';
+      rule = override;
+      previousMetric = fieldMetric(override.field);
+    } else if (isOtherMarket(metricLabel, options.marketFlag)) {
+      mapping.reason = 'Other market';
+      continue;
+    } else if (isPlanVsActual(metricLabel)) {
+      const sheetPva = ownerMetric && METRIC_FIELDS[ownerMetric].sheetPva;
+      if (!sheetPva) {
+        mapping.reason = 'Plan vs Actual row with no metric row above it';
+        continue;
+      }
+      rule = { field: sheetPva, multiply: 1 };
+    } else {
+      rule = matchRow(metricLabel, rules);
+      if (!rule) {
+        if (values > 0) mapping.status = 'unmatched';
+        else mapping.reason = 'No numeric values';
+        continue;
+      }
+      previousMetric = fieldMetric(rule.field);
+    }
+
+    if (mapping.status !== 'override') mapping.status = 'mapped';
+    mapping.field = rule.field;
+    mapping.multiply = rule.multiply;
+    if (rule.currency && options.currency && rule.currency !== options.currency) {
+      mapping.warning = `Values are in ${rule.currency} but the workspace reports in ${options.currency} — not converted`;
+    }
+    fieldRows.set(rule.field, (fieldRows.get(rule.field) ?? 0) + 1);
 
     for (let i = 0; i < weekColumns.length; i++) {
-      const rawVal = row[weekColumns[i].colIndex];
+      const rawVal = row.cells[weekColumns[i].colIndex];
       const parsed = parseValue(rawVal);
       if (parsed !== null) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (weeks[i] as any)[match.field] = parsed * match.multiply;
+        (weeks[i] as any)[rule.field] = parsed * rule.multiply;
+      } else if (rawVal) {
+        unparseable.push({ rowNum: row.rowNum, column: weekColumns[i].colIndex + 1, label: metricLabel, week: weekColumns[i].label, raw: rawVal });
       }
     }
   }
 
-  return weeks;
+  const duplicateFields = [...fieldRows].filter(([, n]) => n > 1).map(([field]) => field);
+
+  return { weeks, rows: mappings, unparseable, duplicateFields };
+}
+
+export function parsePastedData(text: string, options: ParseOptions = {}): WeekData[] {
+  return analyzePastedData(text, options).weeks;
+}
+
+/** Tier 2 field keys — everything NOT sourced from the spreadsheet */
+export const TIER2_FIELDS: (keyof WeekData)[] = [
+  'cpm', 'ctr', 'cpc', 'frequency', 'metaClicks', 'shopifySessions', 'cvr',
+];
+
+/** Tier 2 values keyed by week label, e.g. { "1 Feb": { cpm: 12.5, ctr: 1.8 } } */
+export type Tier2Map = Record<string, Partial<WeekData>>;
+
+/** One week's Tier 2 values, without nulls */
+export function tier2Values(week: WeekData): Partial<WeekData> {
+  const values: Partial<WeekData> = {};
+  for (const key of TIER2_FIELDS) {
+    if (week[key] != null) (values as Record<string, unknown>)[key] = week[key];
+  }
+  return values;
+}
+
+/** Every week's non-empty Tier 2 values, keyed by label */
+export function toTier2Map(weeks: WeekData[]): Tier2Map {
+  const tier2Map: Tier2Map = {};
+  for (const w of weeks) {
+    const entry = tier2Values(w);
+    if (Object.keys(entry).length > 0) tier2Map[w.label] = entry;
+  }
+  return tier2Map;
+}
+
+/** Merge Tier 2 values onto parsed weeks (match by label) */
+export function applyTier2Map(weeks: WeekData[], tier2Map: Tier2Map): WeekData[] {
+  return weeks.map(w => {
+    const t2 = tier2Map[w.label];
+    if (!t2) return w;
+    const merged = { ...w };
+    for (const key of TIER2_FIELDS) {
+      if (t2[key] != null) (merged as Record<string, unknown>)[key] = t2[key];
+    }
+    return merged;
+  });
 }
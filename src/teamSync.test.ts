@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { toServerState, serverWeeks, withKnownTier2, changedTier2Labels, replaceTier2, emptyServerState } from './teamSync';
+import { parsePastedData } from './sheets';
+import { EMPTY_WEEK, type WeekData, type Workspace, type Tier2Entry } from './types';
+import { DEFAULT_TIER1_TSV } from './test/fixtures';
+
+const wk = (label: string, fields: Partial<WeekData> = {}): WeekData => ({ ...EMPTY_WEEK, label, ...fields });
+
+const entry = (label: string, values: Partial<WeekData>, version = 1): Tier2Entry =>
+  ({ label, values, version, updatedBy: 'sam', updatedAt: '2026-02-01T10:00:00.000Z' });
+
+const workspace: Workspace = { id: 'us', name: 'US', currency: 'USD', marketFlag: '', sheetSources: [], profileName: 'Default' };
+
+describe('serverWeeks', () => {
+  it('is null until the server has a Tier 1 source', () => {
+    expect(serverWeeks(toServerState({ tier1: null, tier2: [entry('4 Jan', { cpm: 12 })] }, 'us'), workspace)).toBeNull();
+  });
+
+  it('parses the server Tier 1 and applies its Tier 2 entries', () => {
+    const label = parsePastedData(DEFAULT_TIER1_TSV)[0].label;
+    const state = toServerState({
+      tier1: { tsv: DEFAULT_TIER1_TSV, version: 3, updatedBy: 'sam', updatedAt: '2026-02-01T10:00:00.000Z' },
+      tier2: [entry(label, { cpm: 12.5, cvr: 2.1 }, 2)],
+    }, 'us');
+    const weeks = serverWeeks(state, workspace)!;
+    expect(weeks[0]).toMatchObject({ label, cpm: 12.5, cvr: 2.1 });
+    expect(state.tier2[label].version).toBe(2);
+  });
+});
+
+describe('withKnownTier2', () => {
+  it('prefers values on screen over the last server copy', () => {
+    const state = toServerState({ tier1: null, tier2: [entry('A', { cpm: 10, ctr: 1 }), entry('B', { cpm: 20 })] }, 'us');
+    const merged = withKnownTier2([wk('A'), wk('B'), wk('C')], [wk('A', { cpm: 11 })], state);
+    expect(merged.map(w => [w.cpm, w.ctr])).toEqual([[11, null], [20, null], [null, null]]);
+  });
+});
+
+describe('changedTier2Labels', () => {
+  it('lists weeks whose Tier 2 values changed, ignoring Tier 1 edits', () => {
+    const before = [wk('A', { cpm: 10 }), wk('B', { adSpend: 500 }), wk('C')];
+    const after = [wk('A', { cpm: 11 }), wk('B', { adSpend: 600 }), wk('C', { cvr: 2 })];
+    expect(changedTier2Labels(before, after)).toEqual(['A', 'C']);
+  });
+
+  it('includes a cleared week and skips new weeks with no Tier 2', () => {
+    expect(changedTier2Labels([wk('A', { cpm: 10 })], [wk('A'), wk('B')])).toEqual(['A']);
+  });
+});
+
+describe('replaceTier2', () => {
+  it('sets exactly the given values on one week', () => {
+    const weeks = replaceTier2([wk('A', { cpm: 10, ctr: 1, adSpend: 500 }), wk('B', { cpm: 5 })], 'A', { ctr: 2 });
+    expect(weeks[0]).toMatchObject({ cpm: null, ctr: 2, adSpend: 500 });
+    expect(weeks[1].cpm).toBe(5);
+  });
+});
+
+describe('emptyServerState', () => {
+  it('starts at version 0 for everything', () => {
+    expect(emptyServerState('eu')).toEqual({ workspaceId: 'eu', tier1: null, tier2: {} });
+  });
+});
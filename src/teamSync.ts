@@ -0,0 +1,67 @@
+import type { WeekData, Workspace, WorkspaceData, Tier1Record, Tier2Entry, ChangeSource } from './types';
+import { parsePastedData, applyTier2Map, toTier2Map, tier2Values, workspaceParseOptions, TIER2_FIELDS, type Tier2Map } from './sheets';
+
+/**
+ * The server records this browser last loaded or saved for one workspace.
+ * Saves send their versions so the server can detect conflicts; rejected saves roll back to their values.
+ */
+export interface ServerState {
+  workspaceId: string;
+  tier1: Tier1Record | null;
+  tier2: Record<string, Tier2Entry>; // by week label
+}
+
+/** A save the server rejected because someone else saved first; `source` is logged again if mine is kept */
+export type DataConflict =
+  | { kind: 'tier1'; source: ChangeSource; mine: string; theirs: Tier1Record | null }
+  | { kind: 'tier2'; source: ChangeSource; label: string; mine: Partial<WeekData>; theirs: Tier2Entry | null };
+
+export function emptyServerState(workspaceId: string): ServerState {
+  return { workspaceId, tier1: null, tier2: {} };
+}
+
+export function toServerState(data: WorkspaceData, workspaceId: string): ServerState {
+  return { workspaceId, tier1: data.tier1, tier2: Object.fromEntries(data.tier2.map(e => [e.label, e])) };
+}
+
+/** Tier 2 values as last confirmed by the server, keyed by label */
+export function serverTier2(state: ServerState): Tier2Map {
+  return Object.fromEntries(Object.values(state.tier2).map(e => [e.label, e.values]));
+}
+
+/** Weeks for the server's Tier 1 source with its Tier 2 applied, or null when no Tier 1 is saved yet */
+export function serverWeeks(state: ServerState, workspace: Workspace): WeekData[] | null {
+  if (!state.tier1) return null;
+  return applyTier2Map(parsePastedData(state.tier1.tsv, workspaceParseOptions(workspace)), serverTier2(state));
+}
+
+/** Newly parsed Tier 1 weeks with the Tier 2 values already entered — on screen first, then the server's */
+export function withKnownTier2(parsed: WeekData[], current: WeekData[], state: ServerState): WeekData[] {
+  return applyTier2Map(parsed, { ...serverTier2(state), ...toTier2Map(current) });
+}
+
+/** Labels whose Tier 2 values differ between two versions of the weeks */
+export function changedTier2Labels(before: WeekData[], after: WeekData[]): string[] {
+  const previous = new Map(before.map(w => [w.label, w]));
+  return after
+    .filter(w => {
+      const old = previous.get(w.label);
+      return old ? TIER2_FIELDS.some(key => old[key] !== w[key]) : Object.keys(tier2Values(w)).length > 0;
+    })
+    .map(w => w.label);
+}
+
+/** Set one week's Tier 2 fields to exactly `values` (missing fields become null) — for rollback and "use theirs" */
+export function replaceTier2(weeks: WeekData[], label: string, values: Partial<WeekData>): WeekData[] {
+  return weeks.map(w => {
+    if (w.label !== label) return w;
+    const updated = { ...w };
+    for (const key of TIER2_FIELDS) (updated as Record<string, unknown>)[key] = values[key] ?? null;
+    return updated;
+  });
+}
+
+/** One conflict per Tier 1 source and per week — a newer rejection replaces the older one */
+export function conflictKey(conflict: DataConflict): string {
+  return conflict.kind === 'tier1' ? 'tier1' : `tier2:${conflict.label}`;
+}
@@ -0,0 +1,45 @@
+import type { WeekData, CalculatedWeek } from '../types';
+import { EMPTY_WEEK } from '../types';
+import { calcWeek } from '../logic/economicGovernor';
+
+export { DEFAULT_TIER1_TSV } from '../data/defaultData';
+
+/** Build a scorecard TSV in the Traction Scorecard layout from per-row cells */
+function scorecard(labels: string[], rows: [string, string[]][]): string {
+  return [
+    ['Date', ...labels].join('\t'),
+    ...rows.map(([label, cells]) => [label, ...cells].join('\t')),
+  ].join('\n');
+}
+
+const LABELS = ['4 Jan', '11 Jan', '18 Jan'];
+
+/** CM beats plan in total but only because volume collapsed — unit economics are fine */
+export const MIRAGE_TSV = scorecard(LABELS, [
+  ['1st Order CM Fcast (1000s)', ['$5', '$5', '$5']],
+  ['1st Order CM Actuals USD', ['$5.0', '$5.1', '$5.2']],
+  ['1st Order Count Fcast', ['100', '100', '100']],
+  ['1st Order Count', ['40', '40', '40']],
+  ['NC $ AOV Fcast', ['$120', '$120', '$120']],
+  ['NC $ AOV Actuals USD', ['$120', '$121', '$122']],
+  ['CAC Fcast USD', ['$60', '$60', '$60']],
+  ['CAC Actuals USD', ['$60', '$58', '$57']],
+]);
+
+/** On plan across the board */
+export const HEALTHY_TSV = scorecard(LABELS, [
+  ['Ad Spend Meta USD', ['$6,000', '$6,000', '$6,300']],
+  ['1st Order CM Fcast (1000s)', ['$5', '$5', '$5']],
+  ['1st Order CM Actuals USD', ['$5.1', '$5.0', '$5.3']],
+  ['1st Order Count Fcast', ['100', '100', '100']],
+  ['1st Order Count', ['100', '100', '105']],
+  ['NC $ AOV Fcast', ['$120', '$120', '$120']],
+  ['NC $ AOV Actuals USD', ['$121', '$120', '$122']],
+  ['CAC Fcast USD', ['$60', '$60', '$60']],
+  ['CAC Actuals USD', ['$60', '$60', '$60']],
+]);
+
+/** A calculated week with only the given fields set */
+export function week(fields: Partial<WeekData>): CalculatedWeek {
+  return calcWeek({ ...EMPTY_WEEK, label: 'WK', weekNum: 1, ...fields });
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { importTier2Export, detectTier2Export, Tier2ImportError } from './tier2Import';
+import { parseDelimited } from './csv';
+import { parsePastedData } from './sheets';
+import { EMPTY_WEEK, type WeekData } from './types';
+import { DEFAULT_TIER1_TSV } from './test/fixtures';
+
+const weeks = (...labels: string[]): WeekData[] => labels.map((label, i) => ({ ...EMPTY_WEEK, label, weekNum: i + 1 }));
+
+const META_CSV = [
+  'Campaign name,Day,Amount spent (USD),Impressions,Reach,Frequency,Link clicks,CPM (cost per 1,000 impressions) (USD)',
+  'Prospecting,2025-12-28,100,10000,5000,2,150,10',
+  'Retargeting,2025-12-28,50,2500,500,5,50,20',
+  'Prospecting,2026-01-03,150,12500,6000,2.08,200,12',
+  'Prospecting,2026-01-04,200,20000,8000,2.5,300,10',
+  'Prospecting,2026-01-20,999,1,1,1,1,1',
+].join('\n');
+
+const SHOPIFY_CSV = [
+  'Day,Sessions,Sessions with cart additions,Sessions that reached checkout,Sessions that completed checkout,Conversion rate',
+  '2025-12-29,1000,120,60,30,3%',
+  '2025-12-30,1000,100,50,20,2%',
+  '2026-01-05,500,80,40,10,2%',
+  'Total,2500,,,60,',
+].join('\n');
+
+describe('detectTier2Export', () => {
+  it('recognises Meta and Shopify headers', () => {
+    expect(detectTier2Export(['Day', 'Amount spent (USD)', 'Impressions'])).toBe('meta');
+    expect(detectTier2Export(['day', 'total_sessions', 'total_conversion'])).toBe('shopify');
+    expect(detectTier2Export(['Date', '4 Jan'])).toBeNull();
+  });
+});
+
+describe('importTier2Export', () => {
+  it('sums Meta days into label weeks and recomputes the ratios', () => {
+    const result = importTier2Export(parseDelimited(META_CSV), weeks('28 Dec', '4 Jan', '11 Jan'));
+    expect(result.kind).toBe('meta');
+    expect(result.tier2['28 Dec']).toEqual({ cpm: 12, ctr: 1.6, cpc: 0.75, frequency: 2.17, metaClicks: 400 });
+    expect(result.tier2['4 Jan']).toEqual({ cpm: 10, ctr: 1.5, cpc: 0.67, frequency: 2.5, metaClicks: 300 });
+    expect(result.tier2['11 Jan']).toBeUndefined();
+    expect(result.rowsImported).toBe(4);
+    expect(result.rowsOutsideWeeks).toBe(1); // 20 Jan is past the last week
+  });
+
+  it('infers the label year from the export dates, rolling over at new year', () => {
+    const scorecard = parsePastedData(DEFAULT_TIER1_TSV);
+    const result = importTier2Export(parseDelimited(META_CSV), scorecard);
+    expect(Object.keys(result.tier2)).toEqual(['28 Dec', '4 Jan', '18 Jan']);
+  });
+
+  it('reads written-out and M/D/YYYY dates as calendar days, whatever the local time zone', () => {
+    const csv = 'day,total_sessions,total_conversion\n"Jan 3, 2026",100,0.01\n4 Jan 2026,200,0.01\n"January 10, 2026",300,0.01\n1/11/2026,400,0.01';
+    expect(importTier2Export(parseDelimited(csv), weeks('28 Dec', '4 Jan', '11 Jan')).tier2).toEqual({
+      '28 Dec': { shopifySessions: 100, cvr: 1 },
+      '4 Jan': { shopifySessions: 500, cvr: 1 },
+      '11 Jan': { shopifySessions: 400, cvr: 1 },
+    });
+  });
+
+  it('turns Shopify sessions into weekly sessions and CVR, skipping the total row', () => {
+    const result = importTier2Export(parseDelimited(SHOPIFY_CSV), weeks('28 Dec', '4 Jan'));
+    expect(result.tier2).toEqual({
+      '28 Dec': { shopifySessions: 2000, cvr: 2.5 },
+      '4 Jan': { shopifySessions: 500, cvr: 2 },
+    });
+    expect(result.rowsUnreadable).toBe(1);
+  });
+
+  it('weights a rate-only Shopify report by sessions', () => {
+    const csv = 'day,total_sessions,total_conversion\n2026-01-04,300,0.01\n2026-01-05,100,0.05';
+    expect(importTier2Export(parseDelimited(csv), weeks('4 Jan')).tier2['4 Jan']).toEqual({ shopifySessions: 400, cvr: 2 });
+  });
+
+  it('reads a rate column in one unit, whatever its individual values', () => {
+    // ShopifyQL headers mean fractions — 1 is every session converting
+    const snake = 'day,total_sessions,total_conversion\n2026-01-04,10,1\n2026-01-05,90,0.01';
+    expect(importTier2Export(parseDelimited(snake), weeks('4 Jan')).tier2['4 Jan']).toMatchObject({ cvr: 10.9 });
+    // A percent column with a quiet day at 0.5% — read cell by cell, that day would count as 50%
+    const percent = 'Day,Sessions,Conversion rate\n2026-01-04,100,0.5\n2026-01-05,100,2.5';
+    expect(importTier2Export(parseDelimited(percent), weeks('4 Jan')).tier2['4 Jan']).toMatchObject({ cvr: 1.5 });
+    const fraction = 'Day,Sessions,Conversion rate\n2026-01-04,100,0.005\n2026-01-05,100,0.025';
+    expect(importTier2Export(parseDelimited(fraction), weeks('4 Jan')).tier2['4 Jan']).toMatchObject({ cvr: 1.5 });
+  });
+
+  it('rejects files that are neither export', () => {
+    expect(() => importTier2Export(parseDelimited('Date,4 Jan\nCPM,12'), weeks('4 Jan'))).toThrow(Tier2ImportError);
+    expect(() => importTier2Export(parseDelimited('Amount spent,Impressions\n10,100'), weeks('4 Jan'))).toThrow(/Day/);
+  });
+});
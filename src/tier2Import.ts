@@ -0,0 +1,257 @@
+import type { WeekData } from './types';
+import type { Tier2Map } from './sheets';
+
+export type Tier2ExportKind = 'meta' | 'shopify';
+
+export interface Tier2ImportResult {
+  kind: Tier2ExportKind;
+  tier2: Tier2Map; // only weeks that received rows
+  fields: (keyof WeekData)[];
+  rowsImported: number;
+  rowsOutsideWeeks: number; // dated rows before the first or after the last scorecard week
+  rowsUnreadable: number; // rows without a readable date
+}
+
+/** Export that is not a recognised Meta Ads or Shopify report */
+export class Tier2ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Tier2ImportError';
+  }
+}
+
+const DAY_MS = 86_400_000;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// --- Week buckets ---
+
+/** "28 Dec" → [month 0-11, day], null for labels that are not dates */
+function parseLabel(label: string): [number, number] | null {
+  const m = label.trim().match(/^(\d{1,2})\s+([A-Za-z]{3})/);
+  if (!m) return null;
+  const month = MONTHS.indexOf(m[2].toLowerCase());
+  return month < 0 ? null : [month, Number(m[1])];
+}
+
+interface WeekBucket {
+  label: string;
+  start: number; // UTC ms, inclusive
+  end: number; // UTC ms, exclusive — the next week's start
+}
+
+/**
+ * Week buckets from scorecard labels, which carry no year. Labels are in date order,
+ * so the year rolls over whenever the month goes backwards ("28 Dec" → "4 Jan").
+ */
+function weekBuckets(weeks: WeekData[], firstYear: number): WeekBucket[] {
+  const buckets: WeekBucket[] = [];
+  let year = firstYear;
+  let previous = -Infinity;
+  for (const w of weeks) {
+    const parsed = parseLabel(w.label);
+    if (!parsed) continue;
+    let start = Date.UTC(year, parsed[0], parsed[1]);
+    if (start <= previous) start = Date.UTC(++year, parsed[0], parsed[1]);
+    previous = start;
+    buckets.push({ label: w.label, start, end: start + 7 * DAY_MS });
+  }
+  // A week runs until the next label, so gaps in the scorecard don't drop rows
+  for (let i = 0; i < buckets.length - 1; i++) buckets[i].end = buckets[i + 1].start;
+  return buckets;
+}
+
+function bucketFor(buckets: WeekBucket[], date: number): WeekBucket | undefined {
+  return buckets.find(b => date >= b.start && date < b.end);
+}
+
+/** Pick the year for the first label that places the most export rows inside the scorecard */
+function inferBuckets(weeks: WeekData[], dates: number[]): WeekBucket[] {
+  const years = dates.map(d => new Date(d).getUTCFullYear());
+  let best: WeekBucket[] = [];
+  let bestHits = -1;
+  for (let year = Math.min(...years) - 1; year <= Math.max(...years); year++) {
+    const buckets = weekBuckets(weeks, year);
+    const hits = dates.filter(d => bucketFor(buckets, d)).length;
+    if (hits > bestHits) { best = buckets; bestHits = hits; }
+  }
+  return best;
+}
+
+// --- Cells ---
+
+/**
+ * "2026-01-04", "2026-01-04 - 2026-01-10", "Jan 4, 2026", "4 Jan 2026", "1/4/2026" → UTC midnight, or null.
+ * Read field by field rather than with Date.parse, which reads these in the browser's time zone.
+ */
+function parseDate(raw: string): number | null {
+  const iso = raw.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  const us = raw.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/); // Ads Manager's M/D/YYYY
+  if (us) return Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2]));
+  const named = raw.match(/\b([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/)
+    ?? raw.match(/\b(\d{1,2})\s+([A-Za-z]{3})[a-z]*\.?,?\s+(\d{4})\b/);
+  if (!named) return null; // a yearless "4 Jan" can't be placed
+  const [monthName, day] = /^\d/.test(named[1]) ? [named[2], named[1]] : [named[1], named[2]];
+  const month = MONTHS.indexOf(monthName.toLowerCase());
+  return month < 0 ? null : Date.UTC(Number(named[3]), month, Number(day));
+}
+
+/** "1,234.50", "$12.30", "2.1%" → number; blank or "--" → null */
+function parseNumber(raw: string | undefined): number | null {
+  if (raw == null) return null;
+  const cleaned = raw.replace(/[^\d.-]/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned === '--') return null;
+  const n = parseFloat(cleaned);
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * What turns a conversion rate column into percentages, decided once for the whole column: Shopify's admin report
+ * writes "2.4%", its ShopifyQL exports (snake_case headers like total_conversion) write 0.024. A bare "Conversion rate"
+ * column is read as fractions only if none of its values is above 1.
+ */
+function rateScale(header: string, cells: (string | undefined)[]): number {
+  if (header.includes('%') || cells.some(c => c?.includes('%'))) return 1;
+  if (header.includes('_')) return 100;
+  return cells.every(c => (parseNumber(c) ?? 0) <= 1) ? 100 : 1;
+}
+
+function findColumn(header: string[], ...patterns: RegExp[]): number {
+  for (const pattern of patterns) {
+    const idx = header.findIndex(h => pattern.test(h.trim()));
+    if (idx >= 0) return idx;
+  }
+  return -1;
+}
+
+// --- Reports ---
+
+interface Totals { [key: string]: number }
+
+interface ExportSpec {
+  kind: Tier2ExportKind;
+  dateColumn: (header: string[]) => number;
+  /** Column indexes of the additive inputs summed per week (-1 when absent) */
+  columns: (header: string[]) => Record<string, number>;
+  /** Week values from the summed inputs */
+  metrics: (t: Totals) => Partial<WeekData>;
+}
+
+const ratio = (a: number, b: number, scale = 1) => b > 0 ? Number((a / b * scale).toFixed(2)) : null;
+
+/**
+ * Meta Ads Manager export, broken down by day (any campaign/ad set/ad level — rows are summed).
+ * CPM, CTR and CPC are recomputed from spend, impressions and link clicks rather than averaged.
+ * Frequency is impressions ÷ summed daily reach: daily reach double-counts people seen on several days,
+ * so this is the average daily frequency, a lower bound on the true weekly figure.
+ */
+const META_EXPORT: ExportSpec = {
+  kind: 'meta',
+  dateColumn: h => findColumn(h, /^day$/i, /^date$/i, /^reporting starts$/i),
+  columns: h => ({
+    spend: findColumn(h, /^amount spent/i),
+    impressions: findColumn(h, /^impressions$/i),
+    reach: findColumn(h, /^reach$/i),
+    clicks: findColumn(h, /^link clicks$/i, /^clicks \(all\)$/i),
+  }),
+  metrics: t => ({
+    cpm: ratio(t.spend, t.impressions, 1000),
+    ctr: ratio(t.clicks, t.impressions, 100),
+    cpc: ratio(t.spend, t.clicks),
+    frequency: ratio(t.impressions, t.reach),
+    metaClicks: t.clicks > 0 ? t.clicks : null,
+  }),
+};
+
+/**
+ * Shopify "Sessions over time" / "Conversion rate over time" report, by day.
+ * CVR is completed-checkout sessions ÷ sessions; exports with only a rate column are weighted by sessions.
+ */
+const SHOPIFY_EXPORT: ExportSpec = {
+  kind: 'shopify',
+  dateColumn: h => findColumn(h, /^day$/i, /^date$/i),
+  columns: h => ({
+    sessions: findColumn(h, /^(total_)?sessions$/i, /^online store sessions$/i),
+    converted: findColumn(h, /completed checkout/i, /^(total_)?(converted|sessions_converted|sessions converted)$/i, /^converted sessions$/i),
+    rate: findColumn(h, /^(total_)?conversion(_| )rate$/i, /^total_conversion$/i),
+  }),
+  metrics: t => ({
+    shopifySessions: t.sessions > 0 ? t.sessions : null,
+    cvr: t.converted > 0 || t.rateSessions === 0
+      ? ratio(t.converted, t.sessions, 100)
+      : ratio(t.weightedRate, t.rateSessions),
+  }),
+};
+
+/** Which report a header row belongs to, if either */
+export function detectTier2Export(header: string[]): Tier2ExportKind | null {
+  const meta = META_EXPORT.columns(header);
+  if (meta.spend >= 0 && meta.impressions >= 0) return 'meta';
+  if (SHOPIFY_EXPORT.columns(header).sessions >= 0) return 'shopify';
+  return null;
+}
+
+/**
+ * Aggregate a Meta Ads or Shopify daily export into Tier 2 values per scorecard week.
+ * Each week runs from its label date up to the next week's label.
+ */
+export function importTier2Export(rows: string[][], weeks: WeekData[]): Tier2ImportResult {
+  const [header, ...body] = rows.filter(r => r.some(c => c.trim() !== ''));
+  if (!header) throw new Tier2ImportError('The export is empty');
+
+  const kind = detectTier2Export(header);
+  if (!kind) {
+    throw new Tier2ImportError('Not a Meta Ads or Shopify export — expected "Amount spent" and "Impressions" columns (Meta) or a "Sessions" column (Shopify)');
+  }
+  const spec = kind === 'meta' ? META_EXPORT : SHOPIFY_EXPORT;
+  const dateCol = spec.dateColumn(header);
+  if (dateCol < 0) throw new Tier2ImportError('The export has no "Day" column — export it broken down by day');
+  const columns = spec.columns(header);
+
+  const dated: { date: number; row: string[] }[] = [];
+  let rowsUnreadable = 0;
+  for (const row of body) {
+    const date = parseDate(row[dateCol] ?? '');
+    if (date == null) rowsUnreadable++; // includes the "Total" row some exports append
+    else dated.push({ date, row });
+  }
+  if (dated.length === 0) throw new Tier2ImportError('No dated rows found in the export');
+
+  const buckets = inferBuckets(weeks, dated.map(d => d.date));
+  if (buckets.length === 0) throw new Tier2ImportError('The scorecard has no dated week labels to import into');
+
+  const scale = columns.rate >= 0 ? rateScale(header[columns.rate], dated.map(d => d.row[columns.rate])) : 1;
+  const totals = new Map<string, Totals>();
+  let rowsOutsideWeeks = 0;
+  for (const { date, row } of dated) {
+    const bucket = bucketFor(buckets, date);
+    if (!bucket) { rowsOutsideWeeks++; continue; }
+    const t = totals.get(bucket.label) ?? { weightedRate: 0, rateSessions: 0 };
+    for (const [name, col] of Object.entries(columns)) {
+      t[name] = (t[name] ?? 0) + (col >= 0 ? parseNumber(row[col]) ?? 0 : 0);
+    }
+    // Shopify rate-only exports: weight each day's rate by its sessions
+    const rate = columns.rate >= 0 ? parseNumber(row[columns.rate]) : null;
+    const sessions = columns.sessions >= 0 ? parseNumber(row[columns.sessions]) : null;
+    if (rate != null && sessions) { t.weightedRate += rate * scale * sessions; t.rateSessions += sessions; }
+    totals.set(bucket.label, t);
+  }
+
+  const tier2: Tier2Map = {};
+  const fields = new Set<keyof WeekData>();
+  for (const [label, t] of totals) {
+    const values = Object.fromEntries(Object.entries(spec.metrics(t)).filter(([, v]) => v != null)) as Partial<WeekData>;
+    if (Object.keys(values).length === 0) continue;
+    tier2[label] = values;
+    for (const key of Object.keys(values)) fields.add(key as keyof WeekData);
+  }
+
+  return {
+    kind,
+    tier2,
+    fields: [...fields],
+    rowsImported: dated.length - rowsOutsideWeeks,
+    rowsOutsideWeeks,
+    rowsUnreadable,
+  };
+}
@@ -3,6 +3,8 @@ export interface WeekData {
   weekNum: number; // e.g. 1
 
   // Tier 1 — Source of Truth (from spreadsheet)
+  netSalesForecast: number | null; // Total Net Sales Forecast (in dollars, not thousands)
+  netSalesActual: number | null;
   adSpend: number | null;
   cmForecast: number | null; // 1st Order CM Forecast (in dollars, not thousands)
   cmActual: number | null;
@@ -13,6 +15,13 @@ export interface WeekData {
   cacForecast: number | null;
   cacActual: number | null;
 
+  // Sheet-reported Plan vs Actual (%) rows — cross-checked against calcWeek, never used for decisions
+  sheetNetSalesPva: number | null;
+  sheetCmPva: number | null;
+  sheetCountPva: number | null;
+  sheetAovPva: number | null;
+  sheetCacPva: number | null;
+
   // Tier 2 — Directional (optional, for Module 2)
   cpm: number | null;
   ctr: number | null; // percentage
@@ -24,19 +33,335 @@ export interface WeekData {
 }
 
 export interface CalculatedWeek extends WeekData {
+  netSalesPva: number | null;
+  ncShareOfSales: number | null; // % of net sales from new customers (count × AOV ÷ net sales)
   cmPva: number | null;
   countPva: number | null;
   aovPva: number | null;
   cacPva: number | null;
   unitCmActual: number | null;
   unitCmForecast: number | null;
+  cacReported: number | null; // CAC as entered — cacActual falls back to the implied value when this is missing
+  cacImplied: number | null; // ad spend ÷ first-order count
+  cacDerived: boolean; // cacActual is the implied value, not a reported one
   cacAovGap: number | null; // CAC - AOV (positive = losing money)
   clickSessionRatio: number | null;
 }
 
+/** Decision thresholds used by both engines and the PvA colour bands */
+export interface GovernorConfig {
+  // Module 1 — Economic Governor
+  volumeProblemPva: number; // avg count PvA (%) below this = volume problem
+  volumeLookbackWeeks: number; // weeks averaged for the volume check
+  cmProblemMultiple: number; // unit CM worse than plan by this multiple = CM problem
+  mirageCmPva: number; // CM PvA (%) above this...
+  mirageCountPva: number; // ...with count PvA (%) below this = CM Mirage
+
+  // Module 2 — Funnel Diagnostician
+  spendOrderTolerance: number; // max pp gap between spend and order change (Step 1)
+  cpmCeiling: number; // $
+  ctrFail: number; // %
+  ctrWarn: number; // %
+  frequencyWarn: number;
+  frequencyFail: number;
+  clickSessionWarn: number;
+  clickSessionFail: number;
+  cvrFail: number; // %
+  cvrWarn: number; // %
+  ncCountPass: number; // count PvA (%) at or above = pass (Step 5)
+  ncCountWarn: number; // count PvA (%) at or above = warning (Step 5)
+  unitCmFail: number; // $ per customer at or below = fail (Step 6)
+
+  // PvA colour bands
+  pvaGreen: number;
+  pvaYellow: number;
+  cacPvaGreen: number; // CAC is inverted — lower is better
+  cacPvaYellow: number;
+
+  // Data checks
+  pvaCrossCheckTolerance: number; // pp the sheet's own PvA may differ from the computed PvA
+  cacSpendTolerance: number; // % CAC × count may differ from ad spend
+  aovJumpMultiple: number; // week-over-week AOV change beyond this multiple (either way) is suspect
+}
+
+export type IssueSeverity = 'critical' | 'warning' | 'info';
+
+export type DataIssueCode =
+  | 'negative_value'
+  | 'cm_sign'
+  | 'cm_exceeds_aov'
+  | 'spend_without_orders'
+  | 'cac_spend_mismatch'
+  | 'aov_jump'
+  | 'missing_forecast'
+  | 'percent_out_of_range';
+
+/** An input that does not make sense on its own or against the rest of its week */
+export interface DataIssue {
+  label: string;
+  weekNum: number;
+  field: keyof WeekData;
+  severity: IssueSeverity;
+  code: DataIssueCode;
+  message: string;
+}
+
+export interface ThresholdProfile {
+  name: string;
+  config: GovernorConfig;
+}
+
+/** Scorecard metric a row can feed; the forecast/actual series picks the WeekData field */
+export type MappingMetric = 'netSales' | 'cm' | 'count' | 'aov' | 'cac' | 'adSpend';
+
+/** Metrics the scorecard prints a Plan vs Actual row for */
+export type PvaMetric = Exclude<MappingMetric, 'adSpend'>;
+
+/** A week where the sheet's Plan vs Actual row disagrees with the PvA computed from its forecast/actual rows */
+export interface PvaMismatch {
+  label: string;
+  weekNum: number;
+  metric: PvaMetric;
+  sheetPva: number;
+  computedPva: number;
+  inverted: boolean; // the sheet value matches Plan ÷ Actual rather than Actual ÷ Plan
+}
+
+/** One Tier 1 value that differs between two loads of the same sheet. A null field means a whole week was added or removed. */
+export interface WeekChange {
+  label: string;
+  weekNum: number;
+  field: keyof WeekData | null;
+  kind: 'added' | 'removed' | 'changed';
+  before: number | null;
+  after: number | null;
+}
+
+/** Where an edit came from — a bulk paste is a block pasted into the Tier 2 grid */
+export type ChangeSource = 'paste' | 'sync' | 'manual' | 'bulk_paste' | 'import' | 'undo' | 'redo';
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  paste: 'Paste',
+  sync: 'Sync',
+  manual: 'Manual',
+  bulk_paste: 'Bulk paste',
+  import: 'Import',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+/** Why a save happened — sent with the save; the server works out what changed and the verdict after it */
+export interface AuditContext {
+  source: ChangeSource;
+}
+
+/** One row of the append-only change log */
+export interface AuditEntry extends WeekChange, AuditContext {
+  id: number;
+  // The server's call on the stored weeks right after the save, on the workspace's profile.
+  // Null while there is no Tier 1 data to judge, or when the profile is missing.
+  verdict: Verdict | null;
+  scalePermission: ScalePermission | null;
+  user: string;
+  at: string; // ISO timestamp
+}
+
+/** One "Sync from Sheet" run — manual or automatic — and what it changed */
+export interface SyncLogEntry {
+  at: string; // ISO timestamp
+  sourceLabel: string;
+  auto: boolean;
+  changes: WeekChange[];
+  permissionChange: { from: ScalePermission; to: ScalePermission } | null;
+}
+
+/** Declarative row rule — the first rule whose pattern matches a row label maps it */
+export interface MappingRule {
+  pattern: string; // case-insensitive regular expression tested against the row label
+  metric: MappingMetric;
+  series: 'forecast' | 'actual' | 'detect'; // detect = forecast when the label says Forecast/Fcast
+  scale: number; // multiplier, e.g. 1000 for rows reported in thousands
+  currency: string; // ISO 4217 code of the row's values ('' = workspace currency)
+}
+
+/** Hand-fixed row mapping: load the row into a field with a multiplier, or null to ignore it */
+export interface MappingOverride {
+  field: keyof WeekData;
+  multiply: number; // e.g. 1000 for "(1000s)" rows
+}
+
+/** Overrides keyed by the source row label, exactly as it appears in the sheet */
+export type MappingOverrides = Record<string, MappingOverride | null>;
+
+export interface MappingTemplate {
+  name: string;
+  overrides: MappingOverrides;
+}
+
+/** Viewers can read everything; only editors can change Tier 1/Tier 2 data */
+export type UserRole = 'viewer' | 'editor';
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+}
+
+/** Server copy of a workspace's Tier 1 paste/sync. Versions start at 1; 0 means "not saved yet". */
+export interface Tier1Record {
+  tsv: string;
+  version: number;
+  updatedBy: string;
+  updatedAt: string; // ISO timestamp
+}
+
+/** Server copy of one week's Tier 2 values — versioned per week so two people can edit different weeks */
+export interface Tier2Entry {
+  label: string;
+  values: Partial<WeekData>;
+  version: number;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceData {
+  tier1: Tier1Record | null;
+  tier2: Tier2Entry[];
+}
+
+/** Weeks and the governor result computed from them — a saved analysis, or the data on screen */
+export interface ResultSnapshot {
+  weeks: WeekData[];
+  module1: Module1Result;
+  module2: Module2Result | null;
+}
+
+/**
+ * A named snapshot saved for the team, e.g. "Board review Feb 8" — the weeks and Module 1/2 frozen as they were,
+ * so a later re-cut of the forecast can be compared against it
+ */
+export interface SavedAnalysis extends ResultSnapshot {
+  id: number;
+  name: string;
+  weekLabel: string; // latest week with actuals at the time
+  profileName: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/** A value in two snapshots */
+export interface Shift<T> {
+  before: T;
+  after: T;
+}
+
+export type RcaField = 'action' | 'rootCause' | 'discussion' | 'solve' | 'doNotDo';
+
+/** What moved between two snapshots: input values, then the calls made from them */
+export interface SnapshotComparison {
+  changes: WeekChange[]; // Tier 1 and Tier 2, in week order
+  verdict: Shift<Verdict>;
+  scalePermission: Shift<ScalePermission>;
+  biggestLeak: Shift<string>;
+  biggestLeakDollars: Shift<number>;
+  rca: ({ field: RcaField } & Shift<string | null>)[]; // changed RCA fields only
+}
+
+/** A Google Sheets tab that "Sync from Sheet" reads as CSV */
+export interface SheetSource {
+  id: string;
+  label: string; // e.g. "Traction Scorecard"
+  spreadsheetId: string; // the /d/<id>/ part of the sheet URL
+  gid: string; // tab id, the #gid=<n> part of the sheet URL
+}
+
+/** A brand/market with its own Tier 1 source, Tier 2 data, thresholds and currency — shared through the server */
+export interface Workspace {
+  id: string; // issued by the server ('us' for the built-in workspace)
+  name: string; // e.g. "US", "UK brand B"
+  currency: string; // ISO 4217 code, e.g. "USD"
+  marketFlag: string; // e.g. "🇺🇲" — rows flagged for another market are skipped ('' = accept all)
+  sheetSources: SheetSource[]; // Tier 1 sources for "Sync from Sheet"
+  activeSheetSourceId?: string; // source synced by default (first if unset)
+  syncViaProxy?: boolean; // fetch the CSV through the local server instead of directly
+  autoSyncMinutes?: number; // re-sync this often while the app is open (off if unset or 0)
+  profileName: string; // threshold profile applied to this workspace
+  mappingRules?: MappingRule[]; // row rules for paste and sync (built-in rules if unset)
+  mappingOverrides?: MappingOverrides; // row mapping fixes applied to every paste and sync
+}
+
+/** What-if overrides applied to every week with actuals */
+export interface Scenario {
+  name: string;
+  cacPct: number; // e.g. -15 = CAC 15% lower
+  aovDelta: number; // e.g. 10 = AOV $10 higher
+  countPct: number; // e.g. 20 = 20% more new customers
+}
+
 export type Verdict = 'cm_problem' | 'volume_problem' | 'both' | 'neither';
 export type ScalePermission = 'denied' | 'leak_hunt_only' | 'allowed';
 
+export interface ProjectionWeek {
+  label: string;
+  weekNum: number;
+  countForecast: number;
+  cmForecast: number | null;
+  projectedCm: number; // current unit CM × forecast count
+  gap: number | null; // projected - plan (negative = below plan)
+}
+
+/** Forward 1st-order CM for the remaining forecast weeks at current unit economics */
+export interface CmProjection {
+  basisLabel: string; // week whose unit economics are projected forward
+  unitCm: number;
+  cac: number | null;
+  aov: number | null;
+  marginRate: number | null; // (unit CM + CAC) / AOV — contribution per $ of AOV before acquisition
+  weeks: ProjectionWeek[];
+  totalForecastCount: number;
+  totalProjectedCm: number;
+  totalPlanCm: number | null;
+  breakEven: ProjectionTarget; // unit CM = 0
+  planTarget: ProjectionTarget | null; // unit CM needed to hit planned CM at forecast volume
+}
+
+export interface ProjectionTarget {
+  unitCm: number;
+  cac: number | null; // CAC needed with AOV unchanged
+  aov: number | null; // AOV needed with CAC unchanged
+}
+
+/** Forecast CM → actual CM, split by driver. Effects sum to actual - forecast. */
+export interface CmBridgeEffects {
+  forecastCm: number;
+  volume: number; // (actual count - forecast count) × forecast unit CM
+  aov: number; // AOV gap × forecast contribution rate × actual count
+  cac: number; // -(CAC gap) × actual count
+  residual: number; // everything the three drivers don't explain
+  actualCm: number;
+}
+
+export interface CmBridgeWeek extends CmBridgeEffects {
+  label: string;
+  weekNum: number;
+}
+
+export interface CmBridge {
+  weeks: CmBridgeWeek[];
+  cumulative: CmBridgeEffects;
+}
+
+/** Reported CAC checked against ad spend ÷ first-order count for one week */
+export interface CacReconciliation {
+  label: string;
+  weekNum: number;
+  reportedCac: number | null;
+  impliedCac: number;
+  gap: number | null; // reported − implied, $ per customer
+  gapPct: number | null; // gap as % of implied
+  derived: boolean; // no reported CAC — the implied value is used in its place
+  mismatch: boolean; // gap beyond cacSpendTolerance
+}
+
 export interface Module1Result {
   verdict: Verdict;
   scalePermission: ScalePermission;
@@ -47,10 +372,29 @@ export interface Module1Result {
   cmMirageExplanation: string | null;
   biggestLeak: string;
   biggestLeakDollars: number;
+  projection: CmProjection | null;
+  cmBridge: CmBridge | null;
+  pvaMismatches: PvaMismatch[];
+  cacReconciliation: CacReconciliation[]; // every week with spend and orders
+  dataIssues: DataIssue[];
+  dataCaveat: string | null; // set when critical issues in the latest week block scaling
   weeks: CalculatedWeek[];
   latestWeek: CalculatedWeek | null;
 }
 
+/** Governor result as of one week, computed from that week and everything before it */
+export interface VerdictHistoryEntry {
+  label: string;
+  weekNum: number;
+  verdict: Verdict;
+  scalePermission: ScalePermission;
+  scaleReason: string;
+  cmMirage: boolean;
+  verdictChanged: boolean; // differs from the previous week with data
+  permissionFlipped: boolean;
+  flipReason: string | null;
+}
+
 export interface FunnelStep {
   step: number;
   title: string;
@@ -88,6 +432,8 @@ export interface Module2Result {
 export const EMPTY_WEEK: WeekData = {
   label: '',
   weekNum: 0,
+  netSalesForecast: null,
+  netSalesActual: null,
   adSpend: null,
   cmForecast: null,
   cmActual: null,
@@ -97,6 +443,11 @@ export const EMPTY_WEEK: WeekData = {
   aovActual: null,
   cacForecast: null,
   cacActual: null,
+  sheetNetSalesPva: null,
+  sheetCmPva: null,
+  sheetCountPva: null,
+  sheetAovPva: null,
+  sheetCacPva: null,
   cpm: null,
   ctr: null,
   cpc: null,
@@ -0,0 +1,174 @@
+import type { WeekData, Workspace, Scenario, SheetSource } from './types';
+import { parsePastedData, applyTier2Map, toTier2Map, workspaceParseOptions } from './sheets';
+import { DEFAULT_TIER1_TSV, DEFAULT_WORKSPACE } from './data/defaultData';
+import { parseSheetUrl } from './sheetSync';
+import { DEFAULT_PROFILE_NAME } from './data/defaultConfig';
+
+const WORKSPACES_STORAGE_KEY = 'economic-governor-workspaces';
+const ACTIVE_WORKSPACE_STORAGE_KEY = 'economic-governor-active-workspace';
+const TIER1_STORAGE_PREFIX = 'economic-governor-tier1-paste';
+const TIER2_STORAGE_PREFIX = 'economic-governor-tier2';
+const SCENARIOS_STORAGE_PREFIX = 'economic-governor-scenarios';
+const WORKSPACES_UPLOADED_STORAGE_KEY = 'economic-governor-workspaces-uploaded';
+
+/** Pre-workspace keys, migrated into the default workspace on first load */
+const LEGACY_ACTIVE_PROFILE_KEY = 'economic-governor-active-profile';
+
+export const DEFAULT_WORKSPACE_ID = DEFAULT_WORKSPACE.id;
+
+const tier1Key = (workspaceId: string) => `${TIER1_STORAGE_PREFIX}:${workspaceId}`;
+const tier2Key = (workspaceId: string) => `${TIER2_STORAGE_PREFIX}:${workspaceId}`;
+const scenariosKey = (workspaceId: string) => `${SCENARIOS_STORAGE_PREFIX}:${workspaceId}`;
+
+function defaultWorkspace(): Workspace {
+  return { ...DEFAULT_WORKSPACE, profileName: localStorage.getItem(LEGACY_ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_NAME };
+}
+
+/** Move the single-store Tier 1/Tier 2 blobs under the default workspace */
+function migrateLegacyData() {
+  for (const [legacy, next] of [
+    [TIER1_STORAGE_PREFIX, tier1Key(DEFAULT_WORKSPACE_ID)],
+    [TIER2_STORAGE_PREFIX, tier2Key(DEFAULT_WORKSPACE_ID)],
+  ]) {
+    const saved = localStorage.getItem(legacy);
+    if (saved != null && localStorage.getItem(next) == null) localStorage.setItem(next, saved);
+    localStorage.removeItem(legacy);
+  }
+  localStorage.removeItem(LEGACY_ACTIVE_PROFILE_KEY);
+}
+
+/** Workspaces saved before sheet sources had a single `sheetCsvUrl` */
+function migrateSheetSources(workspace: Workspace & { sheetCsvUrl?: string }): Workspace {
+  if (workspace.sheetSources) return workspace;
+  const { sheetCsvUrl, ...rest } = workspace;
+  const parsed = sheetCsvUrl ? parseSheetUrl(sheetCsvUrl) : null;
+  return {
+    ...rest,
+    sheetSources: parsed ? [{ id: newSheetSourceId(), label: 'Sheet', ...parsed }] : [],
+  };
+}
+
+export function newSheetSourceId(): string {
+  return `src-${Date.now().toString(36)}`;
+}
+
+/** The source "Sync from Sheet" reads for a workspace */
+export function activeSheetSource(workspace: Workspace): SheetSource | undefined {
+  return workspace.sheetSources.find(s => s.id === workspace.activeSheetSourceId) ?? workspace.sheetSources[0];
+}
+
+/**
+ * This browser's copy of the workspace list — shown until the server's list loads, and when it can't be reached.
+ * A US workspace is created (and legacy data migrated) on first run.
+ */
+export function loadWorkspaces(): Workspace[] {
+  try {
+    const saved = localStorage.getItem(WORKSPACES_STORAGE_KEY);
+    if (saved) {
+      const workspaces: Workspace[] = JSON.parse(saved);
+      if (workspaces.length > 0) return workspaces.map(migrateSheetSources);
+    }
+  } catch { /* corrupt storage, recreate the default */ }
+
+  const workspaces = [defaultWorkspace()];
+  migrateLegacyData();
+  saveWorkspaces(workspaces);
+  return workspaces;
+}
+
+export function saveWorkspaces(workspaces: Workspace[]) {
+  localStorage.setItem(WORKSPACES_STORAGE_KEY, JSON.stringify(workspaces));
+}
+
+export function loadActiveWorkspaceId(): string {
+  return localStorage.getItem(ACTIVE_WORKSPACE_STORAGE_KEY) || DEFAULT_WORKSPACE_ID;
+}
+
+export function saveActiveWorkspaceId(id: string) {
+  localStorage.setItem(ACTIVE_WORKSPACE_STORAGE_KEY, id);
+}
+
+/** Whether this browser's workspaces were already offered to the server (see App's workspace load) */
+export function workspacesUploaded(): boolean {
+  return localStorage.getItem(WORKSPACES_UPLOADED_STORAGE_KEY) != null;
+}
+
+export function markWorkspacesUploaded() {
+  localStorage.setItem(WORKSPACES_UPLOADED_STORAGE_KEY, new Date().toISOString());
+}
+
+/** Re-key a browser-only workspace's Tier 1/Tier 2 data and scenarios under the id the server issued for it */
+export function moveWorkspaceData(fromId: string, toId: string) {
+  for (const key of [tier1Key, tier2Key, scenariosKey]) {
+    const saved = localStorage.getItem(key(fromId));
+    if (saved != null) localStorage.setItem(key(toId), saved);
+    localStorage.removeItem(key(fromId));
+  }
+}
+
+/** Remove all stored Tier 1/Tier 2 data for a deleted workspace */
+export function deleteWorkspaceData(workspaceId: string) {
+  localStorage.removeItem(tier1Key(workspaceId));
+  localStorage.removeItem(tier2Key(workspaceId));
+  localStorage.removeItem(scenariosKey(workspaceId));
+}
+
+export function loadTier1Source(workspaceId: string): string | null {
+  return localStorage.getItem(tier1Key(workspaceId));
+}
+
+export function saveTier1Source(workspaceId: string, text: string) {
+  localStorage.setItem(tier1Key(workspaceId), text);
+}
+
+/** Tier 1 weeks parsed from the saved paste/sync, without Tier 2 — the baseline a sync is diffed against */
+export function loadSavedTier1Weeks(workspace: Workspace): WeekData[] {
+  const saved = localStorage.getItem(tier1Key(workspace.id));
+  if (!saved) return [];
+  try {
+    return parsePastedData(saved, workspaceParseOptions(workspace));
+  } catch { return []; }
+}
+
+/** Merge saved Tier 2 data onto pasted weeks (match by label) */
+export function mergeTier2(pastedWeeks: WeekData[], workspaceId: string): WeekData[] {
+  try {
+    const saved = localStorage.getItem(tier2Key(workspaceId));
+    if (!saved) return pastedWeeks;
+    return applyTier2Map(pastedWeeks, JSON.parse(saved));
+  } catch { return pastedWeeks; }
+}
+
+/** Save only Tier 2 data to localStorage (keyed by week label) */
+export function saveTier2(weeks: WeekData[], workspaceId: string) {
+  localStorage.setItem(tier2Key(workspaceId), JSON.stringify(toTier2Map(weeks)));
+}
+
+export function loadScenarios(workspaceId: string): Scenario[] {
+  try {
+    const saved = localStorage.getItem(scenariosKey(workspaceId));
+    return saved ? JSON.parse(saved) : [];
+  } catch { return []; }
+}
+
+export function saveScenarios(workspaceId: string, scenarios: Scenario[]) {
+  localStorage.setItem(scenariosKey(workspaceId), JSON.stringify(scenarios));
+}
+
+/**
+ * Load a workspace's saved Tier 1 paste merged with its Tier 2 data.
+ * The default workspace falls back to the synced scorecard.
+ */
+export function loadWorkspaceWeeks(workspace: Workspace): WeekData[] {
+  const saved = localStorage.getItem(tier1Key(workspace.id));
+  const source = saved || (workspace.id === DEFAULT_WORKSPACE_ID ? DEFAULT_TIER1_TSV : null);
+  if (!source) return [];
+  try {
+    const parsed = parsePastedData(source, workspaceParseOptions(workspace));
+    if (!saved) saveTier1Source(workspace.id, source);
+    return mergeTier2(parsed, workspace.id);
+  } catch {
+    // stale data, ignore
+    return [];
+  }
+}
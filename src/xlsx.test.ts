@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { readXlsx, XlsxError } from './xlsx';
+import { parsePastedData } from './sheets';
+import { toDelimited } from './csv';
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+interface ZipOptions {
+  deflate?: boolean;
+  descriptor?: boolean; // sizes in a data descriptor after each entry, as streaming writers do
+  zip64?: boolean; // sizes, offsets and the entry count in zip64 records
+}
+
+/** Minimal zip writer — CRCs are left zero, which the reader does not check */
+async function zip(files: Record<string, string>, { deflate = true, descriptor = false, zip64 = false }: ZipOptions = {}): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = deflate ? await deflateRaw(raw) : raw;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length + (descriptor ? 16 : 0));
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(6, descriptor ? 8 : 0, true);
+    lv.setUint16(8, deflate ? 8 : 0, true);
+    lv.setUint32(18, descriptor ? 0 : data.length, true);
+    lv.setUint32(22, descriptor ? 0 : raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+    if (descriptor) {
+      const at = 30 + nameBytes.length + data.length;
+      lv.setUint32(at, 0x08074b50, true);
+      lv.setUint32(at + 8, data.length, true);
+      lv.setUint32(at + 12, raw.length, true);
+    }
+
+    const extra = zip64 ? 4 + 24 : 0;
+    const central = new Uint8Array(46 + nameBytes.length + extra);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(8, descriptor ? 8 : 0, true);
+    cv.setUint16(10, deflate ? 8 : 0, true);
+    cv.setUint32(20, zip64 ? 0xffffffff : data.length, true);
+    cv.setUint32(24, zip64 ? 0xffffffff : raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint16(30, extra, true);
+    cv.setUint32(42, zip64 ? 0xffffffff : offset, true);
+    central.set(nameBytes, 46);
+    if (zip64) {
+      const at = 46 + nameBytes.length;
+      cv.setUint16(at, 0x0001, true);
+      cv.setUint16(at + 2, 24, true);
+      cv.setBigUint64(at + 4, BigInt(raw.length), true);
+      cv.setBigUint64(at + 12, BigInt(data.length), true);
+      cv.setBigUint64(at + 20, BigInt(offset), true);
+    }
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const trailer = new Uint8Array((zip64 ? 56 + 20 : 0) + 22);
+  const tv = new DataView(trailer.buffer);
+  let eocd = 0;
+  if (zip64) {
+    tv.setUint32(0, 0x06064b50, true);
+    tv.setBigUint64(4, 44n, true);
+    tv.setBigUint64(24, BigInt(centrals.length), true);
+    tv.setBigUint64(32, BigInt(centrals.length), true);
+    tv.setBigUint64(40, BigInt(centralSize), true);
+    tv.setBigUint64(48, BigInt(offset), true);
+    tv.setUint32(56, 0x07064b50, true);
+    tv.setBigUint64(64, BigInt(offset + centralSize), true);
+    tv.setUint32(72, 1, true);
+    eocd = 76;
+  }
+  tv.setUint32(eocd, 0x06054b50, true);
+  tv.setUint16(eocd + 8, zip64 ? 0xffff : centrals.length, true);
+  tv.setUint16(eocd + 10, zip64 ? 0xffff : centrals.length, true);
+  tv.setUint32(eocd + 12, zip64 ? 0xffffffff : centralSize, true);
+  tv.setUint32(eocd + 16, zip64 ? 0xffffffff : offset, true);
+
+  const out = new Uint8Array(offset + centralSize + trailer.length);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, trailer]) { out.set(part, pos); pos += part.length; }
+  return out;
+}
+
+const WORKBOOK = {
+  'xl/workbook.xml': `<workbook xmlns:r="r"><sheets>
+    <sheet name="Notes" sheetId="1" r:id="rId1"/>
+    <sheet name="Traction Scorecard" sheetId="2" r:id="rId2"/>
+  </sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships>
+    <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+    <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+  </Relationships>`,
+  'xl/sharedStrings.xml': `<sst>
+    <si><t>Date</t></si>
+    <si><r><t>CAC Actuals </t></r><r><t>USD</t></r></si>
+    <si><t>Plan vs Actual</t></si>
+    <si><t>R&amp;D</t></si>
+  </sst>`,
+  'xl/styles.xml': `<styleSheet>
+    <numFmts><numFmt numFmtId="164" formatCode="d mmm"/><numFmt numFmtId="165" formatCode="&quot;$&quot;#,##0.0"/></numFmts>
+    <cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="9"/><xf numFmtId="165"><alignment/></xf></cellXfs>
+  </styleSheet>`,
+  'xl/worksheets/sheet1.xml': `<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>3</v></c></row></sheetData></worksheet>`,
+  'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" s="1"><v>46026</v></c><c r="C1" s="1"><v>46033</v></c></row>
+    <row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" s="3"><v>90</v></c><c r="D3" t="inlineStr"><is><t>n/a</t></is></c></row>
+    <row r="4"><c r="A4" t="s"><v>2</v></c><c r="B4" s="2"><v>1.08</v></c><c r="C4" s="2"><v>0.1</v></c></row>
+  </sheetData></worksheet>`,
+};
+
+describe('readXlsx', () => {
+  it('reads every worksheet in tab order with displayed values', async () => {
+    const sheets = await readXlsx(await zip(WORKBOOK));
+    expect(sheets.map(s => s.name)).toEqual(['Notes', 'Traction Scorecard']);
+    expect(sheets[0].rows).toEqual([['R&D']]);
+    expect(sheets[1].rows).toEqual([
+      ['Date', '4 Jan', '11 Jan'],
+      [],
+      ['CAC Actuals USD', '90', '', 'n/a'],
+      ['Plan vs Actual', '108%', '10%'],
+    ]);
+  });
+
+  it('reads stored (uncompressed) entries and feeds the paste parser', async () => {
+    const [, scorecard] = await readXlsx(await zip(WORKBOOK, { deflate: false }));
+    const weeks = parsePastedData(toDelimited(scorecard.rows, '\t'));
+    expect(weeks.map(w => [w.label, w.cacActual, w.sheetCacPva])).toEqual([
+      ['4 Jan', 90, 108],
+      ['11 Jan', null, 10],
+    ]);
+  });
+
+  it('reads entries sized by data descriptors and zip64 records', async () => {
+    const expected = (await readXlsx(await zip(WORKBOOK))).map(s => s.rows);
+    expect((await readXlsx(await zip(WORKBOOK, { descriptor: true }))).map(s => s.rows)).toEqual(expected);
+    expect((await readXlsx(await zip(WORKBOOK, { zip64: true, deflate: false }))).map(s => s.rows)).toEqual(expected);
+  });
+
+  it('reads namespace-prefixed markup and inline rich text', async () => {
+    const sheets = await readXlsx(await zip({
+      'xl/workbook.xml': `<x:workbook xmlns:x="main" xmlns:rel="r"><x:sheets><x:sheet name="Data" sheetId="1" rel:id="rId1"/></x:sheets></x:workbook>`,
+      'xl/_rels/workbook.xml.rels': `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+      'xl/sharedStrings.xml': `<x:sst xmlns:x="main"><x:si><x:t>Date</x:t></x:si><x:si/><x:si><x:t>CPM</x:t></x:si></x:sst>`,
+      'xl/worksheets/sheet1.xml': `<x:worksheet xmlns:x="main"><x:sheetData>
+        <x:row r="1"><x:c r="A1" t="s"><x:v>0</x:v></x:c><x:c r="B1" t="s"><x:v>1</x:v></x:c><x:c r="C1" t="s"><x:v>2</x:v></x:c></x:row>
+        <x:row r="2"><x:c r="A2" t="inlineStr"><x:is><x:r><x:rPr><x:b/></x:rPr><x:t/></x:r><x:r><x:t xml:space="preserve">Ad </x:t></x:r><x:r><x:t>Spend</x:t></x:r></x:is></x:c>
+          <x:c r="B2"><x:f t="shared" ref="B2:C2" si="0">B1*2</x:f><x:v>4</x:v></x:c><x:c r="C2"><x:f t="shared" si="0"/><x:v>6</x:v></x:c></x:row>
+      </x:sheetData></x:worksheet>`,
+    }));
+    expect(sheets[0].rows).toEqual([['Date', '', 'CPM'], ['Ad Spend', '4', '6']]);
+  });
+
+  it('rejects formulas without a saved value, naming the cell', async () => {
+    const files = {
+      ...WORKBOOK,
+      'xl/worksheets/sheet2.xml': `<worksheet><sheetData><row r="1"><c r="B1"><v>2</v></c><c r="C1"><f t="shared" si="0"/></c></row></sheetData></worksheet>`,
+    };
+    await expect(readXlsx(await zip(files))).rejects.toThrow('Traction Scorecard!C1 is a formula with no saved value');
+  });
+
+  it('rejects broken and protected archives with a specific reason', async () => {
+    const truncated = await zip(WORKBOOK, { zip64: true });
+    new DataView(truncated.buffer).setUint32(truncated.length - 22 - 20, 0, true); // wipe the zip64 locator
+    await expect(readXlsx(truncated)).rejects.toThrow(/zip64 directory locator is missing/);
+
+    const encrypted = await zip(WORKBOOK, { deflate: false });
+    const view = new DataView(encrypted.buffer);
+    const central = view.getUint32(encrypted.length - 22 + 16, true);
+    view.setUint16(central + 8, 1, true);
+    await expect(readXlsx(encrypted)).rejects.toThrow(/is encrypted/);
+
+    await expect(readXlsx(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, ...new Array(600).fill(0)]))).rejects.toThrow(/password-protected/);
+
+    const corrupt = await zip({ 'xl/workbook.xml': '<workbook/>' });
+    corrupt.fill(0xff, 30 + 'xl/workbook.xml'.length, 32 + 'xl/workbook.xml'.length);
+    await expect(readXlsx(corrupt)).rejects.toThrow(/Corrupt zip entry xl\/workbook.xml/);
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    await expect(readXlsx(new TextEncoder().encode('Date,4 Jan'))).rejects.toThrow(XlsxError);
+    await expect(readXlsx(await zip({ 'a.txt': 'x' }, { deflate: false }))).rejects.toThrow(/workbook.xml is missing/);
+  });
+});
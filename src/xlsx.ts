@@ -0,0 +1,306 @@
+/** Unreadable or unsupported .xlsx workbook */
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxError';
+  }
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][]; // cells as displayed: percentages as "66%", dates as "28 Dec"
+}
+
+// --- Zip container ---
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+/** Where a 32-bit size or offset says "see the zip64 record" */
+const ZIP64_MARKER = 0xffffffff;
+/** First bytes of an OLE compound file — what Excel saves password-protected workbooks and legacy .xls files as */
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readUint64(view: DataView, at: number): number {
+  const value = view.getUint32(at, true) + view.getUint32(at + 4, true) * 2 ** 32;
+  if (!Number.isSafeInteger(value)) throw new XlsxError('Corrupt zip64 record');
+  return value;
+}
+
+/** Where the central directory starts and how many entries it has, from the zip64 end record when the plain one overflows */
+function centralDirectory(view: DataView, eocd: number): { offset: number; count: number } {
+  const count = view.getUint16(eocd + 10, true);
+  const offset = view.getUint32(eocd + 16, true);
+  if (count !== 0xffff && offset !== ZIP64_MARKER) return { offset, count };
+
+  const locator = eocd - 20;
+  if (locator < 0 || view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) {
+    throw new XlsxError('Corrupt zip64 workbook (the zip64 directory locator is missing)');
+  }
+  const record = readUint64(view, locator + 8);
+  if (record + 56 > view.byteLength || view.getUint32(record, true) !== ZIP64_EOCD_SIGNATURE) {
+    throw new XlsxError('Corrupt zip64 workbook (no zip64 directory record)');
+  }
+  return { offset: readUint64(view, record + 48), count: readUint64(view, record + 32) };
+}
+
+/**
+ * Sizes and local header offset of a central directory entry. Fields that overflow 32 bits hold ZIP64_MARKER
+ * and are found, in this order, in the entry's zip64 extra field.
+ */
+function entryLocation(view: DataView, entry: number, extraStart: number, extraEnd: number, name: string) {
+  const fields = {
+    size: view.getUint32(entry + 24, true),
+    compressedSize: view.getUint32(entry + 20, true),
+    localOffset: view.getUint32(entry + 42, true),
+  };
+  const overflowing = (Object.keys(fields) as (keyof typeof fields)[]).filter(key => fields[key] === ZIP64_MARKER);
+  if (overflowing.length === 0) return fields;
+
+  for (let at = extraStart; at + 4 <= extraEnd; at += 4 + view.getUint16(at + 2, true)) {
+    if (view.getUint16(at, true) !== ZIP64_EXTRA_ID) continue;
+    const length = view.getUint16(at + 2, true);
+    if (length < overflowing.length * 8) break;
+    overflowing.forEach((key, i) => { fields[key] = readUint64(view, at + 4 + i * 8); });
+    return fields;
+  }
+  throw new XlsxError(`Corrupt zip entry ${name} (sizes point to a missing zip64 field)`);
+}
+
+/**
+ * Read every file in a zip archive (stored or deflated entries only). Sizes come from the central directory,
+ * so entries whose local header defers them to a trailing data descriptor read like any other.
+ */
+async function readZip(bytes: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (OLE_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    throw new XlsxError('This is a password-protected workbook or an old .xls file — save it as an unprotected .xlsx first');
+  }
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new XlsxError('Not an .xlsx file (no zip directory found)');
+
+  const directory = centralDirectory(view, eocd);
+  let offset = directory.offset;
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  for (let n = 0; n < directory.count; n++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new XlsxError('Corrupt zip directory');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    const extraStart = offset + 46 + nameLength;
+    const { size, compressedSize, localOffset } = entryLocation(view, offset, extraStart, extraStart + extraLength, name);
+    offset = extraStart + extraLength + commentLength;
+
+    if (flags & 1) throw new XlsxError(`Zip entry ${name} is encrypted — save the workbook without a password first`);
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new XlsxError(`Corrupt zip entry ${name}`);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > bytes.length) throw new XlsxError(`Zip entry ${name} is truncated`);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Uint8Array;
+    if (method === 0) content = data;
+    else if (method === 8) content = await inflateRaw(data).catch(() => { throw new XlsxError(`Corrupt zip entry ${name} (it does not inflate)`); });
+    else throw new XlsxError(`Unsupported zip compression method ${method} in ${name}`);
+    if (content.length !== size) throw new XlsxError(`Corrupt zip entry ${name} (${content.length} bytes, the directory says ${size})`);
+    files.set(name, content);
+  }
+  return files;
+}
+
+// --- SpreadsheetML ---
+
+function decodeXml(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X'
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10));
+  });
+}
+
+function attr(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * Drop namespace prefixes from element names — some writers emit <x:row><x:c> where Excel writes <row><c>.
+ * Attributes keep theirs (r:id).
+ */
+function unprefixTags(xml: string): string {
+  return xml.replace(/<(\/?)[A-Za-z_][\w.-]*:(?=[A-Za-z_])/g, '<$1');
+}
+
+/** Concatenated text runs of a rich or plain string item, ignoring phonetic hints */
+function textRuns(xml: string): string {
+  const body = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const m of body.matchAll(/<t\b[^>]*?(?:\/>|>([\s\S]*?)<\/t>)/g)) text += decodeXml(m[1] ?? '');
+  return text;
+}
+
+/** "A1" → 0, "AB7" → 27 */
+function columnIndex(ref: string): number {
+  let col = 0;
+  for (const ch of ref.replace(/\d+$/, '').toUpperCase()) col = col * 26 + (ch.charCodeAt(0) - 64);
+  return col - 1;
+}
+
+/** Built-in number formats that display a date */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+const BUILTIN_PERCENT_FORMATS = new Set([9, 10]);
+
+type CellFormat = 'number' | 'percent' | 'date';
+
+function classifyFormat(id: number, code: string | undefined): CellFormat {
+  if (BUILTIN_PERCENT_FORMATS.has(id)) return 'percent';
+  if (BUILTIN_DATE_FORMATS.has(id)) return 'date';
+  if (!code) return 'number';
+  const bare = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''); // drop literals, colours, locales
+  if (bare.includes('%')) return 'percent';
+  if (/[dmy]/i.test(bare)) return 'date';
+  return 'number';
+}
+
+/** Display format per cell style index (the `s` attribute) */
+function readStyles(xml: string | undefined): CellFormat[] {
+  if (!xml) return [];
+  const codes = new Map<number, string>();
+  for (const m of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    codes.set(Number(attr(m[0], 'numFmtId')), attr(m[0], 'formatCode') ?? '');
+  }
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  return [...cellXfs.matchAll(/<xf\b[^>]*>/g)].map(m => {
+    const id = Number(attr(m[0], 'numFmtId') ?? 0);
+    return classifyFormat(id, codes.get(id));
+  });
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Number as a string without float noise, e.g. 0.1 + 0.2 → "0.3" */
+function plainNumber(n: number): string {
+  return String(Number(n.toPrecision(12)));
+}
+
+/** Excel serial date → "28 Dec", the scorecard's week label format */
+function formatDate(serial: number, date1904: boolean): string {
+  const days = Math.floor(serial) + (date1904 ? 1462 : 0) - 25569;
+  const d = new Date(days * 86400000);
+  return `${d.getUTCDate()} ${MONTHS[d.getUTCMonth()]}`;
+}
+
+interface SheetContext {
+  sharedStrings: string[];
+  formats: CellFormat[];
+  date1904: boolean;
+}
+
+function cellText(attrs: string, body: string, ctx: SheetContext): string {
+  const type = attr(attrs, 't') ?? 'n';
+  if (type === 'inlineStr') return textRuns(body);
+  const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw == null) return '';
+  const value = decodeXml(raw);
+
+  switch (type) {
+    case 's': return ctx.sharedStrings[Number(value)] ?? '';
+    case 'b': return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e': return value;
+  }
+
+  const n = Number(value);
+  if (isNaN(n)) return value;
+  const format = ctx.formats[Number(attr(attrs, 's') ?? 0)] ?? 'number';
+  if (format === 'percent') return `${plainNumber(n * 100)}%`;
+  if (format === 'date') return formatDate(n, ctx.date1904);
+  return plainNumber(n);
+}
+
+function readSheet(name: string, xml: string, ctx: SheetContext): string[][] {
+  const rows: string[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNum = Number(attr(rowMatch[1], 'r') ?? rows.length + 1);
+    while (rows.length < rowNum - 1) rows.push([]);
+
+    const cells: string[] = [];
+    for (const c of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(c[1], 'r');
+      const col = ref ? columnIndex(ref) : cells.length;
+      // Without a saved result there is nothing to show — shared formulas in particular only name their master cell
+      if (/<f\b/.test(c[2] ?? '') && !/<v>/.test(c[2] ?? '')) {
+        throw new XlsxError(`${name}!${ref ?? `row ${rowNum}`} is a formula with no saved value — open the workbook in Excel or Google Sheets and save it again`);
+      }
+      while (cells.length < col) cells.push('');
+      cells[col] = cellText(c[1], c[2] ?? '', ctx);
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/** Resolve a workbook relationship target to its path in the archive */
+function partPath(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/** Read every worksheet of an .xlsx workbook, in tab order */
+export async function readXlsx(data: ArrayBuffer | Uint8Array): Promise<XlsxSheet[]> {
+  const files = await readZip(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const decoder = new TextDecoder();
+  const text = (path: string) => {
+    const file = files.get(path);
+    return file ? unprefixTags(decoder.decode(file)) : undefined;
+  };
+
+  const workbook = text('xl/workbook.xml');
+  if (!workbook) throw new XlsxError('Not an .xlsx workbook (xl/workbook.xml is missing)');
+
+  const targets = new Map<string, string>();
+  for (const m of (text('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attr(m[0], 'Id');
+    const target = attr(m[0], 'Target');
+    if (id && target) targets.set(id, partPath(target));
+  }
+
+  const ctx: SheetContext = {
+    sharedStrings: [...(text('xl/sharedStrings.xml') ?? '').matchAll(/<si\b[^>]*?(?:\/>|>([\s\S]*?)<\/si>)/g)].map(m => textRuns(m[1] ?? '')),
+    formats: readStyles(text('xl/styles.xml')),
+    date1904: /<workbookPr\b[^>]*\sdate1904="(1|true)"/.test(workbook),
+  };
+
+  const sheets: XlsxSheet[] = [];
+  for (const m of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = attr(m[0], 'name') ?? `Sheet ${sheets.length + 1}`;
+    const relId = m[0].match(/\s[\w.-]+:id="([^"]*)"/)?.[1]; // r:id, whatever the prefix
+    const xml = relId ? text(targets.get(relId) ?? '') : undefined;
+    if (xml == null || !/<worksheet\b/.test(xml)) continue; // chart sheets and dangling references
+    sheets.push({ name, rows: readSheet(name, xml, ctx) });
+  }
+
+  if (sheets.length === 0) throw new XlsxError('Workbook has no worksheets');
+  return sheets;
+}
@@ -5,4 +5,8 @@ import tailwindcss from '@tailwindcss/vite';
 export default defineConfig({
   base: '/economic-governor/',
   plugins: [react(), tailwindcss()],
+  server: {
+    // `npm run server` — the local API; set API_PORT for both when 8787 is taken
+    proxy: { '/api': `http://localhost:${process.env.API_PORT ?? 8787}` },
+  },
 });